@@ -41,14 +41,20 @@ export default defineConfig({
           items: [
             { label: 'Overview', slug: 'configuration/overview' },
             { label: 'Environment Variables', slug: 'configuration/environment-variables' },
+            { label: 'General Settings', slug: 'configuration/host' },
             { label: 'Root Folders', slug: 'configuration/root-folders' },
+            { label: 'Tags', slug: 'configuration/tags' },
             { label: 'Quality Profiles', slug: 'configuration/quality-profiles' },
             { label: 'Custom Formats', slug: 'configuration/custom-formats' },
             { label: 'Download Clients', slug: 'configuration/download-clients' },
+            { label: 'Delay Profiles', slug: 'configuration/delay-profiles' },
             { label: 'Indexers', slug: 'configuration/indexers' },
+            { label: 'Import Lists', slug: 'configuration/import-lists' },
+            { label: 'Notifications', slug: 'configuration/notifications' },
             { label: 'Media Management', slug: 'configuration/media-management' },
             { label: 'Bazarr', slug: 'configuration/bazarr' },
             { label: 'Naming', slug: 'configuration/naming' },
+            { label: 'Pruning', slug: 'configuration/pruning' },
             { label: 'Validation', slug: 'configuration/validation' },
           ],
         },
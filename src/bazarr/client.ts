@@ -6,6 +6,7 @@ import type {
 } from '@/config/schema'
 import { logger } from '@/utils/logger'
 import { withRetry } from '@/utils/retry'
+import { tracedFetch } from '@/utils/tracing'
 
 interface BazarrLanguageProfileApi {
   profileId: number
@@ -48,7 +49,7 @@ export class BazarrManager {
   }
 
   private async apiGet(path: string): Promise<Response> {
-    return await fetch(this.buildUrl(path), {
+    return await tracedFetch(this.buildUrl(path), {
       method: 'GET',
       headers: { 'Content-Type': 'application/json' },
     })
@@ -79,7 +80,7 @@ export class BazarrManager {
       keys: Object.keys(data),
     })
 
-    return await fetch(url, {
+    return await tracedFetch(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: formData.toString(),
@@ -91,7 +92,7 @@ export class BazarrManager {
 
     let response: Response | undefined
     try {
-      response = await fetch(this.buildUrl('/system?action=restart'), {
+      response = await tracedFetch(this.buildUrl('/system?action=restart'), {
         method: 'POST',
       })
     } catch (error) {
@@ -585,7 +586,7 @@ export class BazarrManager {
         const params = new URLSearchParams()
         params.append('seriesid', String(id))
         params.append('profileid', String(profileId))
-        const response = await fetch(url, {
+        const response = await tracedFetch(url, {
           method: 'POST',
           headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
           body: params.toString(),
@@ -626,7 +627,7 @@ export class BazarrManager {
         const params = new URLSearchParams()
         params.append('radarrid', String(id))
         params.append('profileid', String(profileId))
-        const response = await fetch(url, {
+        const response = await tracedFetch(url, {
           method: 'POST',
           headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
           body: params.toString(),
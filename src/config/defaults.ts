@@ -24,12 +24,45 @@ export const defaultConfig: Partial<Config> = {
   },
   health: {
     port: 8080,
+    checkInterval: 30,
   },
   logLevel: 'info',
   logFormat: 'json',
   configPath: '/config/servarr.yaml',
   configWatch: true,
   configReconcileInterval: 60,
+  shutdownTimeout: 25,
+  reconcileMode: 'enforce',
+  approval: {
+    deletes: false,
+  },
+  notifications: {
+    webhooks: [],
+  },
+  stepConcurrency: 4,
+  onlySteps: [],
+  skipSteps: [],
+  history: {
+    store: 'postgres',
+    path: '/config/preparr-history.jsonl',
+    retention: 500,
+  },
+  audit: {
+    store: 'none',
+    path: '/config/preparr-audit.jsonl',
+  },
+  leaderElection: {
+    enabled: false,
+    lock: 'postgres',
+    path: '/config/preparr-leader.lock',
+    leaseDuration: 30,
+  },
+  tracing: {
+    enabled: false,
+    endpoint: 'http://localhost:4318',
+    headers: {},
+    serviceName: 'preparr',
+  },
 }
 
 export const envMapping = {
@@ -71,11 +104,33 @@ export const envMapping = {
   APP_QBITTORRENT: 'app.qbittorrent',
 
   HEALTH_PORT: 'health.port',
+  HEALTH_CHECK_INTERVAL: 'health.checkInterval',
   LOG_LEVEL: 'logLevel',
   LOG_FORMAT: 'logFormat',
   CONFIG_PATH: 'configPath',
   CONFIG_WATCH: 'configWatch',
   CONFIG_RECONCILE_INTERVAL: 'configReconcileInterval',
+  SHUTDOWN_TIMEOUT: 'shutdownTimeout',
+  RECONCILE_MODE: 'reconcileMode',
+  APPROVAL_DELETES: 'approval.deletes',
+  APPROVAL_MAX_CHANGES: 'approval.maxChanges',
+  NOTIFICATIONS_WEBHOOKS: 'notifications.webhooks',
+  STEP_CONCURRENCY: 'stepConcurrency',
+  ONLY_STEPS: 'onlySteps',
+  SKIP_STEPS: 'skipSteps',
+  HISTORY_STORE: 'history.store',
+  HISTORY_PATH: 'history.path',
+  HISTORY_RETENTION: 'history.retention',
+  AUDIT_STORE: 'audit.store',
+  AUDIT_PATH: 'audit.path',
+  LEADER_ELECTION_ENABLED: 'leaderElection.enabled',
+  LEADER_ELECTION_LOCK: 'leaderElection.lock',
+  LEADER_ELECTION_PATH: 'leaderElection.path',
+  LEADER_ELECTION_LEASE_DURATION: 'leaderElection.leaseDuration',
+  TRACING_ENABLED: 'tracing.enabled',
+  TRACING_ENDPOINT: 'tracing.endpoint',
+  TRACING_HEADERS: 'tracing.headers',
+  TRACING_SERVICE_NAME: 'tracing.serviceName',
 } as const
 
 export const cliMapping = {
@@ -115,11 +170,33 @@ export const cliMapping = {
   'app-qbittorrent': 'app.qbittorrent',
 
   'health-port': 'health.port',
+  'health-check-interval': 'health.checkInterval',
   'log-level': 'logLevel',
   'log-format': 'logFormat',
   'config-path': 'configPath',
   'config-watch': 'configWatch',
   'config-reconcile-interval': 'configReconcileInterval',
+  'shutdown-timeout': 'shutdownTimeout',
+  'reconcile-mode': 'reconcileMode',
+  'approval-deletes': 'approval.deletes',
+  'approval-max-changes': 'approval.maxChanges',
+  'notifications-webhooks': 'notifications.webhooks',
+  'step-concurrency': 'stepConcurrency',
+  'only-steps': 'onlySteps',
+  'skip-steps': 'skipSteps',
+  'history-store': 'history.store',
+  'history-path': 'history.path',
+  'history-retention': 'history.retention',
+  'audit-store': 'audit.store',
+  'audit-path': 'audit.path',
+  'leader-election-enabled': 'leaderElection.enabled',
+  'leader-election-lock': 'leaderElection.lock',
+  'leader-election-path': 'leaderElection.path',
+  'leader-election-lease-duration': 'leaderElection.leaseDuration',
+  'tracing-enabled': 'tracing.enabled',
+  'tracing-endpoint': 'tracing.endpoint',
+  'tracing-headers': 'tracing.headers',
+  'tracing-service-name': 'tracing.serviceName',
 } as const
 
 export type EnvKey = keyof typeof envMapping
@@ -30,6 +30,31 @@ describe('parseCliArgs', () => {
 
     const result6 = parseCliArgs(['--generate-api-key'])
     expect(result6.generateApiKey).toBe(true)
+
+    const result7 = parseCliArgs(['--plan'])
+    expect(result7.plan).toBe(true)
+    expect(result7.planFormat).toBe('text')
+  })
+
+  test('parses plan format in both syntaxes without consuming other flags', () => {
+    expect(parseCliArgs(['--plan', '--plan-format=json']).planFormat).toBe('json')
+    expect(parseCliArgs(['--plan-format', 'json', '--plan']).planFormat).toBe('json')
+
+    const result = parseCliArgs(['--plan-format', '--log-level=debug'])
+    expect(result.planFormat).toBe('text')
+    expect(result.config.logLevel).toBe('debug')
+  })
+
+  test('parses export path and format without consuming other flags', () => {
+    const toStdout = parseCliArgs(['--export', '--log-level=warn'])
+    expect(toStdout.export).toBe(true)
+    expect(toStdout.exportPath).toBeNull()
+    expect(toStdout.config.logLevel).toBe('warn')
+
+    expect(parseCliArgs(['--export', 'servarr.json']).exportPath).toBe('servarr.json')
+    expect(parseCliArgs(['--export=out.yaml']).exportPath).toBe('out.yaml')
+    expect(parseCliArgs(['--export', '--export-format', 'toml']).exportFormat).toBe('toml')
+    expect(parseCliArgs(['--export-format=xml']).exportFormat).toBeNull()
   })
 
   test('parses configuration arguments with = syntax', () => {
@@ -10,6 +10,11 @@ export interface CliArgs {
   help: boolean
   version: boolean
   generateApiKey: boolean
+  plan: boolean
+  planFormat: 'text' | 'json'
+  export: boolean
+  exportPath: string | null // null writes to stdout
+  exportFormat: 'yaml' | 'json' | 'toml' | null // null derives the format from exportPath
 
   // Configuration overrides
   config: Partial<Config>
@@ -27,6 +32,11 @@ export function parseCliArgs(args: string[] = process.argv.slice(2)): CliArgs {
     help: false,
     version: false,
     generateApiKey: false,
+    plan: false,
+    planFormat: 'text',
+    export: false,
+    exportPath: null,
+    exportFormat: null,
     config: {},
     raw: args,
   }
@@ -55,6 +65,48 @@ export function parseCliArgs(args: string[] = process.argv.slice(2)): CliArgs {
       continue
     }
 
+    if (arg === '--plan') {
+      result.plan = true
+      continue
+    }
+
+    if (arg === '--plan-format' || arg?.startsWith('--plan-format=')) {
+      const nextArg = args[i + 1]
+      const parsed = parseArgument(arg, nextArg)
+      if (parsed?.value === 'json' || parsed?.value === 'text') {
+        result.planFormat = parsed.value
+      }
+      if (!arg.includes('=') && nextArg && !nextArg.startsWith('-')) {
+        i++
+      }
+      continue
+    }
+
+    // --export writes to stdout, --export <path> and --export=<path> to a file
+    if (arg === '--export' || arg?.startsWith('--export=')) {
+      result.export = true
+      const nextArg = args[i + 1]
+      if (arg.includes('=')) {
+        result.exportPath = arg.slice('--export='.length) || null
+      } else if (nextArg && !nextArg.startsWith('-')) {
+        result.exportPath = nextArg
+        i++
+      }
+      continue
+    }
+
+    if (arg === '--export-format' || arg?.startsWith('--export-format=')) {
+      const nextArg = args[i + 1]
+      const parsed = parseArgument(arg, nextArg)
+      if (parsed?.value === 'yaml' || parsed?.value === 'json' || parsed?.value === 'toml') {
+        result.exportFormat = parsed.value
+      }
+      if (!arg.includes('=') && nextArg && !nextArg.startsWith('-')) {
+        i++
+      }
+      continue
+    }
+
     // Handle configuration arguments
     if (arg?.startsWith('--')) {
       const nextArg = args[i + 1]
@@ -209,12 +261,18 @@ Special Options:
   --help, -h          Show this help message
   --version, -v       Show version information
   --generate-api-key  Generate a new API key and exit
+  --plan              Print the changes reconciliation would make, without applying them
+  --plan-format       Plan output format: text (default) or json
+  --export [path]     Write the live instance state as a PrepArr config file (stdout without path)
+  --export-format     Export format: yaml, json or toml (default: from the path, else yaml)
 
 Configuration Options:
 ${configOptions}
 
 Examples:
   preparr --init
+  preparr --plan --plan-format=json
+  preparr --export /config/servarr.yaml
   preparr --postgres-host=db.example.com --postgres-port=5433
   preparr --servarr-url=http://sonarr:8989 --servarr-type=sonarr
   preparr --config-path=/custom/config.yaml --log-level=debug
@@ -1,4 +1,7 @@
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { getEnvironmentInfo, loadEnvironmentConfig } from './env'
 
 // Store original environment
@@ -184,6 +187,26 @@ describe('loadEnvironmentConfig', () => {
     expect(config.servarr).toBeInstanceOf(Object)
     expect(config.services?.qbittorrent).toBeInstanceOf(Object)
   })
+
+  test('reads *_FILE variants and prefers values set directly', () => {
+    const secretPath = join(tmpdir(), `preparr-secret-${Date.now()}`)
+    writeFileSync(secretPath, 'file-secret\n')
+    process.env.POSTGRES_PASSWORD_FILE = secretPath
+    process.env.SERVARR_API_KEY_FILE = secretPath
+    process.env.SERVARR_API_KEY = 'direct-key'
+
+    const config = loadEnvironmentConfig()
+    rmSync(secretPath)
+
+    expect(config.postgres?.password).toBe('file-secret')
+    expect(config.servarr?.apiKey).toBe('direct-key')
+  })
+
+  test('fails when a *_FILE variant points to a missing file', () => {
+    process.env.POSTGRES_PASSWORD_FILE = '/nonexistent/preparr-secret'
+
+    expect(() => loadEnvironmentConfig()).toThrow('Failed to read POSTGRES_PASSWORD_FILE')
+  })
 })
 
 describe('getEnvironmentInfo', () => {
@@ -1,3 +1,4 @@
+import { readFileSync } from 'node:fs'
 import { env } from 'bun'
 import { type EnvKey, envMapping } from '../defaults'
 import type { Config } from '../schema'
@@ -10,7 +11,7 @@ export function loadEnvironmentConfig(): Partial<Config> {
 
   // Process each environment variable mapping
   for (const [envVar, configPath] of Object.entries(envMapping) as [EnvKey, string][]) {
-    const value = env[envVar]
+    const value = readEnv(envVar)
 
     if (value !== undefined && value !== '') {
       setNestedValue(config, configPath, convertEnvValue(value))
@@ -20,6 +21,32 @@ export function loadEnvironmentConfig(): Partial<Config> {
   return config
 }
 
+/**
+ * Read an environment variable, falling back to the contents of the file named by its `_FILE`
+ * variant (e.g. `POSTGRES_PASSWORD_FILE=/run/secrets/postgres-password`). A value set directly
+ * takes precedence over the file.
+ */
+export function readEnv(name: string): string | undefined {
+  const value = env[name]
+  if (value !== undefined && value !== '') {
+    return value
+  }
+
+  const filePath = env[`${name}_FILE`]
+  if (!filePath) {
+    return value
+  }
+
+  try {
+    // Secret files usually end with a newline that is not part of the value
+    return readFileSync(filePath, 'utf8').replace(/\r?\n$/, '')
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${name}_FILE '${filePath}': ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
+
 /**
  * Set a nested value in an object using dot notation
  * Example: setNestedValue(obj, 'postgres.host', 'localhost')
@@ -119,6 +146,9 @@ export function getEnvironmentInfo(): {
     if (typeof value === 'string') {
       if (key in envMapping) {
         mapped[key] = convertEnvValue(value)
+      } else if (key.endsWith('_FILE') && key.slice(0, -'_FILE'.length) in envMapping) {
+        // Only the path is reported; the secret itself stays out of debug output
+        mapped[key] = value
       } else if (
         key.startsWith('POSTGRES_') ||
         key.startsWith('SERVARR_') ||
@@ -1,5 +1,6 @@
 import { file, TOML, YAML } from 'bun'
 import type { Config } from '../schema'
+import { interpolateConfig } from './interpolate'
 
 export type ConfigFileFormat = 'yaml' | 'json' | 'toml'
 
@@ -18,7 +19,7 @@ export function detectFileFormat(filePath: string): ConfigFileFormat {
 }
 
 /**
- * Load and parse configuration file
+ * Load and parse configuration file, substituting `${VAR}` and `${file:/path}` placeholders
  */
 export async function loadConfigFile(filePath: string): Promise<Partial<Config> | null> {
   try {
@@ -47,7 +48,7 @@ export async function loadConfigFile(filePath: string): Promise<Partial<Config>
         parsed = parseJSON(content)
     }
 
-    return parsed
+    return parsed ? await interpolateConfig(parsed) : parsed
   } catch (error) {
     throw new Error(
       `Failed to load config file '${filePath}': ${error instanceof Error ? error.message : String(error)}`,
@@ -117,5 +118,3 @@ export async function findConfigFile(customPath?: string): Promise<string | null
 
   return null
 }
-
-// No file-level environment interpolation; precedence is handled by loader/merger
@@ -0,0 +1,69 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: placeholders are the input under test
+import { afterEach, describe, expect, test } from 'bun:test'
+import { rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { interpolateConfig } from './interpolate'
+
+describe('interpolateConfig', () => {
+  const secretPath = join(tmpdir(), `preparr-interpolate-${Date.now()}`)
+
+  afterEach(() => {
+    delete process.env.PREPARR_TEST_PASSWORD
+    delete process.env.PREPARR_TEST_TOKEN_FILE
+    rmSync(secretPath, { force: true })
+  })
+
+  test('substitutes environment variables in nested strings', async () => {
+    process.env.PREPARR_TEST_PASSWORD = 'hunter2'
+
+    const config = await interpolateConfig({
+      app: {
+        downloadClients: [
+          {
+            fields: [
+              { name: 'password', value: '${PREPARR_TEST_PASSWORD}' },
+              { name: 'port', value: 8080 },
+            ],
+          },
+        ],
+      },
+      servarr: { url: 'http://${PREPARR_TEST_HOST:-sonarr}:8989' },
+    })
+
+    expect(config.app.downloadClients[0]?.fields).toEqual([
+      { name: 'password', value: 'hunter2' },
+      { name: 'port', value: 8080 },
+    ])
+    expect(config.servarr.url).toBe('http://sonarr:8989')
+  })
+
+  test('reads secrets from files, directly or through *_FILE variables', async () => {
+    writeFileSync(secretPath, 's3cret\n')
+    process.env.PREPARR_TEST_TOKEN_FILE = secretPath
+
+    const config = await interpolateConfig({
+      password: `\${file:${secretPath}}`,
+      token: '${PREPARR_TEST_TOKEN}',
+    })
+
+    expect(config).toEqual({ password: 's3cret', token: 's3cret' })
+  })
+
+  test('keeps escaped placeholders as literals', async () => {
+    expect(await interpolateConfig({ format: '$${Series Title}' })).toEqual({
+      format: '${Series Title}',
+    })
+  })
+
+  test('fails on unset variables and missing files', async () => {
+    await expect(
+      interpolateConfig({ postgres: { password: '${PREPARR_TEST_UNSET}' } }),
+    ).rejects.toThrow(
+      "Environment variable 'PREPARR_TEST_UNSET' referenced at 'postgres.password' is not set",
+    )
+    await expect(interpolateConfig({ key: '${file:/nonexistent/secret}' })).rejects.toThrow(
+      "Secret file '/nonexistent/secret' referenced at 'key' does not exist",
+    )
+  })
+})
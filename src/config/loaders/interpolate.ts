@@ -0,0 +1,89 @@
+import { file } from 'bun'
+import { readEnv } from './env'
+
+// ${NAME}, ${NAME:-default} or ${file:/path}; $${...} is kept as a literal ${...}
+const PLACEHOLDER_PATTERN = /\$(\$?)\{([^}]+)\}/g
+
+/**
+ * Substitute `${VAR}`, `${VAR:-default}` and `${file:/path}` placeholders in every string
+ * of a parsed configuration file. `${VAR}` also honours `VAR_FILE`. Substitution runs on
+ * parsed values, so secrets containing quotes or newlines cannot break the file syntax.
+ * Unresolved placeholders are an error rather than being passed on as literal values.
+ */
+export async function interpolateConfig<T>(value: T): Promise<T> {
+  return (await interpolateValue(value, '')) as T
+}
+
+async function interpolateValue(value: unknown, path: string): Promise<unknown> {
+  if (typeof value === 'string') {
+    return interpolateString(value, path)
+  }
+
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item, index) => interpolateValue(item, `${path}[${index}]`)))
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = await interpolateValue(item, path ? `${path}.${key}` : key)
+    }
+    return result
+  }
+
+  return value
+}
+
+async function interpolateString(value: string, path: string): Promise<string> {
+  if (!value.includes('${')) {
+    return value
+  }
+
+  let result = ''
+  let lastIndex = 0
+
+  for (const match of value.matchAll(PLACEHOLDER_PATTERN)) {
+    const [placeholder, escaped, expression = ''] = match
+    result += value.slice(lastIndex, match.index)
+    lastIndex = match.index + placeholder.length
+
+    result += escaped ? `\${${expression}}` : await resolvePlaceholder(expression, path)
+  }
+
+  return result + value.slice(lastIndex)
+}
+
+async function resolvePlaceholder(expression: string, path: string): Promise<string> {
+  if (expression.startsWith('file:')) {
+    return await readSecretFile(expression.slice('file:'.length), path)
+  }
+
+  const [name = '', fallback] = splitDefault(expression)
+  const resolved = readEnv(name)
+  if (resolved !== undefined && resolved !== '') {
+    return resolved
+  }
+  if (fallback !== undefined) {
+    return fallback
+  }
+
+  throw new Error(`Environment variable '${name}' referenced at '${path}' is not set`)
+}
+
+function splitDefault(expression: string): [string, string | undefined] {
+  const separator = expression.indexOf(':-')
+  if (separator === -1) {
+    return [expression.trim(), undefined]
+  }
+  return [expression.slice(0, separator).trim(), expression.slice(separator + 2)]
+}
+
+async function readSecretFile(filePath: string, path: string): Promise<string> {
+  const secretFile = file(filePath.trim())
+  if (!(await secretFile.exists())) {
+    throw new Error(`Secret file '${filePath}' referenced at '${path}' does not exist`)
+  }
+
+  // Secret files usually end with a newline that is not part of the value
+  return (await secretFile.text()).replace(/\r?\n$/, '')
+}
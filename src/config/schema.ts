@@ -181,6 +181,9 @@ export const CustomFormatSpecificationSchema = z.object({
     .default([]),
 })
 
+// Tag ID or tag label (resolved to ID at runtime)
+export const TagReferenceSchema = z.union([z.number(), z.string()])
+
 // Custom Format Schema (Radarr/Sonarr v4+)
 export const CustomFormatSchema = z.object({
   id: z.number().optional(),
@@ -196,8 +199,9 @@ export const FormatItemSchema = z.object({
 })
 
 export const QualityProfileSchema = z.object({
+  id: z.number().optional(),
   name: z.string(),
-  cutoff: z.number(),
+  cutoff: z.union([z.number(), z.string()]), // Quality ID or quality name (resolved at runtime)
   items: z.array(
     z.object({
       quality: z.object({
@@ -229,7 +233,70 @@ export const ReleaseProfileSchema = z.object({
   preferred: z.array(ReleaseProfileTermSchema).default([]),
   includePreferredWhenRenaming: z.boolean().default(false),
   indexerId: z.number().default(0), // 0 = all indexers
-  tags: z.array(z.number()).default([]),
+  tags: z.array(TagReferenceSchema).default([]),
+})
+
+// Delay Profile Schema. Profiles are identified by their tags; the profile without tags is
+// the built-in default, which can be updated but never created or deleted.
+export const DelayProfileSchema = z.object({
+  id: z.number().optional(),
+  enableUsenet: z.boolean().default(true),
+  enableTorrent: z.boolean().default(true),
+  preferredProtocol: z.enum(['usenet', 'torrent']).default('usenet'),
+  usenetDelay: z.number().default(0), // Minutes
+  torrentDelay: z.number().default(0), // Minutes
+  bypassIfHighestQuality: z.boolean().default(false),
+  bypassIfAboveCustomFormatScore: z.boolean().default(false),
+  minimumCustomFormatScore: z.number().default(0),
+  order: z.number().optional(), // Lower runs first; left unchanged when omitted
+  tags: z.array(TagReferenceSchema).default([]),
+})
+
+// Import List Schema (not Prowlarr). Options are named the same for every Servarr type and
+// mapped to each API, e.g. monitor is shouldMonitor in Sonarr and monitor in Radarr.
+export const ImportListSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  implementation: z.string(),
+  implementationName: z.string(),
+  configContract: z.string(),
+  fields: z.array(
+    z.object({
+      name: z.string(),
+      value: z.union([z.string(), z.number(), z.boolean(), z.array(z.number())]),
+    }),
+  ),
+  tags: z.array(TagReferenceSchema).default([]),
+  enableAutomaticAdd: z.boolean().default(true),
+  searchOnAdd: z.boolean().default(false),
+  rootFolderPath: z.string(),
+  qualityProfile: z.union([z.number(), z.string()]), // Quality profile ID or name (resolved at runtime)
+  // Sonarr: all, future, missing, existing, pilot, firstSeason, ... / Radarr: movieOnly,
+  // movieAndCollection, none / Lidarr: entireArtist, specificAlbum, none
+  monitor: z.string().optional(),
+  // Sonarr
+  seriesType: z.enum(['standard', 'daily', 'anime']).optional(),
+  seasonFolder: z.boolean().optional(),
+  // Radarr
+  minimumAvailability: z.enum(['announced', 'inCinemas', 'released']).optional(),
+  // Lidarr / Readarr
+  metadataProfileId: z.number().optional(),
+})
+
+export const ImportListExclusionSchema = z.object({
+  id: z.number().optional(),
+  // TVDB ID (Sonarr), TMDB ID (Radarr) or MusicBrainz/Goodreads ID (Lidarr/Readarr)
+  externalId: z.union([z.number(), z.string()]),
+  title: z.string(),
+  year: z.number().optional(), // Radarr only
+})
+
+// Maps a path reported by a download client on another host to the path Servarr sees locally
+export const RemotePathMappingSchema = z.object({
+  id: z.number().optional(),
+  host: z.string(), // Host as configured in the download client
+  remotePath: z.string(),
+  localPath: z.string(),
 })
 
 // Naming Configuration Schema
@@ -292,6 +359,36 @@ export const MediaManagementConfigSchema = z.object({
   rescanAfterRefresh: z.string().default('always'), // 'always' | 'afterManual' | 'never'
 })
 
+// General (host) settings. Only the settings listed are managed; the rest keep their current value.
+export const HostConfigSchema = z.object({
+  urlBase: z.string().optional(), // e.g. '/sonarr' when served behind a reverse proxy
+  instanceName: z.string().optional(),
+  authenticationRequired: z.enum(['enabled', 'disabledForLocalAddresses']).optional(),
+  // SSL (requires a restart)
+  enableSsl: z.boolean().optional(),
+  sslPort: z.number().optional(),
+  sslCertPath: z.string().optional(),
+  sslCertPassword: z.string().optional(),
+  // Proxy
+  proxyEnabled: z.boolean().optional(),
+  proxyType: z.enum(['http', 'socks4', 'socks5']).optional(),
+  proxyHostname: z.string().optional(),
+  proxyPort: z.number().optional(),
+  proxyUsername: z.string().optional(),
+  proxyPassword: z.string().optional(),
+  proxyBypassFilter: z.string().optional(), // Comma-separated hosts
+  proxyBypassLocalAddresses: z.boolean().optional(),
+  // Logging
+  logLevel: z.enum(['info', 'debug', 'trace']).optional(),
+  // Backups
+  backupFolder: z.string().optional(),
+  backupInterval: z.number().min(1).max(7).optional(), // Days
+  backupRetention: z.number().min(1).max(90).optional(), // Days
+  analyticsEnabled: z.boolean().optional(),
+})
+
+export const hostConfigKeys = Object.keys(HostConfigSchema.shape) as (keyof HostConfig)[]
+
 // Quality Definition Schema
 export const QualityDefinitionSchema = z.object({
   quality: z.string(), // Quality name like "Bluray-1080p"
@@ -302,12 +399,13 @@ export const QualityDefinitionSchema = z.object({
 })
 
 export const IndexerSchema = z.object({
+  id: z.number().optional(),
   name: z.string(),
   implementation: z.string(),
   implementationName: z.string(),
   configContract: z.string(),
   infoLink: z.string().nullable().optional(),
-  tags: z.array(z.number()).default([]),
+  tags: z.array(TagReferenceSchema).default([]),
   fields: z.array(
     z.object({
       name: z.string(),
@@ -334,6 +432,66 @@ export const DownloadClientSchema = z.object({
   priority: z.number().default(1),
 })
 
+// Servarr "Connect" notification. Which event toggles apply depends on the Servarr type;
+// toggles that are left out keep their current value.
+export const NotificationSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  implementation: z.string(),
+  implementationName: z.string(),
+  configContract: z.string(),
+  fields: z.array(
+    z.object({
+      name: z.string(),
+      value: z.union([z.string(), z.number(), z.boolean(), z.array(z.number())]),
+    }),
+  ),
+  tags: z.array(TagReferenceSchema).default([]),
+  // Shared events
+  onGrab: z.boolean().optional(),
+  onDownload: z.boolean().optional(),
+  onUpgrade: z.boolean().optional(),
+  onImportComplete: z.boolean().optional(),
+  onRename: z.boolean().optional(),
+  onDownloadFailure: z.boolean().optional(),
+  onImportFailure: z.boolean().optional(),
+  onHealthIssue: z.boolean().optional(),
+  includeHealthWarnings: z.boolean().optional(),
+  onHealthRestored: z.boolean().optional(),
+  onApplicationUpdate: z.boolean().optional(),
+  onManualInteractionRequired: z.boolean().optional(),
+  // Sonarr
+  onSeriesAdd: z.boolean().optional(),
+  onSeriesDelete: z.boolean().optional(),
+  onEpisodeFileDelete: z.boolean().optional(),
+  onEpisodeFileDeleteForUpgrade: z.boolean().optional(),
+  // Radarr
+  onMovieAdded: z.boolean().optional(),
+  onMovieDelete: z.boolean().optional(),
+  onMovieFileDelete: z.boolean().optional(),
+  onMovieFileDeleteForUpgrade: z.boolean().optional(),
+  // Lidarr
+  onReleaseImport: z.boolean().optional(),
+  onArtistAdd: z.boolean().optional(),
+  onArtistDelete: z.boolean().optional(),
+  onAlbumDelete: z.boolean().optional(),
+  onTrackRetag: z.boolean().optional(),
+  // Readarr
+  onAuthorAdded: z.boolean().optional(),
+  onAuthorDelete: z.boolean().optional(),
+  onBookDelete: z.boolean().optional(),
+  onBookFileDelete: z.boolean().optional(),
+  onBookFileDeleteForUpgrade: z.boolean().optional(),
+  onBookRetag: z.boolean().optional(),
+  // Prowlarr
+  includeManualGrabs: z.boolean().optional(),
+})
+
+// Names of the event toggles on a notification, e.g. onGrab or includeHealthWarnings
+export const notificationEventKeys = Object.keys(NotificationSchema.shape).filter((key) =>
+  /^(on|include)[A-Z]/.test(key),
+) as NotificationEvent[]
+
 export const QBittorrentConfigSchema = z
   .object({
     webui: z
@@ -371,22 +529,56 @@ export const ApplicationSchema = z.object({
   ),
   enable: z.boolean().default(true),
   syncLevel: z.string().default('addOnly'),
-  tags: z.array(z.number()).default([]),
+  tags: z.array(TagReferenceSchema).default([]),
+})
+
+// What happens to resources that exist in the instance but not in the config: `managed` removes
+// only resources PrepArr created, `all` removes every one of them and `none` keeps them all
+export const PrunePolicySchema = z.enum(['managed', 'all', 'none'])
+
+// Prune policy per resource type, keyed like the app config; unlisted types use `default`
+export const PruneConfigSchema = z.object({
+  default: PrunePolicySchema.default('managed'),
+  tags: PrunePolicySchema.optional(),
+  rootFolders: PrunePolicySchema.optional(),
+  qualityProfiles: PrunePolicySchema.optional(),
+  indexers: PrunePolicySchema.optional(),
+  downloadClients: PrunePolicySchema.optional(),
+  applications: PrunePolicySchema.optional(),
+  notifications: PrunePolicySchema.optional(),
+  customFormats: PrunePolicySchema.optional(),
+  releaseProfiles: PrunePolicySchema.optional(),
+  delayProfiles: PrunePolicySchema.optional(),
+  importLists: PrunePolicySchema.optional(),
+  importListExclusions: PrunePolicySchema.optional(),
+  remotePathMappings: PrunePolicySchema.optional(),
 })
 
 export const AppConfigSchema = z.object({
   apiKey: z.string().optional(),
   prowlarrSync: z.boolean().default(false),
+  // Tag labels to create; unused tags not listed here are pruned according to `prune`
+  tags: z.array(z.string().min(1)).default([]),
   rootFolders: z.array(RootFolderSchema).default([]),
   qualityProfiles: z.array(QualityProfileSchema).default([]),
   indexers: z.array(IndexerSchema).optional(),
   downloadClients: z.array(DownloadClientSchema).default([]),
   applications: z.array(ApplicationSchema).default([]),
+  notifications: z.array(NotificationSchema).default([]),
   qbittorrent: QBittorrentConfigSchema,
   // Custom Formats (Radarr/Sonarr v4+)
   customFormats: z.array(CustomFormatSchema).default([]),
   // Release Profiles (Sonarr only)
   releaseProfiles: z.array(ReleaseProfileSchema).default([]),
+  // Delay Profiles (not Prowlarr)
+  delayProfiles: z.array(DelayProfileSchema).default([]),
+  // Import Lists (not Prowlarr)
+  importLists: z.array(ImportListSchema).default([]),
+  importListExclusions: z.array(ImportListExclusionSchema).default([]),
+  // Remote Path Mappings (not Prowlarr)
+  remotePathMappings: z.array(RemotePathMappingSchema).default([]),
+  // General settings (URL base, auth, proxy, logging, backups)
+  host: HostConfigSchema.optional(),
   // Naming Configuration
   naming: NamingConfigSchema.optional(),
   // Media Management
@@ -394,8 +586,85 @@ export const AppConfigSchema = z.object({
   // Quality Definitions (size limits)
   qualityDefinitions: z.array(QualityDefinitionSchema).default([]),
   bazarr: BazarrConfigSchema,
+  // Which unlisted resources may be deleted
+  prune: PruneConfigSchema.optional(),
+})
+
+// Where the result of every reconciliation cycle is kept; `retention` is the number of cycles
+const ReconciliationHistorySchema = z.object({
+  store: z.enum(['postgres', 'file', 'none']).default('postgres'),
+  path: z.string().default('/config/preparr-history.jsonl'),
+  retention: z.coerce.number().int().min(1).default(500),
+})
+
+// Every applied create, update and delete, with redacted before and after values
+const AuditLogSchema = z.object({
+  store: z.enum(['postgres', 'file', 'stdout', 'none']).default('none'),
+  path: z.string().default('/config/preparr-audit.jsonl'),
 })
 
+// Only the replica holding the lock reconciles; the others stand by
+const LeaderElectionSchema = z.object({
+  enabled: z.boolean().default(false),
+  // `file` is for sidecars without database access; every replica must share the file
+  lock: z.enum(['postgres', 'file']).default('postgres'),
+  path: z.string().default('/config/preparr-leader.lock'),
+  // Seconds a file lease stays valid without renewal; it is renewed every third of that
+  leaseDuration: z.coerce.number().int().min(3).default(30),
+})
+
+// OTLP/HTTP trace export of reconciliation cycles, steps and outbound calls
+const TracingSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Collector base URL; spans are posted to `<endpoint>/v1/traces`
+  endpoint: z.string().url().default('http://localhost:4318'),
+  headers: z.record(z.string(), z.string()).default({}),
+  serviceName: z.string().default('preparr'),
+})
+
+// Changes that wait in the pending queue until they are approved over the health server
+const ApprovalConfigSchema = z.object({
+  // Hold every delete
+  deletes: z.boolean().default(false),
+  // Hold the whole cycle when it would make more changes than this
+  maxChanges: z.coerce.number().int().min(1).optional(),
+})
+
+export const ReconciliationEventSchema = z.enum(['changes', 'failure', 'recovery', 'abort'])
+
+// `observe` only detects drift from the configuration and never changes the instance
+export const ReconcileModeSchema = z.enum(['enforce', 'observe'])
+
+// What asked for a reconciliation cycle
+export const ReconciliationTriggerSchema = z.enum([
+  'startup',
+  'interval',
+  'config-change',
+  'manual',
+  'approval',
+  'leader-elected',
+])
+
+// Webhook PrepArr itself posts reconciliation outcomes to (not a Servarr Connect notification)
+export const NotificationWebhookSchema = z.object({
+  url: z.string().url(),
+  format: z.enum(['json', 'discord', 'slack', 'ntfy']).default('json'),
+  events: z.array(ReconciliationEventSchema).default(['changes', 'failure', 'recovery', 'abort']),
+})
+
+// Step names, as a list or a comma-separated string
+const StepNamesSchema = z
+  .union([
+    z.array(z.string()),
+    z.string().transform((value) =>
+      value
+        .split(',')
+        .map((name) => name.trim())
+        .filter((name) => name !== ''),
+    ),
+  ])
+  .default([])
+
 export const ConfigSchema = z.object({
   postgres: PostgresConfigSchema,
   servarr: ServarrConfigSchema,
@@ -403,42 +672,101 @@ export const ConfigSchema = z.object({
   // Unified application desired-state config
   app: AppConfigSchema.default({
     prowlarrSync: false,
+    tags: [],
     rootFolders: [],
     qualityProfiles: [],
     downloadClients: [],
     applications: [],
+    notifications: [],
     customFormats: [],
     releaseProfiles: [],
+    delayProfiles: [],
+    importLists: [],
+    importListExclusions: [],
+    remotePathMappings: [],
     qualityDefinitions: [],
   }),
   health: z
     .object({
       port: z.coerce.number().default(8080),
+      // Seconds between active checks of PostgreSQL, Servarr, qBittorrent, Bazarr and the config
+      checkInterval: z.coerce.number().int().min(1).default(30),
     })
-    .default({ port: 8080 }),
+    .default({ port: 8080, checkInterval: 30 }),
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   logFormat: z.enum(['json', 'pretty']).default('json'),
   configPath: z.string().default('/config/servarr.yaml'),
   configWatch: z.boolean().default(true),
   configReconcileInterval: z.coerce.number().default(60),
+  // Seconds to wait on shutdown for the in-flight reconciliation step to finish
+  shutdownTimeout: z.coerce.number().min(0).default(25),
+  reconcileMode: ReconcileModeSchema.default('enforce'),
+  approval: ApprovalConfigSchema.default({ deletes: false }),
+  notifications: z
+    .object({
+      webhooks: z.array(NotificationWebhookSchema).default([]),
+    })
+    .default({ webhooks: [] }),
+  // Maximum number of independent steps that run at the same time; 1 runs them one by one
+  stepConcurrency: z.coerce.number().int().min(1).default(4),
+  // Run only these steps and the steps they depend on
+  onlySteps: StepNamesSchema,
+  // Never run these steps, even when a selected step depends on them
+  skipSteps: StepNamesSchema,
+  history: ReconciliationHistorySchema.default({
+    store: 'postgres',
+    path: '/config/preparr-history.jsonl',
+    retention: 500,
+  }),
+  audit: AuditLogSchema.default({ store: 'none', path: '/config/preparr-audit.jsonl' }),
+  leaderElection: LeaderElectionSchema.default({
+    enabled: false,
+    lock: 'postgres',
+    path: '/config/preparr-leader.lock',
+    leaseDuration: 30,
+  }),
+  tracing: TracingSchema.default({
+    enabled: false,
+    endpoint: 'http://localhost:4318',
+    headers: {},
+    serviceName: 'preparr',
+  }),
 })
 
 export type PostgresConfig = z.infer<typeof PostgresConfigSchema>
 export type ServarrConfig = z.infer<typeof ServarrConfigSchema>
 export type ServiceIntegration = z.infer<typeof ServiceIntegrationSchema>
 export type RootFolder = z.infer<typeof RootFolderSchema>
+export type TagReference = z.infer<typeof TagReferenceSchema>
 export type CustomFormatSpecification = z.infer<typeof CustomFormatSpecificationSchema>
 export type CustomFormat = z.infer<typeof CustomFormatSchema>
 export type FormatItem = z.infer<typeof FormatItemSchema>
 export type QualityProfile = z.infer<typeof QualityProfileSchema>
 export type ReleaseProfileTerm = z.infer<typeof ReleaseProfileTermSchema>
 export type ReleaseProfile = z.infer<typeof ReleaseProfileSchema>
+export type DelayProfile = z.infer<typeof DelayProfileSchema>
+export type ImportList = z.infer<typeof ImportListSchema>
+export type ImportListExclusion = z.infer<typeof ImportListExclusionSchema>
+export type RemotePathMapping = z.infer<typeof RemotePathMappingSchema>
 export type NamingConfig = z.infer<typeof NamingConfigSchema>
 export type MediaManagementConfig = z.infer<typeof MediaManagementConfigSchema>
+export type HostConfig = z.infer<typeof HostConfigSchema>
+export type ReconciliationEvent = z.infer<typeof ReconciliationEventSchema>
+export type ReconciliationTrigger = z.infer<typeof ReconciliationTriggerSchema>
+export type NotificationWebhook = z.infer<typeof NotificationWebhookSchema>
+export type ApprovalConfig = z.infer<typeof ApprovalConfigSchema>
+export type ReconciliationHistoryConfig = z.infer<typeof ReconciliationHistorySchema>
+export type AuditLogConfig = z.infer<typeof AuditLogSchema>
+export type LeaderElectionConfig = z.infer<typeof LeaderElectionSchema>
+export type TracingConfig = z.infer<typeof TracingSchema>
+export type PrunePolicy = z.infer<typeof PrunePolicySchema>
+export type PruneConfig = z.infer<typeof PruneConfigSchema>
 export type QualityDefinition = z.infer<typeof QualityDefinitionSchema>
 export type Indexer = z.infer<typeof IndexerSchema>
 export type DownloadClient = z.infer<typeof DownloadClientSchema>
 export type Application = z.infer<typeof ApplicationSchema>
+export type Notification = z.infer<typeof NotificationSchema>
+export type NotificationEvent = Extract<keyof Notification, `on${string}` | `include${string}`>
 export type QBittorrentConfig = z.infer<typeof QBittorrentConfigSchema>
 export type BazarrLanguage = z.infer<typeof BazarrLanguageSchema>
 export type BazarrProvider = z.infer<typeof BazarrProviderSchema>
@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test'
+import type { Config } from '@/config/schema'
+import { ApprovalQueue } from './approval'
+import type { StepChange } from './plan'
+import type { ChangeRecord } from './step'
+
+const configWith = (approval: Config['approval']) => ({ approval }) as Config
+
+const create: ChangeRecord = { type: 'create', resource: 'download-client', identifier: 'SABnzbd' }
+const remove: ChangeRecord = {
+  type: 'delete',
+  resource: 'download-client',
+  identifier: 'qBittorrent',
+}
+
+describe('ApprovalQueue deletes', () => {
+  const config = configWith({ deletes: true })
+
+  test('holds deletes until they are approved', () => {
+    const queue = new ApprovalQueue()
+
+    expect(queue.holdDeletes('download-clients', [create, remove], config)).toEqual({
+      allowed: [create],
+      held: [remove],
+    })
+    // Planning the same delete again does not queue it twice
+    queue.holdDeletes('download-clients', [remove], config)
+    const [item] = queue.list()
+    expect(queue.list()).toHaveLength(1)
+    expect(item).toMatchObject({ kind: 'delete', step: 'download-clients', change: remove })
+
+    queue.approve(item?.id ?? 0)
+    expect(queue.list()).toEqual([])
+    expect(queue.holdDeletes('download-clients', [remove], config).allowed).toEqual([remove])
+    // An approval applies once
+    expect(queue.holdDeletes('download-clients', [remove], config).held).toEqual([remove])
+  })
+
+  test('keeps rejected deletes out of the queue while they are planned', () => {
+    const queue = new ApprovalQueue()
+    queue.holdDeletes('download-clients', [remove], config)
+    queue.reject(queue.list()[0]?.id ?? 0)
+
+    expect(queue.holdDeletes('download-clients', [remove], config).held).toEqual([remove])
+    expect(queue.list()).toEqual([])
+
+    // Once the delete is no longer planned the rejection is forgotten
+    queue.holdDeletes('download-clients', [], config)
+    queue.holdDeletes('download-clients', [remove], config)
+    expect(queue.list()).toHaveLength(1)
+  })
+
+  test('drops held deletes that are no longer planned', () => {
+    const queue = new ApprovalQueue()
+    queue.holdDeletes('download-clients', [remove], config)
+
+    queue.holdDeletes('download-clients', [create], config)
+
+    expect(queue.list()).toEqual([])
+  })
+
+  test('lets deletes through when the gate is off', () => {
+    const queue = new ApprovalQueue()
+
+    expect(queue.holdDeletes('download-clients', [remove], configWith({ deletes: false }))).toEqual(
+      { allowed: [remove], held: [] },
+    )
+  })
+})
+
+describe('ApprovalQueue blast radius', () => {
+  const config = configWith({ deletes: true, maxChanges: 1 })
+  const changes: StepChange[] = [
+    { step: 'download-clients', ...create },
+    { step: 'download-clients', ...remove },
+  ]
+
+  test('holds oversized cycles and runs them once approved, deletes included', () => {
+    const queue = new ApprovalQueue()
+
+    expect(queue.admitCycle('hash-1', changes, config)).toBe(false)
+    expect(queue.admitCycle('hash-1', changes, config)).toBe(false)
+    const [item] = queue.list()
+    expect(queue.list()).toHaveLength(1)
+    expect(item).toMatchObject({ kind: 'cycle', configHash: 'hash-1' })
+
+    queue.approve(item?.id ?? 0)
+    expect(queue.admitCycle('hash-1', changes, config)).toBe(true)
+    expect(queue.holdDeletes('download-clients', [remove], config).allowed).toEqual([remove])
+  })
+
+  test('replaces a held cycle when the configuration changes', () => {
+    const queue = new ApprovalQueue()
+    queue.admitCycle('hash-1', changes, config)
+    queue.reject(queue.list()[0]?.id ?? 0)
+
+    expect(queue.admitCycle('hash-1', changes, config)).toBe(false)
+    expect(queue.list()).toEqual([])
+
+    expect(queue.admitCycle('hash-2', changes, config)).toBe(false)
+    expect(queue.list()).toEqual([expect.objectContaining({ configHash: 'hash-2' })])
+
+    expect(queue.admitCycle('hash-3', changes.slice(0, 1), config)).toBe(true)
+    expect(queue.list()).toEqual([])
+  })
+})
@@ -0,0 +1,198 @@
+import type { Config } from '@/config/schema'
+import type { StepChange } from '@/core/plan'
+import type { ChangeRecord } from '@/core/step'
+import { logger } from '@/utils/logger'
+
+export type PendingChange =
+  | {
+      id: number
+      kind: 'delete'
+      createdAt: Date
+      step: string
+      change: ChangeRecord
+    }
+  | {
+      id: number
+      kind: 'cycle'
+      createdAt: Date
+      configHash: string
+      changes: StepChange[]
+    }
+
+/**
+ * Holds changes that need approval before they are applied: deletes, when `approval.deletes`
+ * is set, and whole cycles that would make more than `approval.maxChanges` changes.
+ *
+ * Held changes are re-planned every cycle. An item disappears from the queue once it is no
+ * longer planned, and an approval or rejection applies to the change as it was planned.
+ */
+export class ApprovalQueue {
+  private pending = new Map<number, PendingChange>()
+  private nextId = 1
+  private approvedDeletes = new Set<string>()
+  private rejectedDeletes = new Set<string>()
+  private approvedCycle: string | undefined = undefined
+  private rejectedCycle: string | undefined = undefined
+
+  list(): PendingChange[] {
+    return [...this.pending.values()]
+  }
+
+  /**
+   * Split the planned changes of a step into the changes that may be applied and the deletes
+   * that are held for approval.
+   */
+  holdDeletes(
+    step: string,
+    changes: ChangeRecord[],
+    config: Config,
+  ): { allowed: ChangeRecord[]; held: ChangeRecord[] } {
+    const planned = new Set<string>()
+    const allowed: ChangeRecord[] = []
+    const held: ChangeRecord[] = []
+
+    for (const change of changes) {
+      if (change.type !== 'delete' || !config.approval.deletes) {
+        allowed.push(change)
+        continue
+      }
+
+      const key = deleteKey(step, change)
+      planned.add(key)
+
+      if (this.approvedDeletes.delete(key)) {
+        allowed.push(change)
+        continue
+      }
+
+      held.push(change)
+      if (!this.rejectedDeletes.has(key) && !this.findDelete(key)) {
+        this.add({ id: this.nextId++, kind: 'delete', createdAt: new Date(), step, change })
+      }
+    }
+
+    this.forgetDeletes(step, planned)
+    return { allowed, held }
+  }
+
+  /**
+   * Whether a cycle with the given planned changes may run. A cycle over the limit is queued
+   * once per configuration and runs after it was approved.
+   */
+  admitCycle(configHash: string, changes: StepChange[], config: Config): boolean {
+    const { maxChanges } = config.approval
+    const oversized = maxChanges !== undefined && changes.length > maxChanges
+
+    if (!oversized) {
+      this.forgetCycles(undefined)
+      return true
+    }
+
+    if (this.approvedCycle === configHash) {
+      this.approvedCycle = undefined
+      return true
+    }
+
+    this.forgetCycles(configHash)
+    if (this.rejectedCycle === configHash) {
+      return false
+    }
+
+    const queued = this.list().find((item) => item.kind === 'cycle')
+    if (queued?.kind === 'cycle') {
+      queued.changes = changes
+    } else {
+      this.add({ id: this.nextId++, kind: 'cycle', createdAt: new Date(), configHash, changes })
+    }
+    return false
+  }
+
+  approve(id: number): PendingChange | undefined {
+    const item = this.take(id)
+
+    if (item?.kind === 'delete') {
+      this.approvedDeletes.add(deleteKey(item.step, item.change))
+    } else if (item?.kind === 'cycle') {
+      this.approvedCycle = item.configHash
+      // Approving a cycle also approves the deletes it plans
+      for (const change of item.changes) {
+        if (change.type === 'delete') {
+          this.approvedDeletes.add(deleteKey(change.step, change))
+        }
+      }
+    }
+
+    return item
+  }
+
+  reject(id: number): PendingChange | undefined {
+    const item = this.take(id)
+
+    if (item?.kind === 'delete') {
+      this.rejectedDeletes.add(deleteKey(item.step, item.change))
+    } else if (item?.kind === 'cycle') {
+      this.rejectedCycle = item.configHash
+    }
+
+    return item
+  }
+
+  private add(item: PendingChange): void {
+    this.pending.set(item.id, item)
+    logger.warn(
+      'Change held for approval',
+      item.kind === 'delete'
+        ? {
+            id: item.id,
+            step: item.step,
+            resource: item.change.resource,
+            identifier: item.change.identifier,
+          }
+        : { id: item.id, configHash: item.configHash, changes: item.changes.length },
+    )
+  }
+
+  private take(id: number): PendingChange | undefined {
+    const item = this.pending.get(id)
+    this.pending.delete(id)
+    return item
+  }
+
+  private findDelete(key: string): PendingChange | undefined {
+    return this.list().find(
+      (item) => item.kind === 'delete' && deleteKey(item.step, item.change) === key,
+    )
+  }
+
+  // Drop held deletes of a step that its latest plan no longer contains
+  private forgetDeletes(step: string, planned: Set<string>): void {
+    for (const item of this.list()) {
+      if (item.kind === 'delete' && item.step === step) {
+        if (!planned.has(deleteKey(item.step, item.change))) {
+          this.pending.delete(item.id)
+        }
+      }
+    }
+
+    for (const keys of [this.approvedDeletes, this.rejectedDeletes]) {
+      for (const key of keys) {
+        if (key.startsWith(`${step}\u0000`) && !planned.has(key)) {
+          keys.delete(key)
+        }
+      }
+    }
+  }
+
+  // Drop queued cycles for any configuration other than `configHash`
+  private forgetCycles(configHash: string | undefined): void {
+    for (const item of this.list()) {
+      if (item.kind === 'cycle' && item.configHash !== configHash) {
+        this.pending.delete(item.id)
+      }
+    }
+  }
+}
+
+function deleteKey(step: string, change: ChangeRecord): string {
+  return `${step}\u0000${change.resource}\u0000${change.identifier}`
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MASKED_FIELD_VALUE } from '@/servarr/client'
+import { type AuditEntry, buildAuditEntries, FileAuditLog, REDACTED, redact } from './audit'
+import type { StepContext } from './step'
+
+const context = {
+  config: { configPath: '/config/preparr.yaml' },
+  executionMode: 'sidecar',
+  cycle: { id: 'cycle-1', configHash: 'abc123', triggers: ['interval'] },
+} as unknown as StepContext
+
+const indexer = (apiKey: string) => ({
+  name: 'NZBgeek',
+  enable: true,
+  fields: [
+    { name: 'baseUrl', value: 'https://api.nzbgeek.info' },
+    { name: 'apiKey', value: apiKey },
+  ],
+})
+
+describe('redact', () => {
+  test('masks secret keys and Servarr secret fields', () => {
+    expect(redact({ username: 'admin', password: 'hunter2', nested: { apiKey: 'abc' } })).toEqual({
+      username: 'admin',
+      password: REDACTED,
+      nested: { apiKey: REDACTED },
+    })
+    expect(redact(indexer('abc'))).toEqual({
+      name: 'NZBgeek',
+      enable: true,
+      fields: [
+        { name: 'baseUrl', value: 'https://api.nzbgeek.info' },
+        { name: 'apiKey', value: REDACTED },
+      ],
+    })
+  })
+})
+
+describe('buildAuditEntries', () => {
+  test('records redacted before and after values', () => {
+    const [entry] = buildAuditEntries(
+      'indexers',
+      [{ type: 'update', resource: 'indexer', identifier: 'NZBgeek' }],
+      context,
+      () => ({ before: indexer(MASKED_FIELD_VALUE), after: indexer('new-key') }),
+    )
+
+    expect(entry).toMatchObject({
+      cycleId: 'cycle-1',
+      step: 'indexers',
+      type: 'update',
+      identifier: 'NZBgeek',
+      before: redact(indexer(MASKED_FIELD_VALUE)),
+      after: redact(indexer('new-key')),
+      // Servarr masks the live key, so whether it changed is unknown
+      changedSecrets: [],
+      source: {
+        configPath: '/config/preparr.yaml',
+        configHash: 'abc123',
+        triggers: ['interval'],
+        executionMode: 'sidecar',
+      },
+    })
+    expect(JSON.stringify(entry)).not.toContain('new-key')
+  })
+
+  test('lists secrets whose unmasked values changed', () => {
+    const client = (password: string) => ({ host: 'qbittorrent', username: 'admin', password })
+    const [entry] = buildAuditEntries(
+      'download-clients',
+      [{ type: 'update', resource: 'download-client', identifier: 'qBittorrent' }],
+      context,
+      () => ({ before: client('old-password'), after: client('new-password') }),
+    )
+
+    expect(entry?.changedSecrets).toEqual(['password'])
+  })
+
+  test('leaves out unchanged resources and the missing side of creates and deletes', () => {
+    const entries = buildAuditEntries(
+      'root-folders',
+      [
+        { type: 'create', resource: 'root-folder', identifier: '/tv' },
+        { type: 'delete', resource: 'root-folder', identifier: '/anime' },
+        { type: 'no-change', resource: 'root-folder', identifier: '/movies' },
+      ],
+      context,
+      (change) => ({ before: { path: change.identifier }, after: { path: change.identifier } }),
+    )
+
+    expect(entries.map(({ type, before, after }) => ({ type, before, after }))).toEqual([
+      { type: 'create', before: null, after: { path: '/tv' } },
+      { type: 'delete', before: { path: '/anime' }, after: null },
+    ])
+  })
+})
+
+describe('FileAuditLog', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'preparr-audit-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('appends entries as JSON Lines', async () => {
+    const path = join(dir, 'audit', 'preparr-audit.jsonl')
+    const log = new FileAuditLog(path)
+    const entries = buildAuditEntries(
+      'tags',
+      [
+        { type: 'create', resource: 'tag', identifier: 'anime' },
+        { type: 'create', resource: 'tag', identifier: '4k' },
+      ],
+      context,
+      (change) => ({ before: undefined, after: change.identifier }),
+    )
+
+    await Promise.all([log.write(entries.slice(0, 1)), log.write(entries.slice(1))])
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n')
+    expect(lines.map((line) => (JSON.parse(line) as AuditEntry).identifier)).toEqual([
+      'anime',
+      '4k',
+    ])
+  })
+})
@@ -0,0 +1,218 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { Config, ReconciliationTrigger } from '@/config/schema'
+import { SECRET_FIELD_PATTERN } from '@/core/export'
+import type { ChangeRecord, StepContext } from '@/core/step'
+import type { PostgresClient } from '@/postgres/client'
+import { MASKED_FIELD_VALUE } from '@/servarr/client'
+
+export const REDACTED = '[REDACTED]'
+
+export interface AuditSource {
+  // Configuration file the desired state was read from
+  configPath: string
+  configHash: string | null
+  // What started the cycle; empty for init container runs
+  triggers: ReconciliationTrigger[]
+  executionMode: StepContext['executionMode']
+}
+
+export interface AuditEntry {
+  timestamp: string
+  // Also recorded in the reconciliation history; null for init container runs
+  cycleId: string | null
+  step: string
+  type: Exclude<ChangeRecord['type'], 'no-change'>
+  resource: string
+  identifier: string
+  // Redacted resource before and after the change; null for creates and deletes respectively
+  before: unknown
+  after: unknown
+  // Paths of redacted values that differ between before and after; secrets Servarr returned
+  // masked are unknown and left out
+  changedSecrets: string[]
+  source: AuditSource
+}
+
+export interface AuditLog {
+  write(entries: AuditEntry[]): Promise<void>
+}
+
+/**
+ * Build the audit entries of the changes a step applied. `payloads` returns the resource before
+ * and after each change, which are redacted here.
+ */
+export function buildAuditEntries(
+  step: string,
+  changes: ChangeRecord[],
+  context: StepContext,
+  payloads: (change: ChangeRecord) => { before: unknown; after: unknown },
+): AuditEntry[] {
+  const timestamp = new Date().toISOString()
+  const source: AuditSource = {
+    configPath: context.config.configPath,
+    configHash: context.cycle?.configHash ?? null,
+    triggers: context.cycle?.triggers ?? [],
+    executionMode: context.executionMode,
+  }
+
+  return changes.flatMap((change) => {
+    if (change.type === 'no-change') return []
+
+    const { before, after } = payloads(change)
+    return {
+      timestamp,
+      cycleId: context.cycle?.id ?? null,
+      step,
+      type: change.type,
+      resource: change.resource,
+      identifier: change.identifier,
+      before: change.type === 'create' ? null : redact(before ?? null),
+      after: change.type === 'delete' ? null : redact(after ?? null),
+      changedSecrets: changedSecrets(before, after),
+      source,
+    }
+  })
+}
+
+/**
+ * Replace credentials with a marker. Object keys and Servarr `{ name, value }` fields count as
+ * credentials when their name looks like one.
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact)
+  }
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+
+  const record = value as Record<string, unknown>
+  if (isSecretField(record)) {
+    return { ...record, value: REDACTED }
+  }
+
+  return Object.fromEntries(
+    Object.entries(record).map(([key, entry]) => [
+      key,
+      SECRET_FIELD_PATTERN.test(key) && entry !== null && typeof entry !== 'object'
+        ? REDACTED
+        : redact(entry),
+    ]),
+  )
+}
+
+function isSecretField(record: Record<string, unknown>): boolean {
+  return (
+    typeof record.name === 'string' &&
+    'value' in record &&
+    SECRET_FIELD_PATTERN.test(record.name) &&
+    (record.value === null || typeof record.value !== 'object')
+  )
+}
+
+// Compare the raw values behind every redacted path of the two payloads. The live resource
+// holds masked secrets, which say nothing about whether the configured value differs.
+function changedSecrets(before: unknown, after: unknown): string[] {
+  const beforeSecrets = collectSecrets(before)
+  const afterSecrets = collectSecrets(after)
+  const paths = new Set([...beforeSecrets.keys(), ...afterSecrets.keys()])
+
+  return [...paths]
+    .filter((path) => beforeSecrets.get(path) !== MASKED_FIELD_VALUE)
+    .filter((path) => beforeSecrets.get(path) !== afterSecrets.get(path))
+    .sort()
+}
+
+function collectSecrets(value: unknown, path = '', secrets = new Map<string, unknown>()) {
+  if (Array.isArray(value)) {
+    for (const [index, item] of value.entries()) {
+      const record = item as Record<string, unknown> | null
+      // Servarr fields are addressed by name, since their order is not stable
+      const key =
+        record && typeof record === 'object' && isSecretField(record) ? record.name : index
+      collectSecrets(item, `${path}[${String(key)}]`, secrets)
+    }
+  } else if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    if (isSecretField(record)) {
+      secrets.set(path, record.value)
+      return secrets
+    }
+    for (const [key, entry] of Object.entries(record)) {
+      const entryPath = path ? `${path}.${key}` : key
+      if (SECRET_FIELD_PATTERN.test(key) && entry !== null && typeof entry !== 'object') {
+        secrets.set(entryPath, entry)
+      } else {
+        collectSecrets(entry, entryPath, secrets)
+      }
+    }
+  }
+  return secrets
+}
+
+/**
+ * Appends entries as JSON Lines to a file.
+ */
+export class FileAuditLog implements AuditLog {
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(private path: string) {}
+
+  write(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return Promise.resolve()
+
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true })
+      await appendFile(this.path, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''))
+    })
+    this.writes = write.catch(() => undefined)
+    return write
+  }
+}
+
+/**
+ * Writes entries as JSON lines to stdout, next to the logs, for a log collector to pick up.
+ */
+export class StdoutAuditLog implements AuditLog {
+  write(entries: AuditEntry[]): Promise<void> {
+    for (const entry of entries) {
+      process.stdout.write(`${JSON.stringify({ audit: true, ...entry })}\n`)
+    }
+    return Promise.resolve()
+  }
+}
+
+/**
+ * Keeps entries in the PrepArr database on the Postgres server, keyed by instance.
+ */
+export class PostgresAuditLog implements AuditLog {
+  constructor(
+    private postgres: PostgresClient,
+    private instance: string,
+  ) {}
+
+  async write(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return
+    await this.postgres.addAuditEntries(this.instance, entries)
+  }
+}
+
+export function createAuditLog(
+  config: Config,
+  postgres: PostgresClient,
+  instance: string,
+): AuditLog | undefined {
+  const { store, path } = config.audit
+
+  switch (store) {
+    case 'postgres':
+      return new PostgresAuditLog(postgres, instance)
+    case 'file':
+      return new FileAuditLog(path)
+    case 'stdout':
+      return new StdoutAuditLog()
+    case 'none':
+      return undefined
+  }
+}
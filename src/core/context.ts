@@ -3,6 +3,10 @@ import type { Config } from '@/config/schema'
 import type { PostgresClient } from '@/postgres/client'
 import type { QBittorrentManager } from '@/qbittorrent/client'
 import type { ServarrManager } from '@/servarr/client'
+import type { ApprovalQueue } from './approval'
+import type { AuditLog } from './audit'
+import type { OwnershipStore } from './ownership'
+import type { AppliedSecrets } from './secrets'
 import type { StepContext } from './step'
 
 export class ContextBuilder {
@@ -43,6 +47,26 @@ export class ContextBuilder {
     return this
   }
 
+  setOwnershipStore(store?: OwnershipStore): this {
+    this.context.ownership = store
+    return this
+  }
+
+  setAppliedSecrets(secrets?: AppliedSecrets): this {
+    this.context.secrets = secrets
+    return this
+  }
+
+  setApprovalQueue(queue?: ApprovalQueue): this {
+    this.context.approvals = queue
+    return this
+  }
+
+  setAuditLog(audit?: AuditLog): this {
+    this.context.audit = audit
+    return this
+  }
+
   setExecutionMode(mode: 'init' | 'sidecar'): this {
     this.context.executionMode = mode
     return this
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test'
+import { ConfigSchema } from '@/config/schema'
+import { DependencyMonitor } from './dependencies'
+import type { StepContext } from './step'
+
+const config = ConfigSchema.parse({
+  postgres: { password: 'postgres' },
+  servarr: { type: 'sonarr', url: 'http://sonarr:8989', adminPassword: 'admin' },
+})
+
+const contextFor = (servarrType: string, clients: Partial<StepContext>) =>
+  ({
+    config,
+    servarrType,
+    postgresClient: { testConnection: () => Promise.resolve(true) },
+    executionMode: 'sidecar',
+    ...clients,
+  }) as unknown as StepContext
+
+describe('DependencyMonitor', () => {
+  test('gates readiness on the critical dependencies of a Servarr sidecar', async () => {
+    const context = contextFor('sonarr', {
+      servarrClient: { testConnection: () => Promise.resolve(false) },
+      qbittorrentClient: { login: () => Promise.reject(new Error('connection refused')) },
+    } as unknown as Partial<StepContext>)
+    const monitor = new DependencyMonitor(
+      () => context,
+      () => Promise.resolve(config),
+      30,
+    )
+
+    // Nothing is ready before the first round of checks
+    expect(monitor.notReady()).toEqual(['config', 'postgres', 'servarr'])
+
+    await monitor.checkAll()
+
+    expect(monitor.getChecks()).toMatchObject({
+      config: { status: 'pass', critical: true },
+      postgres: { status: 'pass', critical: true },
+      servarr: { status: 'fail', critical: true, message: 'Servarr API is not reachable' },
+      qbittorrent: {
+        status: 'fail',
+        critical: false,
+        message: 'qBittorrent login failed: connection refused',
+      },
+    })
+    expect(monitor.getChecks().postgres?.latencyMs).toBeGreaterThanOrEqual(0)
+    expect(monitor.notReady()).toEqual(['servarr'])
+  })
+
+  test('checks only its own service and the config for a qBittorrent sidecar', async () => {
+    const context = contextFor('qbittorrent', {
+      qbittorrentClient: { login: () => Promise.resolve(true) },
+    } as unknown as Partial<StepContext>)
+    const monitor = new DependencyMonitor(
+      () => context,
+      () => Promise.reject(new Error('invalid YAML')),
+      30,
+    )
+
+    await monitor.checkAll()
+
+    expect(Object.keys(monitor.getChecks()).sort()).toEqual(['config', 'qbittorrent'])
+    expect(monitor.getChecks().config?.message).toBe('Configuration cannot be loaded: invalid YAML')
+    expect(monitor.notReady()).toEqual(['config'])
+  })
+})
@@ -0,0 +1,182 @@
+import type { Config } from '@/config/schema'
+import type { StepContext } from '@/core/step'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+export type DependencyName = 'postgres' | 'servarr' | 'qbittorrent' | 'bazarr' | 'config'
+
+export interface DependencyCheck {
+  status: 'pass' | 'fail'
+  // Readiness waits for the dependencies the deployment cannot work without
+  critical: boolean
+  latencyMs: number
+  message: string
+  lastChecked: Date
+}
+
+interface DependencyProbe {
+  critical: boolean
+  // Resolves to false, or throws, when the dependency is broken
+  probe: () => Promise<boolean>
+  failure: string
+}
+
+// A dependency that does not answer within this time counts as down
+const CHECK_TIMEOUT_MS = 10000
+
+/**
+ * Probes the services a sidecar depends on every `intervalSeconds` and keeps the latest
+ * results, so health requests never wait on a slow dependency. The context is fetched per
+ * round, so clients rebuilt by a configuration reload are the ones probed.
+ */
+export class DependencyMonitor {
+  private checks = new Map<DependencyName, DependencyCheck>()
+  private timer: NodeJS.Timeout | undefined = undefined
+  private checking = false
+
+  constructor(
+    private getContext: () => StepContext,
+    private loadConfiguration: () => Promise<Config>,
+    private intervalSeconds: number,
+  ) {}
+
+  start(): void {
+    // The first round runs in the background; until it finishes the sidecar is not ready
+    this.checkAll()
+    this.timer = setInterval(() => this.checkAll(), this.intervalSeconds * 1000)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  getChecks(): Partial<Record<DependencyName, DependencyCheck>> {
+    return Object.fromEntries(this.checks)
+  }
+
+  // Critical dependencies that are failing or not checked yet
+  notReady(): DependencyName[] {
+    const probes = dependencyProbes(this.getContext())
+    return (Object.keys(probes) as DependencyName[]).filter(
+      (name) => probes[name]?.critical && this.checks.get(name)?.status !== 'pass',
+    )
+  }
+
+  async checkAll(): Promise<void> {
+    // A round that outlasts the interval must not overlap the next one
+    if (this.checking) return
+    this.checking = true
+
+    try {
+      const probes = dependencyProbes(this.getContext(), this.loadConfiguration)
+      await Promise.all(
+        (Object.entries(probes) as [DependencyName, DependencyProbe][]).map(([name, probe]) =>
+          this.check(name, probe),
+        ),
+      )
+
+      // Drop dependencies a reload removed
+      for (const name of this.checks.keys()) {
+        if (!probes[name]) this.checks.delete(name)
+      }
+    } finally {
+      this.checking = false
+    }
+  }
+
+  private async check(name: DependencyName, { critical, probe, failure }: DependencyProbe) {
+    const startTime = performance.now()
+    let message = failure
+    let passed = false
+
+    try {
+      passed = await withTimeout(probe())
+    } catch (error) {
+      message = `${failure}: ${toError(error).message}`
+    }
+
+    const previous = this.checks.get(name)
+    const status = passed ? 'pass' : 'fail'
+    this.checks.set(name, {
+      status,
+      critical,
+      latencyMs: Math.round(performance.now() - startTime),
+      message: passed ? 'OK' : message,
+      lastChecked: new Date(),
+    })
+
+    if (previous && previous.status !== status) {
+      const log = passed ? logger.info : logger.warn
+      log(`Dependency check ${passed ? 'recovered' : 'failing'}: ${name}`, { critical, message })
+    }
+  }
+}
+
+/**
+ * The dependencies of the deployment the context belongs to. qBittorrent and Bazarr sidecars
+ * need only their own service; Servarr sidecars also need PostgreSQL, and treat the download
+ * client and Bazarr integrations as optional.
+ */
+function dependencyProbes(
+  context: StepContext,
+  loadConfiguration: () => Promise<Config> = () => Promise.resolve(context.config),
+): Partial<Record<DependencyName, DependencyProbe>> {
+  const type = context.servarrType
+  const servarrDeployment = type !== 'qbittorrent' && type !== 'bazarr'
+  const probes: Partial<Record<DependencyName, DependencyProbe>> = {
+    config: {
+      critical: true,
+      probe: async () => !!(await loadConfiguration()),
+      failure: 'Configuration cannot be loaded',
+    },
+  }
+
+  if (type !== 'qbittorrent') {
+    probes.postgres = {
+      critical: servarrDeployment,
+      probe: () => context.postgresClient.testConnection(),
+      failure: 'PostgreSQL is not reachable',
+    }
+  }
+
+  const { servarrClient, qbittorrentClient, bazarrClient } = context
+  if (servarrDeployment && servarrClient) {
+    probes.servarr = {
+      critical: true,
+      probe: () => servarrClient.testConnection(),
+      failure: 'Servarr API is not reachable',
+    }
+  }
+  if (qbittorrentClient) {
+    probes.qbittorrent = {
+      critical: type === 'qbittorrent',
+      probe: () => qbittorrentClient.login(),
+      failure: 'qBittorrent login failed',
+    }
+  }
+  if (bazarrClient) {
+    probes.bazarr = {
+      critical: type === 'bazarr',
+      probe: () => bazarrClient.ping(),
+      failure: 'Bazarr is not responding',
+    }
+  }
+
+  return probes
+}
+
+function withTimeout(check: Promise<boolean>): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined
+  return Promise.race([
+    check,
+    new Promise<boolean>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`no answer within ${CHECK_TIMEOUT_MS / 1000}s`)),
+        CHECK_TIMEOUT_MS,
+      )
+    }),
+  ]).finally(() => clearTimeout(timer))
+}
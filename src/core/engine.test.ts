@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'bun:test'
+import type { Config } from '@/config/schema'
+import { ConfigurationEngine } from './engine'
+import { ConfigurationStep, type StepContext, type StepResult } from './step'
+
+class FakeStep extends ConfigurationStep {
+  readonly description = 'Fake step'
+  readonly mode = 'sidecar' as const
+
+  constructor(
+    readonly name: string,
+    readonly dependencies: string[],
+    private readonly trace: string[],
+    private readonly options: { delay?: number; fail?: boolean } = {},
+  ) {
+    super()
+  }
+
+  override async execute(_context: StepContext): Promise<StepResult> {
+    this.trace.push(`start:${this.name}`)
+    await Bun.sleep(this.options.delay ?? 5)
+    this.trace.push(`end:${this.name}`)
+
+    return {
+      success: !this.options.fail,
+      changes: [],
+      errors: this.options.fail ? [new Error(`${this.name} failed`)] : [],
+      warnings: [],
+    }
+  }
+
+  validatePrerequisites(): boolean {
+    return true
+  }
+  readCurrentState(): Promise<unknown> {
+    return Promise.resolve(undefined)
+  }
+  protected getDesiredState(): unknown {
+    return undefined
+  }
+  compareAndPlan() {
+    return []
+  }
+  executeChanges(): Promise<StepResult> {
+    return Promise.resolve({ success: true, changes: [], errors: [], warnings: [] })
+  }
+  verifySuccess(): Promise<boolean> {
+    return Promise.resolve(true)
+  }
+}
+
+const contextWith = (stepConcurrency: number, selection: Partial<Config> = {}) =>
+  ({ config: { stepConcurrency, ...selection } as Config }) as StepContext
+
+describe('ConfigurationEngine scheduling', () => {
+  test('runs independent steps concurrently up to the limit', async () => {
+    const trace: string[] = []
+    let running = 0
+    let maxRunning = 0
+    const steps = ['naming-config', 'media-management', 'root-folders'].map((name) => {
+      const step = new FakeStep(name, [], trace)
+      const execute = step.execute.bind(step)
+      step.execute = async (context) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        const result = await execute(context)
+        running--
+        return result
+      }
+      return step
+    })
+
+    const result = await new ConfigurationEngine(steps).execute('sidecar', contextWith(2))
+
+    expect(result.success).toBe(true)
+    expect(result.summary.totalSteps).toBe(3)
+    expect(maxRunning).toBe(2)
+  })
+
+  test('starts a step only after its dependencies finished', async () => {
+    const trace: string[] = []
+    const steps = [
+      new FakeStep('tags', [], trace, { delay: 20 }),
+      new FakeStep('custom-formats', [], trace),
+      new FakeStep('delay-profiles', ['tags'], trace),
+    ]
+
+    const result = await new ConfigurationEngine(steps).execute('sidecar', contextWith(4))
+
+    expect(trace.indexOf('start:delay-profiles')).toBeGreaterThan(trace.indexOf('end:tags'))
+    expect(trace.indexOf('start:custom-formats')).toBeLessThan(trace.indexOf('end:tags'))
+    // Results are reported in execution order, not completion order
+    expect([...result.stepResults.keys()]).toEqual(['tags', 'custom-formats', 'delay-profiles'])
+  })
+
+  test('does not start further steps after a critical step fails', async () => {
+    const trace: string[] = []
+    const steps = [
+      new FakeStep('servarr-connectivity', [], trace, { fail: true }),
+      new FakeStep('root-folders', [], trace),
+      new FakeStep('tags', [], trace),
+    ]
+
+    const result = await new ConfigurationEngine(steps).execute('sidecar', contextWith(4))
+
+    expect(result.success).toBe(false)
+    expect(result.summary.criticalFailures).toEqual(['servarr-connectivity'])
+    expect(trace).toEqual(['start:servarr-connectivity', 'end:servarr-connectivity'])
+  })
+})
+
+describe('ConfigurationEngine step selection', () => {
+  const stepsFor = (trace: string[]) => [
+    new FakeStep('servarr-connectivity', [], trace),
+    new FakeStep('tags', ['servarr-connectivity'], trace),
+    new FakeStep('custom-formats', ['servarr-connectivity'], trace),
+    new FakeStep('download-clients', ['servarr-connectivity', 'tags'], trace),
+  ]
+
+  test('runs only the selected steps and their dependencies', async () => {
+    const trace: string[] = []
+    const engine = new ConfigurationEngine(stepsFor(trace))
+
+    const result = await engine.execute(
+      'sidecar',
+      contextWith(1, { onlySteps: ['download-clients'] }),
+    )
+
+    expect([...result.stepResults.keys()]).toEqual([
+      'servarr-connectivity',
+      'tags',
+      'download-clients',
+    ])
+    expect(result.warnings).toEqual([])
+  })
+
+  test('skips steps and warns when a selected step depends on one', async () => {
+    const trace: string[] = []
+    const engine = new ConfigurationEngine(stepsFor(trace))
+
+    const result = await engine.execute(
+      'sidecar',
+      contextWith(1, { skipSteps: ['tags', 'custom-formats', 'indexerz'] }),
+    )
+
+    expect([...result.stepResults.keys()]).toEqual(['servarr-connectivity', 'download-clients'])
+    expect(result.warnings.map((warning) => warning.message)).toEqual([
+      "Unknown step 'indexerz' in step selection",
+      "Skipped step 'tags' is a dependency of 'download-clients'",
+    ])
+  })
+})
@@ -1,7 +1,8 @@
 import { toError } from '@/utils/errors'
 import { logger } from '@/utils/logger'
+import { withSpan } from '@/utils/tracing'
 import { StepRegistry } from './registry'
-import type { ConfigurationStep, StepContext, StepResult } from './step'
+import { type ConfigurationStep, type StepContext, type StepResult, Warning } from './step'
 
 export interface ExecutionResult {
   success: boolean
@@ -35,114 +36,99 @@ export class ConfigurationEngine {
     })
   }
 
-  async execute(mode: 'init' | 'sidecar', context: StepContext): Promise<ExecutionResult> {
+  execute(mode: 'init' | 'sidecar', context: StepContext): Promise<ExecutionResult> {
+    return this.run(mode, 'execution', context, (step) => step.execute(context))
+  }
+
+  /**
+   * Dry run: every step reads current state and plans changes, but nothing is applied.
+   * The returned step results hold the planned changes.
+   */
+  plan(mode: 'init' | 'sidecar', context: StepContext): Promise<ExecutionResult> {
+    return this.run(mode, 'plan', context, (step) => step.plan(context))
+  }
+
+  private async run(
+    mode: 'init' | 'sidecar',
+    kind: 'execution' | 'plan',
+    context: StepContext,
+    runStep: (step: ConfigurationStep) => Promise<StepResult>,
+  ): Promise<ExecutionResult> {
+    const { config, signal } = context
     const startTime = Date.now()
-    const results: Map<string, StepResult> = new Map()
     const errors: Error[] = []
-    const warnings: import('./step').Warning[] = []
-    const criticalFailures: string[] = []
+    const warnings: Warning[] = []
+    const concurrency = config.stepConcurrency
+    const selection = { only: config.onlySteps, skip: config.skipSteps }
+    const selectedSteps = new Set(
+      this.registry.getStepsForMode(mode, selection).map((step) => step.name),
+    )
 
-    logger.info(`Starting configuration execution in ${mode} mode`, {
+    logger.info(`Starting configuration ${kind} in ${mode} mode`, {
       mode,
-      totalSteps: this.registry.getStepsForMode(mode).length,
+      totalSteps: selectedSteps.size,
     })
 
+    for (const message of this.registry.getSelectionWarnings(mode, selection)) {
+      logger.warn(message, { onlySteps: selection.only, skipSteps: selection.skip })
+      warnings.push(new Warning(message))
+    }
+
     // Validate dependencies
     const validation = this.registry.validateDependencies()
     if (!validation.valid) {
       logger.error('Step dependency validation failed', { errors: validation.errors })
       return {
         success: false,
-        stepResults: results,
+        stepResults: new Map(),
         errors: validation.errors.map((e) => new Error(e)),
         warnings,
-        summary: this.generateSummary(results, criticalFailures),
+        summary: this.generateSummary(new Map(), []),
         duration: Date.now() - startTime,
       }
     }
 
     // Get execution order for the specified mode
-    const stepsToExecute = this.registry.getStepsForMode(mode)
-    const executionOrder = this.registry
+    const stepsToExecute = this.registry
       .getExecutionOrder()
-      .filter((stepName) => stepsToExecute.some((step) => step.name === stepName))
+      .map((stepName) => this.registry.get(stepName))
+      .filter((step): step is ConfigurationStep => !!step && selectedSteps.has(step.name))
 
     logger.info('Execution order determined', {
-      steps: executionOrder,
+      steps: stepsToExecute.map((step) => step.name),
       mode,
+      concurrency,
     })
 
-    // Execute steps in order
-    for (const stepName of executionOrder) {
-      const step = this.registry.get(stepName)
-      if (!step) {
-        logger.warn(`Step not found: ${stepName}`)
-        continue
-      }
-
-      if (!this.shouldExecuteStep(step, mode)) {
-        logger.debug(`Skipping step: ${stepName} (not applicable for ${mode} mode)`)
-        continue
-      }
-
-      logger.info(`Executing step: ${step.name}`, {
-        description: step.description,
-        dependencies: step.dependencies,
-      })
+    const { results: finished, criticalFailures } = await this.runGraph(
+      stepsToExecute,
+      Math.max(1, concurrency || 1),
+      (step) => this.traceStep(step, kind, () => this.runStepSafely(step, kind, runStep)),
+      signal,
+    )
 
-      try {
-        const result = await step.execute(context)
-        results.set(stepName, result)
+    const notStarted = stepsToExecute.filter((step) => !finished.has(step.name))
+    if (signal?.aborted && notStarted.length > 0) {
+      const message = `Configuration ${kind} interrupted, ${notStarted.length} steps not started`
+      logger.warn(message, { notStarted: notStarted.map((step) => step.name) })
+      warnings.push(new Warning(message, { notStarted: notStarted.map((step) => step.name) }))
+    }
 
-        // Collect errors and warnings
+    // Report results in execution order rather than completion order
+    const results: Map<string, StepResult> = new Map()
+    for (const step of stepsToExecute) {
+      const result = finished.get(step.name)
+      if (result) {
+        results.set(step.name, result)
         errors.push(...result.errors)
         warnings.push(...result.warnings)
-
-        if (result.skipped) {
-          logger.debug(`Step skipped: ${step.name} (prerequisites not met)`)
-        } else if (!result.success) {
-          logger.error(`Step failed: ${step.name}`, {
-            errors: result.errors.map((e) => e.message),
-            warnings: result.warnings.map((w) => w.message),
-          })
-
-          if (this.isCriticalStep(step)) {
-            criticalFailures.push(step.name)
-            logger.error(`Critical step failed: ${step.name}, stopping execution`)
-            break
-          }
-        } else {
-          logger.info(`Step completed successfully: ${step.name}`, {
-            changes: result.changes.length,
-            warnings: result.warnings.length,
-          })
-        }
-      } catch (error) {
-        const stepError = toError(error)
-        logger.error(`Unexpected error in step: ${step.name}`, {
-          error: stepError.message,
-          stack: stepError.stack,
-        })
-
-        errors.push(stepError)
-        results.set(stepName, {
-          success: false,
-          changes: [],
-          errors: [stepError],
-          warnings: [],
-        })
-
-        if (this.isCriticalStep(step)) {
-          criticalFailures.push(step.name)
-          break
-        }
       }
     }
 
     const duration = Date.now() - startTime
     const success = errors.length === 0 && criticalFailures.length === 0
 
-    logger.info('Configuration execution completed', {
+    logger.info(`Configuration ${kind} completed`, {
       success,
       duration,
       totalSteps: results.size,
@@ -161,8 +147,141 @@ export class ConfigurationEngine {
     }
   }
 
-  private shouldExecuteStep(step: ConfigurationStep, mode: 'init' | 'sidecar'): boolean {
-    return step.mode === mode || step.mode === 'both'
+  /**
+   * Run steps along the dependency graph. A step starts once every dependency that is part of
+   * this run has finished, with at most `concurrency` steps in flight. Critical steps are
+   * barriers: steps ordered after one only start when it has finished, and once a critical step
+   * fails no further steps are started. Steps that are already running are allowed to finish.
+   * Aborting the signal stops starting steps the same way.
+   */
+  private async runGraph(
+    steps: ConfigurationStep[],
+    concurrency: number,
+    runStep: (step: ConfigurationStep) => Promise<StepResult>,
+    signal?: AbortSignal,
+  ): Promise<{ results: Map<string, StepResult>; criticalFailures: string[] }> {
+    const results: Map<string, StepResult> = new Map()
+    const criticalFailures: string[] = []
+    const scheduled = new Set(steps.map((step) => step.name))
+
+    const waitsFor = new Map<string, string[]>()
+    const criticalSteps: string[] = []
+    for (const step of steps) {
+      const dependencies = step.dependencies.filter((dependency) => scheduled.has(dependency))
+      waitsFor.set(step.name, [...new Set([...dependencies, ...criticalSteps])])
+      if (this.isCriticalStep(step)) {
+        criticalSteps.push(step.name)
+      }
+    }
+
+    const pending = [...steps]
+    const running: Map<string, Promise<void>> = new Map()
+
+    while (pending.length > 0 || running.size > 0) {
+      if (criticalFailures.length === 0 && !signal?.aborted) {
+        for (const step of [...pending]) {
+          if (running.size >= concurrency) {
+            break
+          }
+          if (!waitsFor.get(step.name)?.every((dependency) => results.has(dependency))) {
+            continue
+          }
+
+          pending.splice(pending.indexOf(step), 1)
+          running.set(
+            step.name,
+            runStep(step).then((result) => {
+              results.set(step.name, result)
+              running.delete(step.name)
+
+              if (!result.success && !result.skipped && this.isCriticalStep(step)) {
+                criticalFailures.push(step.name)
+                logger.error(`Critical step failed: ${step.name}, stopping execution`, {
+                  running: [...running.keys()],
+                  notStarted: pending.map((p) => p.name),
+                })
+              }
+            }),
+          )
+        }
+      }
+
+      if (running.size === 0) {
+        break
+      }
+      await Promise.race(running.values())
+    }
+
+    return { results, criticalFailures }
+  }
+
+  private async runStepSafely(
+    step: ConfigurationStep,
+    kind: 'execution' | 'plan',
+    runStep: (step: ConfigurationStep) => Promise<StepResult>,
+  ): Promise<StepResult> {
+    logger.info(`${kind === 'plan' ? 'Planning' : 'Executing'} step: ${step.name}`, {
+      description: step.description,
+      dependencies: step.dependencies,
+    })
+
+    const startTime = Date.now()
+    try {
+      const result = await runStep(step)
+
+      if (result.skipped) {
+        logger.debug(`Step skipped: ${step.name} (prerequisites not met)`)
+      } else if (!result.success) {
+        logger.error(`Step failed: ${step.name}`, {
+          errors: result.errors.map((e) => e.message),
+          warnings: result.warnings.map((w) => w.message),
+        })
+      } else {
+        logger.info(`Step completed successfully: ${step.name}`, {
+          changes: result.changes.length,
+          warnings: result.warnings.length,
+        })
+      }
+
+      return { ...result, duration: Date.now() - startTime }
+    } catch (error) {
+      const stepError = toError(error)
+      logger.error(`Unexpected error in step: ${step.name}`, {
+        error: stepError.message,
+        stack: stepError.stack,
+      })
+
+      return {
+        success: false,
+        changes: [],
+        errors: [stepError],
+        warnings: [],
+        duration: Date.now() - startTime,
+      }
+    }
+  }
+
+  // One span per step, holding the spans of its phases and outbound calls
+  private traceStep(
+    step: ConfigurationStep,
+    kind: 'execution' | 'plan',
+    run: () => Promise<StepResult>,
+  ): Promise<StepResult> {
+    return withSpan(
+      `step ${step.name}`,
+      async (span) => {
+        const result = await run()
+        span.setAttributes({
+          'preparr.step.changes': result.changes.length,
+          'preparr.step.skipped': result.skipped ?? false,
+        })
+        if (!result.success) {
+          span.setError(result.errors.map((error) => error.message).join('; '))
+        }
+        return result
+      },
+      { attributes: { 'preparr.step': step.name, 'preparr.step.kind': kind } },
+    )
   }
 
   private isCriticalStep(step: ConfigurationStep): boolean {
@@ -0,0 +1,130 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: asserts on ${VAR} placeholders
+import { describe, expect, test } from 'bun:test'
+import { YAML } from 'bun'
+import { ConfigSchema } from '@/config/schema'
+import { MASKED_FIELD_VALUE, type ServarrManager } from '@/servarr/client'
+import { exportConfiguration, formatExport } from './export'
+
+const config = ConfigSchema.parse({
+  postgres: { host: 'postgres', password: 'postgres-secret' },
+  servarr: { type: 'sonarr', url: 'http://sonarr:8989', adminPassword: 'admin-secret' },
+})
+
+const tagLabels = new Map([[1, 'anime']])
+const none = async () => []
+
+const servarr = {
+  getTags: async () => [{ id: 1, label: 'anime' }],
+  tagKeys: (tags: (number | string)[]) =>
+    tags.map((tag) => (typeof tag === 'number' ? (tagLabels.get(tag) ?? `#${tag}`) : tag)),
+  qualityProfileKey: (profile: number | string) => (profile === 4 ? 'HD-1080p' : profile),
+  getRootFolders: async () => [{ id: 3, path: '/tv', accessible: true, freeSpace: 1024 }],
+  getCustomFormats: none,
+  getQualityProfiles: none,
+  getDownloadClients: async () => [
+    {
+      id: 7,
+      name: 'qBittorrent',
+      implementation: 'QBittorrent',
+      implementationName: 'qBittorrent',
+      configContract: 'QBittorrentSettings',
+      enable: true,
+      priority: 1,
+      fields: [
+        { name: 'host', value: 'qbittorrent' },
+        { name: 'username', value: 'admin' },
+        { name: 'password', value: MASKED_FIELD_VALUE },
+        { name: 'urlBase', value: null },
+      ],
+    },
+  ],
+  getRemotePathMappings: none,
+  getIndexers: async () => [
+    { id: 2, name: 'Nyaa (Prowlarr)', fields: [] },
+    {
+      id: 5,
+      name: 'NZBgeek',
+      implementation: 'Newznab',
+      implementationName: 'Newznab',
+      configContract: 'NewznabSettings',
+      enable: true,
+      priority: 25,
+      fields: [
+        { name: 'baseUrl', value: 'https://api.nzbgeek.info' },
+        { name: 'apiKey', value: MASKED_FIELD_VALUE },
+      ],
+    },
+  ],
+  getApplications: none,
+  getNotifications: none,
+  getReleaseProfiles: none,
+  getDelayProfiles: async () => [
+    { id: 2, preferredProtocol: 'torrent', usenetDelay: 0, torrentDelay: 60, tags: [1, 9] },
+  ],
+  getImportLists: none,
+  getImportListExclusions: none,
+  getQualityDefinitions: none,
+  getNamingConfig: () => Promise.reject(new Error('naming unavailable')),
+  getMediaManagementConfig: async () => null,
+  getHostConfig: async () => ({ instanceName: 'Sonarr', urlBase: '', proxyPassword: 'hunter2' }),
+} as unknown as ServarrManager
+
+describe('configuration export', () => {
+  test('replaces secrets with placeholders and references tags by label', async () => {
+    const result = await exportConfiguration(config, { servarr })
+    const app = result.config.app as Record<string, unknown>
+
+    expect(result.config.postgres).toMatchObject({ password: '${POSTGRES_PASSWORD}' })
+    expect(result.config.servarr).toMatchObject({ adminPassword: '${SERVARR_ADMIN_PASSWORD}' })
+    expect(app.tags).toEqual(['anime'])
+    expect(app.rootFolders).toEqual([{ path: '/tv' }])
+    expect(app.downloadClients).toEqual([
+      expect.objectContaining({
+        name: 'qBittorrent',
+        fields: [
+          { name: 'host', value: 'qbittorrent' },
+          { name: 'username', value: 'admin' },
+          { name: 'password', value: '${SONARR_DOWNLOAD_CLIENT_QBITTORRENT_PASSWORD}' },
+        ],
+      }),
+    ])
+    expect(app.delayProfiles).toEqual([expect.objectContaining({ tags: ['anime'] })])
+    expect(app.host).toEqual({
+      instanceName: 'Sonarr',
+      proxyPassword: '${SONARR_HOST_PROXY_PASSWORD}',
+    })
+    expect(result.variables).toContain('SONARR_DOWNLOAD_CLIENT_QBITTORRENT_PASSWORD')
+    expect(JSON.stringify(result.config)).not.toContain('hunter2')
+  })
+
+  test('enables Prowlarr sync and exports only the indexers added by hand', async () => {
+    const result = await exportConfiguration(config, { servarr })
+    const app = result.config.app as Record<string, unknown>
+
+    expect(app.prowlarrSync).toBe(true)
+    expect(app.indexers).toEqual([
+      expect.objectContaining({
+        name: 'NZBgeek',
+        fields: [
+          { name: 'baseUrl', value: 'https://api.nzbgeek.info' },
+          { name: 'apiKey', value: '${SONARR_INDEXER_NZBGEEK_API_KEY}' },
+        ],
+      }),
+    ])
+  })
+
+  test('leaves out sections that cannot be read', async () => {
+    const result = await exportConfiguration(config, { servarr })
+
+    expect(result.config.app).not.toHaveProperty('naming')
+  })
+
+  test('formats YAML with a header listing the required variables', async () => {
+    const result = await exportConfiguration(config, { servarr })
+    const output = formatExport(result, 'yaml')
+
+    expect(output).toStartWith('# Generated by preparr --export')
+    expect(output).toContain('#   POSTGRES_PASSWORD')
+    expect(YAML.parse(output)).toEqual(result.config)
+  })
+})
@@ -0,0 +1,516 @@
+import { TOML, YAML } from 'bun'
+import type { z } from 'zod'
+import type { BazarrManager } from '@/bazarr/client'
+import {
+  ApplicationSchema,
+  BazarrLanguageProfileSchema,
+  BazarrLanguageSchema,
+  BazarrProviderSchema,
+  type Config,
+  ConfigSchema,
+  CustomFormatSchema,
+  DelayProfileSchema,
+  DownloadClientSchema,
+  HostConfigSchema,
+  ImportListExclusionSchema,
+  ImportListSchema,
+  IndexerSchema,
+  MediaManagementConfigSchema,
+  NamingConfigSchema,
+  NotificationSchema,
+  QualityDefinitionSchema,
+  QualityProfileSchema,
+  ReleaseProfileSchema,
+  RemotePathMappingSchema,
+  type TagReference,
+} from '@/config/schema'
+import { isProwlarrIndexer, MASKED_FIELD_VALUE, type ServarrManager } from '@/servarr/client'
+import { logger } from '@/utils/logger'
+
+export type ExportFormat = 'yaml' | 'json' | 'toml'
+
+export interface ExportResult {
+  config: Record<string, unknown>
+  // Environment variables referenced by secret placeholders, in order of appearance
+  variables: string[]
+}
+
+interface ExportClients {
+  servarr?: ServarrManager | undefined
+  bazarr?: BazarrManager | undefined
+}
+
+type ExportField = { name: string; value: unknown }
+
+// Field names that hold credentials even when Servarr does not mask them
+export const SECRET_FIELD_PATTERN = /password|passkey|api_?key|token|secret|cookie/i
+
+/**
+ * Replaces secrets with `${VAR}` placeholders, which are resolved again when the exported file
+ * is loaded, and remembers which variables have to be provided.
+ */
+class SecretPlaceholders {
+  private readonly names = new Set<string>()
+
+  // The last part is a field name; camelCase is split so `apiKey` becomes `API_KEY`
+  placeholder(...parts: string[]): string {
+    const field = (parts.pop() ?? '').replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    const name = [...parts, field]
+      .join('_')
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .toUpperCase()
+    this.names.add(name)
+    return `\${${name}}`
+  }
+
+  get variables(): string[] {
+    return [...this.names]
+  }
+}
+
+/**
+ * Read the live state of the connected instances and build a PrepArr configuration from it.
+ * Instance-specific IDs are dropped, tags and quality profiles are referenced by name and
+ * secrets become placeholders. The result is validated against `ConfigSchema`.
+ */
+export async function exportConfiguration(
+  config: Config,
+  clients: ExportClients,
+): Promise<ExportResult> {
+  const secrets = new SecretPlaceholders()
+  const type = config.servarr.type
+
+  const document: Record<string, unknown> = {
+    postgres: {
+      host: config.postgres.host,
+      port: config.postgres.port,
+      username: config.postgres.username,
+      database: config.postgres.database,
+      password: secrets.placeholder('POSTGRES_PASSWORD'),
+    },
+    servarr: {
+      type,
+      ...(config.servarr.url ? { url: config.servarr.url } : {}),
+      ...(type !== 'bazarr' && type !== 'qbittorrent'
+        ? {
+            adminUser: config.servarr.adminUser,
+            adminPassword: secrets.placeholder('SERVARR_ADMIN_PASSWORD'),
+            authenticationMethod: config.servarr.authenticationMethod,
+          }
+        : {}),
+    },
+  }
+
+  const app: Record<string, unknown> = {}
+  if (clients.servarr) {
+    Object.assign(app, await exportServarrState(clients.servarr, type, secrets))
+  }
+  if (clients.bazarr) {
+    const bazarr = await exportBazarrState(clients.bazarr, secrets)
+    if (Object.keys(bazarr).length > 0) app.bazarr = bazarr
+    if (type === 'bazarr') {
+      document.services = {
+        bazarr: {
+          url: config.services?.bazarr?.url,
+          apiKey: secrets.placeholder('BAZARR_API_KEY'),
+        },
+      }
+    }
+  }
+  document.app = app
+
+  const validation = ConfigSchema.safeParse(document)
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`Exported configuration failed validation: ${issues}`)
+  }
+
+  return { config: document, variables: secrets.variables }
+}
+
+async function exportServarrState(
+  client: ServarrManager,
+  type: string,
+  secrets: SecretPlaceholders,
+): Promise<Record<string, unknown>> {
+  const app: Record<string, unknown> = {}
+  const prefix = type.toUpperCase()
+
+  // Tags and quality profile names must be cached before references can be translated
+  const tags = (await readSection('tags', () => client.getTags())) ?? []
+  const tagLabels = (refs: TagReference[] | undefined) =>
+    client.tagKeys(refs ?? []).filter((label) => !label.startsWith('#'))
+  const withFields = <T extends { name: string; fields?: ExportField[]; tags?: TagReference[] }>(
+    item: T,
+    section: string,
+  ) => ({
+    ...item,
+    ...(item.fields
+      ? { fields: exportFields(item.fields, [prefix, section, item.name], secrets) }
+      : {}),
+    ...(item.tags ? { tags: tagLabels(item.tags) } : {}),
+  })
+
+  setList(
+    app,
+    'tags',
+    tags.map((tag) => tag.label),
+  )
+
+  const rootFolders = await readSection('root folders', () => client.getRootFolders())
+  setList(
+    app,
+    'rootFolders',
+    rootFolders?.map((folder) => ({ path: folder.path })),
+  )
+
+  const customFormats = await readSection('custom formats', () => client.getCustomFormats())
+  setList(app, 'customFormats', parseItems(CustomFormatSchema, customFormats, 'custom format'))
+
+  const qualityProfiles = await readSection('quality profiles', () => client.getQualityProfiles())
+  setList(
+    app,
+    'qualityProfiles',
+    parseItems(QualityProfileSchema, qualityProfiles, 'quality profile'),
+  )
+
+  const downloadClients = await readSection('download clients', () => client.getDownloadClients())
+  setList(
+    app,
+    'downloadClients',
+    parseItems(
+      DownloadClientSchema,
+      downloadClients?.map((item) => withFields(item, 'DOWNLOAD_CLIENT')),
+      'download client',
+    ),
+  )
+
+  const remotePathMappings = await readSection('remote path mappings', () =>
+    client.getRemotePathMappings(),
+  )
+  setList(
+    app,
+    'remotePathMappings',
+    parseItems(RemotePathMappingSchema, remotePathMappings, 'remote path mapping'),
+  )
+
+  const indexers = (await readSection('indexers', () => client.getIndexers())) ?? []
+  // Indexers pushed by Prowlarr are managed there; exporting them would make two owners
+  const synced = type === 'prowlarr' ? [] : indexers.filter(isProwlarrIndexer)
+  if (synced.length > 0) {
+    app.prowlarrSync = true
+  }
+  setList(
+    app,
+    'indexers',
+    parseItems(
+      IndexerSchema,
+      indexers
+        .filter((indexer) => !synced.includes(indexer))
+        .map((item) => withFields(item, 'INDEXER')),
+      'indexer',
+    ),
+  )
+
+  const applications = await readSection('applications', () => client.getApplications())
+  setList(
+    app,
+    'applications',
+    parseItems(
+      ApplicationSchema,
+      applications?.map((item) => withFields(item, 'APPLICATION')),
+      'application',
+    ),
+  )
+
+  const notifications = await readSection('notifications', () => client.getNotifications())
+  setList(
+    app,
+    'notifications',
+    parseItems(
+      NotificationSchema,
+      notifications?.map((item) => withFields(item, 'NOTIFICATION')),
+      'notification',
+    ),
+  )
+
+  const releaseProfiles = await readSection('release profiles', () => client.getReleaseProfiles())
+  setList(
+    app,
+    'releaseProfiles',
+    parseItems(
+      ReleaseProfileSchema,
+      releaseProfiles?.map((profile) => ({ ...profile, tags: tagLabels(profile.tags) })),
+      'release profile',
+    ),
+  )
+
+  const delayProfiles = await readSection('delay profiles', () => client.getDelayProfiles())
+  setList(
+    app,
+    'delayProfiles',
+    parseItems(
+      DelayProfileSchema,
+      delayProfiles?.map((profile) => ({ ...profile, tags: tagLabels(profile.tags) })),
+      'delay profile',
+    ),
+  )
+
+  const importLists = await readSection('import lists', () => client.getImportLists())
+  setList(
+    app,
+    'importLists',
+    parseItems(
+      ImportListSchema,
+      importLists?.map((list) => ({
+        ...withFields(list, 'IMPORT_LIST'),
+        qualityProfile: client.qualityProfileKey(list.qualityProfile),
+      })),
+      'import list',
+    ),
+  )
+
+  const exclusions = await readSection('import list exclusions', () =>
+    client.getImportListExclusions(),
+  )
+  setList(
+    app,
+    'importListExclusions',
+    parseItems(ImportListExclusionSchema, exclusions, 'import list exclusion'),
+  )
+
+  const qualityDefinitions = await readSection('quality definitions', () =>
+    client.getQualityDefinitions(),
+  )
+  setList(
+    app,
+    'qualityDefinitions',
+    parseItems(QualityDefinitionSchema, qualityDefinitions, 'quality definition'),
+  )
+
+  const naming = await readSection('naming', () => client.getNamingConfig())
+  setObject(app, 'naming', NamingConfigSchema, naming)
+
+  const mediaManagement = await readSection('media management', () =>
+    client.getMediaManagementConfig(),
+  )
+  setObject(app, 'mediaManagement', MediaManagementConfigSchema, mediaManagement)
+
+  const host = await readSection('host settings', () => client.getHostConfig())
+  if (host) {
+    const exportedHost: Record<string, unknown> = { ...host }
+    for (const key of ['proxyPassword', 'sslCertPassword'] as const) {
+      if (host[key]) exportedHost[key] = secrets.placeholder(prefix, 'HOST', key)
+    }
+    setObject(app, 'host', HostConfigSchema, withoutEmptyStrings(exportedHost))
+  }
+
+  return app
+}
+
+async function exportBazarrState(
+  client: BazarrManager,
+  secrets: SecretPlaceholders,
+): Promise<Record<string, unknown>> {
+  const bazarr: Record<string, unknown> = {}
+
+  const languages = await readSection('Bazarr languages', () => client.getLanguages())
+  setList(
+    bazarr,
+    'languages',
+    parseItems(
+      BazarrLanguageSchema,
+      languages?.filter((language) => language.enabled),
+      'Bazarr language',
+    ),
+  )
+
+  const providers = await readSection('Bazarr providers', () => client.getProviders())
+  setList(
+    bazarr,
+    'providers',
+    parseItems(
+      BazarrProviderSchema,
+      providers?.map((provider) => ({
+        ...provider,
+        settings: Object.fromEntries(
+          Object.entries(provider.settings)
+            .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+            .map(([key, value]) => [
+              key,
+              SECRET_FIELD_PATTERN.test(key) && value !== ''
+                ? secrets.placeholder('BAZARR', provider.name, key)
+                : value,
+            ]),
+        ),
+      })),
+      'Bazarr provider',
+    ),
+  )
+
+  const profiles =
+    (await readSection('Bazarr language profiles', () => client.getLanguageProfiles())) ?? []
+  setList(
+    bazarr,
+    'languageProfiles',
+    parseItems(
+      BazarrLanguageProfileSchema,
+      profiles.map((profile) => ({
+        name: profile.name,
+        cutoff: profile.cutoff,
+        items: profile.items.map((item) => ({
+          language: item.language,
+          forced: item.forced === 'True',
+          hi: item.hi === 'True',
+          audio_exclude: item.audio_exclude === 'True',
+          audio_only_include: item.audio_only_include === 'True',
+        })),
+        mustContain: profile.mustContain,
+        mustNotContain: profile.mustNotContain,
+        originalFormat: profile.originalFormat === 1,
+        tag: profile.tag,
+      })),
+      'Bazarr language profile',
+    ),
+  )
+
+  return bazarr
+}
+
+/**
+ * Keep fields with values the config schema accepts. Masked values and credentials become
+ * placeholders named after the resource, e.g. `${SONARR_DOWNLOAD_CLIENT_QBITTORRENT_PASSWORD}`.
+ */
+function exportFields(
+  fields: ExportField[],
+  owner: string[],
+  secrets: SecretPlaceholders,
+): ExportField[] {
+  const exported: ExportField[] = []
+
+  for (const field of fields) {
+    const { name, value } = field
+    if (
+      value === MASKED_FIELD_VALUE ||
+      (SECRET_FIELD_PATTERN.test(name) && value && typeof value === 'string')
+    ) {
+      exported.push({ name, value: secrets.placeholder(...owner, name) })
+    } else if (
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean' ||
+      (Array.isArray(value) && value.every((item) => typeof item === 'number'))
+    ) {
+      exported.push({ name, value })
+    }
+  }
+
+  return exported
+}
+
+async function readSection<T>(name: string, read: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await read()
+  } catch (error) {
+    logger.warn(`Failed to export ${name}, leaving it out`, { error })
+    return undefined
+  }
+}
+
+/**
+ * Validate items against their config schema, which also strips API-only properties. The
+ * instance-specific `id` is dropped; items the schema rejects are skipped with a warning.
+ */
+function parseItems<T extends z.ZodTypeAny>(
+  schema: T,
+  items: unknown[] | undefined,
+  resource: string,
+): z.output<T>[] {
+  const parsed: z.output<T>[] = []
+
+  for (const item of items ?? []) {
+    const { id: _id, ...rest } = withoutNulls(item) as Record<string, unknown>
+    const result = schema.safeParse(rest)
+    if (result.success) {
+      parsed.push(result.data)
+    } else {
+      logger.warn(`Skipping ${resource} that does not match the config schema`, {
+        name: rest.name,
+        issues: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      })
+    }
+  }
+
+  return parsed
+}
+
+function setList(target: Record<string, unknown>, key: string, items: unknown[] | undefined) {
+  if (items && items.length > 0) {
+    target[key] = items
+  }
+}
+
+function setObject(
+  target: Record<string, unknown>,
+  key: string,
+  schema: z.ZodTypeAny,
+  value: unknown,
+) {
+  if (!value) return
+
+  const { id: _id, ...rest } = withoutNulls(value) as Record<string, unknown>
+  const result = schema.safeParse(rest)
+  if (result.success) {
+    target[key] = result.data
+  } else {
+    logger.warn(`Skipping ${key} settings that do not match the config schema`, {
+      issues: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+}
+
+// The API returns null for unset values, which the config schema expresses by omission
+function withoutNulls(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutNulls)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== null && item !== undefined)
+        .map(([key, item]) => [key, withoutNulls(item)]),
+    )
+  }
+  return value
+}
+
+function withoutEmptyStrings(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== ''))
+}
+
+/**
+ * Serialize an export. YAML and TOML output starts with a comment listing the variables the
+ * secret placeholders need.
+ */
+export function formatExport(result: ExportResult, format: ExportFormat): string {
+  if (format === 'json') {
+    return `${JSON.stringify(result.config, null, 2)}\n`
+  }
+
+  const header = [
+    '# Generated by preparr --export',
+    ...(result.variables.length > 0
+      ? [
+          '# Provide these variables (or <NAME>_FILE) before loading this file:',
+          ...result.variables.map((name) => `#   ${name}`),
+        ]
+      : []),
+  ].join('\n')
+
+  const body =
+    format === 'toml' ? TOML.stringify(result.config) : YAML.stringify(result.config, null, 2)
+  return `${header}\n${body}${body?.endsWith('\n') ? '' : '\n'}`
+}
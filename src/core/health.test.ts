@@ -0,0 +1,43 @@
+import { describe, expect, mock, test } from 'bun:test'
+import { HealthServer } from './health'
+import type { ReconciliationManager } from './reconciliation'
+
+describe('HealthServer pending change decisions', () => {
+  const serverWith = () => {
+    const approve = mock((id: number) => Promise.resolve({ id, kind: 'delete' }))
+    const server = new HealthServer()
+    server.setReconciliationManager({ approve } as unknown as ReconciliationManager)
+    const handle = (request: Request) =>
+      (
+        server as unknown as { handleRequest: (request: Request) => Promise<Response> }
+      ).handleRequest(request)
+    return { approve, handle }
+  }
+
+  const approval = (headers: Record<string, string> = {}) =>
+    new Request('http://preparr:9001/reconciliation/pending/3/approve', {
+      method: 'POST',
+      headers,
+    })
+
+  test('refuses decisions sent from another site', async () => {
+    const { approve, handle } = serverWith()
+
+    const response = await handle(approval({ origin: 'https://attacker.example' }))
+
+    expect(response.status).toBe(403)
+    expect(response.headers.get('access-control-allow-origin')).toBeNull()
+    expect(approve).not.toHaveBeenCalled()
+  })
+
+  test('accepts decisions without an origin or from the same host, without CORS headers', async () => {
+    const { approve, handle } = serverWith()
+
+    const fromCurl = await handle(approval())
+    const fromSameHost = await handle(approval({ origin: 'https://preparr:9001' }))
+
+    expect([fromCurl.status, fromSameHost.status]).toEqual([200, 200])
+    expect(fromCurl.headers.get('access-control-allow-origin')).toBeNull()
+    expect(approve).toHaveBeenCalledTimes(2)
+  })
+})
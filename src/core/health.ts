@@ -1,3 +1,5 @@
+import type { DependencyMonitor } from '@/core/dependencies'
+import { formatPlan } from '@/core/plan'
 import type { ReconciliationManager, ReconciliationState } from '@/core/reconciliation'
 import { logger } from '@/utils/logger'
 
@@ -7,7 +9,7 @@ export interface HealthStatus {
   uptime: number
   reconciliation?:
     | (ReconciliationState & {
-        status: 'active' | 'inactive' | 'error'
+        status: 'active' | 'inactive' | 'error' | 'standby'
       })
     | undefined
   checks: Record<
@@ -16,14 +18,23 @@ export interface HealthStatus {
       status: 'pass' | 'fail' | 'warn'
       message?: string
       lastChecked: string
+      // Set on dependency checks
+      latencyMs?: number
+      critical?: boolean
     }
   >
 }
 
+const HISTORY_RECORD_PREFIX = '/reconciliation/history/'
+const PENDING_DECISION_PATH = /^\/reconciliation\/pending\/(\d+)\/(approve|reject)$/
+const DEFAULT_HISTORY_LIMIT = 20
+const MAX_HISTORY_LIMIT = 100
+
 export class HealthServer {
   private server: ReturnType<typeof Bun.serve> | undefined = undefined
   private startTime: Date = new Date()
   private reconciliationManager?: ReconciliationManager
+  private dependencies?: DependencyMonitor
   private healthStatus: HealthStatus['status'] = 'starting'
 
   constructor(private port = 9000) {}
@@ -32,6 +43,10 @@ export class HealthServer {
     this.reconciliationManager = manager
   }
 
+  setDependencyMonitor(monitor: DependencyMonitor): void {
+    this.dependencies = monitor
+  }
+
   start(): void {
     this.server = Bun.serve({
       port: this.port,
@@ -61,11 +76,30 @@ export class HealthServer {
       'Access-Control-Allow-Headers': 'Content-Type',
     }
 
+    // Decisions apply held deletes, so they get no CORS headers and other sites are refused.
+    // A bodiless POST needs no preflight, so the Origin header is checked as well.
+    const decision = PENDING_DECISION_PATH.exec(path)
+    if (decision?.[1] && decision[2]) {
+      if (request.method !== 'POST') {
+        return this.notFound({})
+      }
+      const origin = request.headers.get('origin')
+      if (origin !== null && !isSameHost(origin, url)) {
+        logger.warn('Refusing a pending change decision from another origin', { origin, path })
+        return jsonResponse({ error: 'Cross-origin requests are not allowed' }, 403, {})
+      }
+      return this.handlePendingDecision({}, Number(decision[1]), decision[2])
+    }
+
     if (request.method === 'OPTIONS') {
       return new Response(null, { headers: corsHeaders })
     }
 
     try {
+      if (path.startsWith(HISTORY_RECORD_PREFIX)) {
+        return this.handleHistoryRecord(corsHeaders, path.slice(HISTORY_RECORD_PREFIX.length))
+      }
+
       switch (path) {
         case '/health':
         case '/health/ready':
@@ -84,9 +118,21 @@ export class HealthServer {
           }
           return this.notFound(corsHeaders)
 
+        case '/reconciliation/plan':
+          if (request.method === 'POST') {
+            return this.handleReconciliationPlan(corsHeaders, url)
+          }
+          return this.notFound(corsHeaders)
+
         case '/reconciliation/status':
           return this.handleReconciliationStatus(corsHeaders)
 
+        case '/reconciliation/history':
+          return this.handleHistory(corsHeaders, url)
+
+        case '/reconciliation/pending':
+          return this.handlePendingChanges(corsHeaders)
+
         case '/metrics':
           return this.handleMetrics(corsHeaders)
 
@@ -111,9 +157,11 @@ export class HealthServer {
   private handleReadinessProbe(headers: Record<string, string>): Response {
     // Readiness probe - is the service ready to handle requests?
     const health = this.getHealthStatus()
-    const status = health.status === 'healthy' ? 200 : 503
+    // Critical dependencies of this deployment that are down, so the orchestrator can tell which
+    const failing = this.dependencies?.notReady() ?? []
+    const status = health.status === 'healthy' && failing.length === 0 ? 200 : 503
 
-    return new Response(JSON.stringify({ status: health.status }), {
+    return new Response(JSON.stringify({ status: health.status, failing }), {
       status,
       headers: {
         ...headers,
@@ -150,6 +198,14 @@ export class HealthServer {
       )
     }
 
+    if (this.reconciliationManager.getState().role === 'standby') {
+      return jsonResponse(
+        { error: 'This replica is on standby, trigger reconciliation on the leader' },
+        409,
+        headers,
+      )
+    }
+
     try {
       await this.reconciliationManager.forceReconciliation()
       return new Response(
@@ -181,6 +237,62 @@ export class HealthServer {
     }
   }
 
+  private async handleReconciliationPlan(
+    headers: Record<string, string>,
+    url: URL,
+  ): Promise<Response> {
+    if (!this.reconciliationManager) {
+      return new Response(
+        JSON.stringify({
+          error: 'Reconciliation manager not available',
+        }),
+        {
+          status: 503,
+          headers: {
+            ...headers,
+            'Content-Type': 'application/json',
+          },
+        },
+      )
+    }
+
+    try {
+      const result = await this.reconciliationManager.plan()
+
+      if (url.searchParams.get('format') === 'text') {
+        return new Response(`${formatPlan(result, 'text')}\n`, {
+          status: 200,
+          headers: {
+            ...headers,
+            'Content-Type': 'text/plain; charset=utf-8',
+          },
+        })
+      }
+
+      return new Response(formatPlan(result, 'json'), {
+        status: 200,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+        },
+      })
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to compute reconciliation plan',
+          details: error instanceof Error ? error.message : String(error),
+        }),
+        {
+          status: 500,
+          headers: {
+            ...headers,
+            'Content-Type': 'application/json',
+          },
+        },
+      )
+    }
+  }
+
   private handleReconciliationStatus(headers: Record<string, string>): Response {
     const reconciliationState = this.reconciliationManager?.getState()
 
@@ -202,11 +314,132 @@ export class HealthServer {
     )
   }
 
+  private async handleHistory(headers: Record<string, string>, url: URL): Promise<Response> {
+    const history = this.reconciliationManager?.getHistory()
+    if (!history) {
+      return this.historyUnavailable(headers)
+    }
+
+    const limit = parseNonNegativeInteger(url.searchParams.get('limit'), DEFAULT_HISTORY_LIMIT)
+    const offset = parseNonNegativeInteger(url.searchParams.get('offset'), 0)
+    if (limit === undefined || limit < 1 || limit > MAX_HISTORY_LIMIT || offset === undefined) {
+      return jsonResponse(
+        { error: `limit must be between 1 and ${MAX_HISTORY_LIMIT} and offset at least 0` },
+        400,
+        headers,
+      )
+    }
+
+    try {
+      const page = await history.list(limit, offset)
+      return jsonResponse({ ...page, limit, offset }, 200, headers)
+    } catch (error) {
+      return jsonResponse(
+        {
+          error: 'Failed to read reconciliation history',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500,
+        headers,
+      )
+    }
+  }
+
+  private async handleHistoryRecord(
+    headers: Record<string, string>,
+    idParam: string,
+  ): Promise<Response> {
+    const history = this.reconciliationManager?.getHistory()
+    if (!history) {
+      return this.historyUnavailable(headers)
+    }
+
+    const id = parseNonNegativeInteger(idParam, 0)
+    if (id === undefined) {
+      return jsonResponse({ error: 'Invalid reconciliation id' }, 400, headers)
+    }
+
+    try {
+      const record = await history.get(id)
+      if (!record) {
+        return jsonResponse({ error: 'Reconciliation not found' }, 404, headers)
+      }
+      return jsonResponse(record, 200, headers)
+    } catch (error) {
+      return jsonResponse(
+        {
+          error: 'Failed to read reconciliation history',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500,
+        headers,
+      )
+    }
+  }
+
+  private handlePendingChanges(headers: Record<string, string>): Response {
+    if (!this.reconciliationManager) {
+      return jsonResponse({ error: 'Reconciliation manager not available' }, 503, headers)
+    }
+
+    return jsonResponse(
+      { items: this.reconciliationManager.getPendingChanges() ?? [] },
+      200,
+      headers,
+    )
+  }
+
+  private async handlePendingDecision(
+    headers: Record<string, string>,
+    id: number,
+    decision: string,
+  ): Promise<Response> {
+    if (!this.reconciliationManager) {
+      return jsonResponse({ error: 'Reconciliation manager not available' }, 503, headers)
+    }
+
+    try {
+      const item =
+        decision === 'approve'
+          ? await this.reconciliationManager.approve(id)
+          : this.reconciliationManager.reject(id)
+
+      if (!item) {
+        return jsonResponse({ error: 'Pending change not found' }, 404, headers)
+      }
+      return jsonResponse(
+        { message: decision === 'approve' ? 'Change approved' : 'Change rejected', item },
+        200,
+        headers,
+      )
+    } catch (error) {
+      return jsonResponse(
+        {
+          error: `Failed to ${decision} pending change`,
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500,
+        headers,
+      )
+    }
+  }
+
+  private historyUnavailable(headers: Record<string, string>): Response {
+    return jsonResponse(
+      {
+        error: this.reconciliationManager
+          ? 'Reconciliation history is disabled'
+          : 'Reconciliation manager not available',
+      },
+      503,
+      headers,
+    )
+  }
+
   private handleMetrics(headers: Record<string, string>): Response {
     const health = this.getHealthStatus()
     const reconciliation = this.reconciliationManager?.getState()
 
-    // Simple Prometheus-style metrics
     const metrics = [
       '# HELP preparr_uptime_seconds Uptime in seconds',
       '# TYPE preparr_uptime_seconds counter',
@@ -216,13 +449,11 @@ export class HealthServer {
       '# TYPE preparr_health_status gauge',
       `preparr_health_status ${health.status === 'healthy' ? 1 : 0}`,
       '',
-      '# HELP preparr_reconciliation_total Total number of reconciliation cycles',
-      '# TYPE preparr_reconciliation_total counter',
-      `preparr_reconciliation_total ${reconciliation?.reconciliationCount || 0}`,
-      '',
-      '# HELP preparr_reconciliation_errors_total Total number of reconciliation errors',
-      '# TYPE preparr_reconciliation_errors_total counter',
-      `preparr_reconciliation_errors_total ${reconciliation?.errors || 0}`,
+      '# HELP preparr_leader Whether this replica reconciles (1) or stands by for the leader (0)',
+      '# TYPE preparr_leader gauge',
+      `preparr_leader ${reconciliation?.role === 'standby' ? 0 : 1}`,
+      ...(this.reconciliationManager?.getMetrics().render() ?? []),
+      ...driftMetrics(reconciliation),
     ].join('\n')
 
     return new Response(metrics, {
@@ -253,7 +484,7 @@ export class HealthServer {
             status: this.determineReconciliationStatus(reconciliationState),
           }
         : undefined,
-      checks: this.runHealthChecks(),
+      checks: this.runHealthChecks(reconciliationState),
     }
   }
 
@@ -284,7 +515,11 @@ export class HealthServer {
 
   private determineReconciliationStatus(
     state: ReconciliationState,
-  ): 'active' | 'inactive' | 'error' {
+  ): 'active' | 'inactive' | 'error' | 'standby' {
+    if (state.role === 'standby') {
+      return 'standby'
+    }
+
     const timeSinceLastReconciliation = Date.now() - state.lastReconciliation.getTime()
 
     if (state.lastError && timeSinceLastReconciliation < 60000) {
@@ -299,8 +534,11 @@ export class HealthServer {
     return 'active'
   }
 
-  private runHealthChecks(): HealthStatus['checks'] {
+  private runHealthChecks(reconciliation?: ReconciliationState): HealthStatus['checks'] {
     const now = new Date().toISOString()
+    const drifted = reconciliation?.drift?.resources.length ?? 0
+    const pending = this.reconciliationManager?.getPendingChanges()?.length ?? 0
+    const dependencies = this.dependencies?.getChecks() ?? {}
 
     return {
       server: {
@@ -315,6 +553,39 @@ export class HealthServer {
           : 'Reconciliation manager not initialized',
         lastChecked: now,
       },
+      ...(reconciliation?.role === 'standby' && {
+        leader: {
+          status: 'pass',
+          message: 'Standing by while another replica holds the leader lock',
+          lastChecked: now,
+        },
+      }),
+      ...formatDependencyChecks(dependencies),
+      ...(reconciliation?.configError &&
+        dependencies.config?.status !== 'fail' && {
+          config: {
+            status: 'warn',
+            message: `${reconciliation.configError.message}; using the last good configuration`,
+            lastChecked: reconciliation.configError.failedAt.toISOString(),
+          },
+        }),
+      ...(pending > 0 && {
+        approval: {
+          status: 'warn',
+          message: `${pending} changes waiting for approval`,
+          lastChecked: now,
+        },
+      }),
+      ...(reconciliation?.drift && {
+        drift: {
+          status: drifted > 0 ? 'warn' : 'pass',
+          message:
+            drifted > 0
+              ? `${drifted} resources differ from the configuration`
+              : 'Instance matches the configuration',
+          lastChecked: reconciliation.drift.detectedAt.toISOString(),
+        },
+      }),
     }
   }
 
@@ -328,3 +599,57 @@ export class HealthServer {
     logger.info('Health status marked as healthy')
   }
 }
+
+// Hosts are compared rather than origins, so a proxy that terminates TLS does not trip it
+function isSameHost(origin: string, url: URL): boolean {
+  try {
+    return new URL(origin).host === url.host
+  } catch {
+    return false
+  }
+}
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+  })
+}
+
+// Returns undefined for anything but a non-negative integer; a missing value uses the fallback
+function parseNonNegativeInteger(value: string | null, fallback: number): number | undefined {
+  if (value === null) return fallback
+  return /^\d+$/.test(value) ? Number(value) : undefined
+}
+
+// One series per step, resource type and change type the last observe cycle found
+function driftMetrics(reconciliation?: ReconciliationState): string[] {
+  if (!reconciliation?.drift) return []
+
+  const counts = new Map<string, number>()
+  for (const { step, resource, type } of reconciliation.drift.resources) {
+    const labels = `step="${step}",resource="${resource}",type="${type}"`
+    counts.set(labels, (counts.get(labels) ?? 0) + 1)
+  }
+
+  return [
+    '',
+    '# HELP preparr_drift_resources Resources that differ from the configuration in observe mode',
+    '# TYPE preparr_drift_resources gauge',
+    ...[...counts].map(([labels, count]) => `preparr_drift_resources{${labels}} ${count}`),
+  ]
+}
+
+function formatDependencyChecks(
+  checks: ReturnType<DependencyMonitor['getChecks']>,
+): HealthStatus['checks'] {
+  return Object.fromEntries(
+    Object.entries(checks).map(([name, check]) => [
+      name,
+      { ...check, lastChecked: check.lastChecked.toISOString() },
+    ]),
+  )
+}
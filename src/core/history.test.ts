@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { PostgresClient } from '@/postgres/client'
+import type { ExecutionResult } from './engine'
+import {
+  buildHistoryRecord,
+  FileHistoryStore,
+  type NewReconciliationRecord,
+  PostgresHistoryStore,
+} from './history'
+import { Warning } from './step'
+
+const result: ExecutionResult = {
+  success: false,
+  stepResults: new Map([
+    [
+      'root-folders',
+      {
+        success: true,
+        changes: [{ type: 'create', resource: 'root-folder', identifier: '/tv' }],
+        errors: [],
+        warnings: [new Warning('Folder is empty', { path: '/tv' })],
+      },
+    ],
+    [
+      'indexers',
+      { success: false, changes: [], errors: [new Error('Nyaa unreachable')], warnings: [] },
+    ],
+  ]),
+  errors: [new Error('Nyaa unreachable')],
+  warnings: [new Warning('Folder is empty', { path: '/tv' })],
+  summary: {
+    totalSteps: 2,
+    successfulSteps: 1,
+    failedSteps: 1,
+    skippedSteps: 0,
+    totalChanges: 1,
+    criticalFailures: [],
+  },
+  duration: 120,
+}
+
+const entry = (configHash: string): NewReconciliationRecord =>
+  buildHistoryRecord({
+    cycleId: 'cycle-1',
+    startedAt: new Date(),
+    configHash,
+    mode: 'enforce',
+    triggers: ['interval'],
+    result,
+  })
+
+describe('buildHistoryRecord', () => {
+  test('keeps per-step changes, warnings and errors as plain JSON', () => {
+    const record = entry('abc')
+
+    expect(record.success).toBe(false)
+    expect(record.configHash).toBe('abc')
+    expect(record.steps).toEqual([
+      {
+        step: 'root-folders',
+        success: true,
+        skipped: false,
+        changes: [{ type: 'create', resource: 'root-folder', identifier: '/tv' }],
+        errors: [],
+        warnings: [{ message: 'Folder is empty', details: { path: '/tv' } }],
+      },
+      {
+        step: 'indexers',
+        success: false,
+        skipped: false,
+        changes: [],
+        errors: ['Nyaa unreachable'],
+        warnings: [],
+      },
+    ])
+    expect(JSON.parse(JSON.stringify(record))).toEqual(record)
+  })
+
+  test('records a cycle that failed before the engine returned', () => {
+    const record = buildHistoryRecord({
+      cycleId: null,
+      startedAt: new Date(),
+      configHash: 'abc',
+      mode: 'enforce',
+      triggers: ['startup'],
+      error: new Error('Servarr unreachable'),
+    })
+
+    expect(record).toMatchObject({ success: false, summary: null, steps: [] })
+    expect(record.errors).toEqual(['Servarr unreachable'])
+  })
+})
+
+describe('FileHistoryStore', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'preparr-history-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('lists cycles newest first and returns full records by id', async () => {
+    const store = new FileHistoryStore(join(dir, 'history.jsonl'), 10)
+    for (const hash of ['a', 'b', 'c']) {
+      await store.append(entry(hash))
+    }
+
+    const page = await store.list(2, 0)
+    expect(page.total).toBe(3)
+    expect(page.items.map((item) => [item.id, item.configHash])).toEqual([
+      [3, 'c'],
+      [2, 'b'],
+    ])
+    expect(page.items[0]).not.toHaveProperty('steps')
+
+    expect((await store.list(2, 2)).items.map((item) => item.id)).toEqual([1])
+    expect((await store.get(2))?.steps).toHaveLength(2)
+    expect(await store.get(9)).toBeUndefined()
+  })
+
+  test('trims to the retention limit and keeps ids after a restart', async () => {
+    const path = join(dir, 'nested', 'history.jsonl')
+    const store = new FileHistoryStore(path, 2)
+    for (const hash of ['a', 'b', 'c']) {
+      await store.append(entry(hash))
+    }
+
+    const reopened = new FileHistoryStore(path, 2)
+    await reopened.append(entry('d'))
+
+    const page = await reopened.list(10, 0)
+    expect(page.total).toBe(2)
+    expect(page.items.map((item) => [item.id, item.configHash])).toEqual([
+      [4, 'd'],
+      [3, 'c'],
+    ])
+  })
+})
+
+describe('PostgresHistoryStore', () => {
+  // Stored before cycle ids, reconcile modes and triggers were recorded
+  const { cycleId: _cycleId, mode: _mode, triggers: _triggers, ...older } = entry('a')
+
+  const storeWith = (records: Array<{ id: number; record: Record<string, unknown> }>) =>
+    new PostgresHistoryStore(
+      {
+        getReconciliationRecords: async () => ({ records, total: records.length }),
+        getReconciliationRecord: async (_instance: string, id: number) =>
+          records.find((row) => row.id === id),
+      } as unknown as PostgresClient,
+      'sonarr',
+      10,
+    )
+
+  test('fills fields missing from older records with their defaults', async () => {
+    const store = storeWith([{ id: 1, record: older }])
+
+    expect(await store.get(1)).toMatchObject({
+      id: 1,
+      cycleId: null,
+      mode: 'enforce',
+      triggers: [],
+      configHash: 'a',
+    })
+    expect((await store.list(10, 0)).items).toHaveLength(1)
+  })
+
+  test('skips rows that do not match the record shape', async () => {
+    const store = storeWith([
+      { id: 2, record: { ...older, success: 'yes' } },
+      { id: 1, record: older },
+    ])
+
+    expect((await store.list(10, 0)).items.map((item) => item.id)).toEqual([1])
+    expect(await store.get(2)).toBeUndefined()
+  })
+})
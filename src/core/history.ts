@@ -0,0 +1,318 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { z } from 'zod'
+import {
+  type Config,
+  PrunePolicySchema,
+  ReconcileModeSchema,
+  type ReconciliationTrigger,
+  ReconciliationTriggerSchema,
+} from '@/config/schema'
+import type { ExecutionResult, ExecutionSummary } from '@/core/engine'
+import type { ChangeRecord, Warning } from '@/core/step'
+import type { PostgresClient } from '@/postgres/client'
+import { logger } from '@/utils/logger'
+
+export interface HistoryWarning {
+  message: string
+  details?: Record<string, unknown> | undefined
+}
+
+export interface HistoryStepResult {
+  step: string
+  success: boolean
+  skipped: boolean
+  changes: ChangeRecord[]
+  errors: string[]
+  warnings: HistoryWarning[]
+}
+
+export interface ReconciliationRecord {
+  id: number
+  // Also carried by the audit entries of the cycle
+  cycleId: string | null
+  startedAt: string
+  finishedAt: string
+  duration: number
+  configHash: string
+  // Observe cycles record the drift they found; none of their changes were applied
+  mode: Config['reconcileMode']
+  // What started the cycle; triggers that arrived while a cycle ran are merged into the next
+  triggers: ReconciliationTrigger[]
+  success: boolean
+  // Null when the cycle failed before the engine returned a result
+  summary: ExecutionSummary | null
+  steps: HistoryStepResult[]
+  errors: string[]
+  warnings: HistoryWarning[]
+}
+
+export type NewReconciliationRecord = Omit<ReconciliationRecord, 'id'>
+
+// List entries leave out the per-step results, which are fetched per record
+export type ReconciliationRecordSummary = Omit<ReconciliationRecord, 'steps'>
+
+export interface HistoryPage {
+  items: ReconciliationRecordSummary[]
+  // Stored cycles, including unreadable ones that are left out of `items`
+  total: number
+}
+
+export interface HistoryStore {
+  append(record: NewReconciliationRecord): Promise<void>
+  // Newest cycles first
+  list(limit: number, offset: number): Promise<HistoryPage>
+  get(id: number): Promise<ReconciliationRecord | undefined>
+}
+
+const HistoryWarningSchema = z.object({
+  message: z.string(),
+  details: z.record(z.string(), z.unknown()).optional(),
+})
+
+// Records are stored as JSON and read back through this schema; fields added after the first
+// release default so older records still load
+const StoredRecordSchema = z.object({
+  id: z.number(),
+  cycleId: z.string().nullable().default(null),
+  startedAt: z.string(),
+  finishedAt: z.string(),
+  duration: z.number(),
+  configHash: z.string(),
+  mode: ReconcileModeSchema.default('enforce'),
+  triggers: z.array(ReconciliationTriggerSchema).default([]),
+  success: z.boolean(),
+  summary: z
+    .object({
+      totalSteps: z.number(),
+      successfulSteps: z.number(),
+      failedSteps: z.number(),
+      skippedSteps: z.number(),
+      totalChanges: z.number(),
+      criticalFailures: z.array(z.string()),
+    })
+    .nullable(),
+  steps: z.array(
+    z.object({
+      step: z.string(),
+      success: z.boolean(),
+      skipped: z.boolean(),
+      changes: z.array(
+        z.object({
+          type: z.enum(['create', 'update', 'delete', 'no-change']),
+          resource: z.string(),
+          identifier: z.string(),
+          details: z.record(z.string(), z.unknown()).exactOptional(),
+          prune: PrunePolicySchema.optional(),
+        }),
+      ),
+      errors: z.array(z.string()),
+      warnings: z.array(HistoryWarningSchema),
+    }),
+  ),
+  errors: z.array(z.string()),
+  warnings: z.array(HistoryWarningSchema),
+})
+
+const StoredSummarySchema = StoredRecordSchema.omit({ steps: true })
+
+function parseStored<T>(schema: z.ZodType<T>, value: unknown, source: string): T | undefined {
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    logger.warn('Skipping unreadable reconciliation history entry', {
+      source,
+      error: z.prettifyError(result.error),
+    })
+    return undefined
+  }
+  return result.data
+}
+
+/**
+ * Flatten a reconciliation cycle into a JSON-serializable record. Pass the error instead of a
+ * result when the cycle threw before the engine finished.
+ */
+export function buildHistoryRecord(cycle: {
+  cycleId: string | null
+  startedAt: Date
+  configHash: string
+  mode: Config['reconcileMode']
+  triggers: ReconciliationTrigger[]
+  result?: ExecutionResult | undefined
+  error?: Error | undefined
+}): NewReconciliationRecord {
+  const finishedAt = new Date()
+  const { result } = cycle
+
+  const steps: HistoryStepResult[] = [...(result?.stepResults ?? [])].map(([step, stepResult]) => ({
+    step,
+    success: stepResult.success,
+    skipped: stepResult.skipped === true,
+    changes: stepResult.changes,
+    errors: stepResult.errors.map((error) => error.message),
+    warnings: stepResult.warnings.map(toHistoryWarning),
+  }))
+
+  return {
+    cycleId: cycle.cycleId,
+    startedAt: cycle.startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    duration: finishedAt.getTime() - cycle.startedAt.getTime(),
+    configHash: cycle.configHash,
+    mode: cycle.mode,
+    triggers: cycle.triggers,
+    success: result?.success === true && !cycle.error,
+    summary: result?.summary ?? null,
+    steps,
+    errors: [
+      ...(result?.errors.map((error) => error.message) ?? []),
+      ...(cycle.error ? [cycle.error.message] : []),
+    ],
+    warnings: result?.warnings.map(toHistoryWarning) ?? [],
+  }
+}
+
+export function summarizeRecord(record: ReconciliationRecord): ReconciliationRecordSummary {
+  const { steps: _steps, ...summary } = record
+  return summary
+}
+
+function toHistoryWarning(warning: Warning): HistoryWarning {
+  return warning.details
+    ? { message: warning.message, details: warning.details }
+    : { message: warning.message }
+}
+
+/**
+ * Keeps history in the PrepArr database on the Postgres server, keyed by instance.
+ */
+export class PostgresHistoryStore implements HistoryStore {
+  constructor(
+    private postgres: PostgresClient,
+    private instance: string,
+    private retention: number,
+  ) {}
+
+  async append(record: NewReconciliationRecord): Promise<void> {
+    await this.postgres.addReconciliationRecord(
+      this.instance,
+      record.startedAt,
+      record,
+      this.retention,
+    )
+  }
+
+  async list(limit: number, offset: number): Promise<HistoryPage> {
+    const page = await this.postgres.getReconciliationRecords(this.instance, limit, offset)
+    // Unreadable rows are skipped but stay in the total, so offsets keep addressing stored rows
+    const items: ReconciliationRecordSummary[] = []
+    for (const { id, record } of page.records) {
+      const item = parseStored(StoredSummarySchema, { ...record, id }, 'postgres')
+      if (item) items.push(item)
+    }
+    return { items, total: page.total }
+  }
+
+  async get(id: number): Promise<ReconciliationRecord | undefined> {
+    const row = await this.postgres.getReconciliationRecord(this.instance, id)
+    return row
+      ? parseStored(StoredRecordSchema, { ...row.record, id: row.id }, 'postgres')
+      : undefined
+  }
+}
+
+/**
+ * Keeps history in a JSON Lines file, one cycle per line. Records are loaded once and the
+ * file is rewritten only when the retention limit trims old cycles.
+ */
+export class FileHistoryStore implements HistoryStore {
+  private records: Promise<ReconciliationRecord[]> | null = null
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(
+    private path: string,
+    private retention: number,
+  ) {}
+
+  append(entry: NewReconciliationRecord): Promise<void> {
+    // Appends are serialized so ids stay unique and trimming never races a write
+    const write = this.writes.then(async () => {
+      const records = await this.load()
+      const record: ReconciliationRecord = { id: (records.at(-1)?.id ?? 0) + 1, ...entry }
+
+      if (records.length >= this.retention) {
+        const kept = [...records.slice(records.length - this.retention + 1), record]
+        await Bun.write(this.path, kept.map((r) => `${JSON.stringify(r)}\n`).join(''))
+        records.splice(0, records.length, ...kept)
+      } else {
+        await mkdir(dirname(this.path), { recursive: true })
+        await appendFile(this.path, `${JSON.stringify(record)}\n`)
+        records.push(record)
+      }
+    })
+    this.writes = write.catch(() => undefined)
+    return write
+  }
+
+  async list(limit: number, offset: number): Promise<HistoryPage> {
+    const records = await this.load()
+    const newestFirst = [...records].reverse()
+    return {
+      items: newestFirst.slice(offset, offset + limit).map(summarizeRecord),
+      total: records.length,
+    }
+  }
+
+  async get(id: number): Promise<ReconciliationRecord | undefined> {
+    return (await this.load()).find((record) => record.id === id)
+  }
+
+  private load(): Promise<ReconciliationRecord[]> {
+    if (!this.records) {
+      this.records = this.readFile().catch((error) => {
+        this.records = null
+        throw error
+      })
+    }
+    return this.records
+  }
+
+  private async readFile(): Promise<ReconciliationRecord[]> {
+    const file = Bun.file(this.path)
+    if (!(await file.exists())) {
+      return []
+    }
+
+    const records: ReconciliationRecord[] = []
+    for (const line of (await file.text()).split('\n')) {
+      if (!line.trim()) continue
+      let value: unknown
+      try {
+        value = JSON.parse(line)
+      } catch {
+        logger.warn('Skipping unreadable reconciliation history entry', { source: this.path })
+        continue
+      }
+      const record = parseStored(StoredRecordSchema, value, this.path)
+      if (record) records.push(record)
+    }
+    return records
+  }
+}
+
+export function createHistoryStore(
+  config: Config,
+  postgres: PostgresClient,
+  instance: string,
+): HistoryStore | undefined {
+  const { store, path, retention } = config.history
+
+  switch (store) {
+    case 'postgres':
+      return new PostgresHistoryStore(postgres, instance, retention)
+    case 'file':
+      return new FileHistoryStore(path, retention)
+    case 'none':
+      return undefined
+  }
+}
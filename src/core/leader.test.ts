@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FileLeaderLock, LeaderElector, type LeaderLock } from './leader'
+
+describe('FileLeaderLock', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'preparr-leader-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('lets one replica hold the lease until it expires', async () => {
+    const path = join(dir, 'leader.lock')
+    const first = new FileLeaderLock(path, 'replica-a', 50)
+    const second = new FileLeaderLock(path, 'replica-b', 50)
+
+    expect(await first.tryAcquire()).toBe(true)
+    expect(await second.tryAcquire()).toBe(false)
+    // Renewing a held lease succeeds
+    expect(await first.tryAcquire()).toBe(true)
+
+    await Bun.sleep(60)
+    expect(await second.tryAcquire()).toBe(true)
+    expect(await first.tryAcquire()).toBe(false)
+  })
+
+  test('frees the lease on release', async () => {
+    const path = join(dir, 'leader.lock')
+    const first = new FileLeaderLock(path, 'replica-a', 60000)
+    const second = new FileLeaderLock(path, 'replica-b', 60000)
+    await first.tryAcquire()
+
+    // Only the holder can release the lease
+    await second.release()
+    expect(await second.tryAcquire()).toBe(false)
+
+    await first.release()
+    expect(await second.tryAcquire()).toBe(true)
+  })
+})
+
+describe('LeaderElector', () => {
+  const fakeLock = (outcomes: (boolean | Error)[]) => {
+    const lock: LeaderLock & { released: boolean } = {
+      kind: 'postgres',
+      released: false,
+      tryAcquire: () => {
+        const outcome = outcomes.length > 1 ? outcomes.shift() : outcomes[0]
+        return outcome instanceof Error ? Promise.reject(outcome) : Promise.resolve(!!outcome)
+      },
+      release: () => {
+        lock.released = true
+        return Promise.resolve()
+      },
+    }
+    return lock
+  }
+
+  test('takes over once the lock frees up and releases it on stop', async () => {
+    const lock = fakeLock([false, true])
+    const elector = new LeaderElector(lock, 30)
+    let elections = 0
+
+    await elector.start(() => {
+      elections++
+    })
+    expect(elector.getState()).toMatchObject({ role: 'standby', lock: 'postgres' })
+
+    await Bun.sleep(40)
+    expect(elector.isLeader()).toBe(true)
+    expect(elections).toBe(1)
+
+    await elector.stop()
+    expect(elector.isLeader()).toBe(false)
+    expect(lock.released).toBe(true)
+  })
+
+  test('steps down when the lock cannot be renewed', async () => {
+    const elector = new LeaderElector(fakeLock([true, new Error('connection lost')]), 30)
+
+    await elector.start(() => undefined)
+    expect(elector.isLeader()).toBe(true)
+
+    await Bun.sleep(40)
+    expect(elector.isLeader()).toBe(false)
+    await elector.stop()
+  })
+})
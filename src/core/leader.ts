@@ -0,0 +1,218 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, rename, rm } from 'node:fs/promises'
+import { hostname } from 'node:os'
+import { dirname } from 'node:path'
+import type { Config, LeaderElectionConfig } from '@/config/schema'
+import type { PostgresClient } from '@/postgres/client'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+export type LeaderRole = 'leader' | 'standby'
+
+export interface LeaderState {
+  role: LeaderRole
+  lock: LeaderElectionConfig['lock']
+  since: Date
+}
+
+export interface LeaderLock {
+  readonly kind: LeaderElectionConfig['lock']
+  // Take the lock, or renew it when this replica already holds it
+  tryAcquire(): Promise<boolean>
+  release(): Promise<void>
+}
+
+/**
+ * Session advisory lock in the PrepArr database. It is held as long as its connection lives, so
+ * a follower takes over as soon as the leader's connection is gone.
+ */
+export class PostgresLeaderLock implements LeaderLock {
+  readonly kind = 'postgres'
+
+  constructor(
+    private postgres: PostgresClient,
+    private name: string,
+  ) {}
+
+  tryAcquire(): Promise<boolean> {
+    return this.postgres.tryAdvisoryLock(this.name)
+  }
+
+  release(): Promise<void> {
+    this.postgres.releaseAdvisoryLocks()
+    return Promise.resolve()
+  }
+}
+
+interface FileLease {
+  holder: string
+  expiresAt: string
+}
+
+/**
+ * Lease kept in a file on a volume every replica mounts. The holder renews it before it
+ * expires; once it has expired any replica may take it.
+ */
+export class FileLeaderLock implements LeaderLock {
+  readonly kind = 'file'
+  private readonly temporaryPath: string
+
+  constructor(
+    private path: string,
+    private holder: string,
+    private leaseMs: number,
+  ) {
+    this.temporaryPath = `${path}.${randomUUID()}.tmp`
+  }
+
+  async tryAcquire(): Promise<boolean> {
+    const lease = await this.read()
+    if (lease && lease.holder !== this.holder && Date.parse(lease.expiresAt) > Date.now()) {
+      return false
+    }
+
+    const renewed: FileLease = {
+      holder: this.holder,
+      expiresAt: new Date(Date.now() + this.leaseMs).toISOString(),
+    }
+    await mkdir(dirname(this.path), { recursive: true })
+    await Bun.write(this.temporaryPath, JSON.stringify(renewed))
+    await rename(this.temporaryPath, this.path)
+
+    // Two replicas can take an expired lease at the same moment; the last write wins
+    return (await this.read())?.holder === this.holder
+  }
+
+  async release(): Promise<void> {
+    if ((await this.read())?.holder === this.holder) {
+      await rm(this.path, { force: true })
+    }
+  }
+
+  private async read(): Promise<FileLease | undefined> {
+    const file = Bun.file(this.path)
+    if (!(await file.exists())) {
+      return undefined
+    }
+
+    try {
+      return (await file.json()) as FileLease
+    } catch {
+      // A lease that cannot be read is free to take
+      return undefined
+    }
+  }
+}
+
+/**
+ * Campaigns for the leader lock every third of the lease. A replica that cannot renew the
+ * lock steps down right away rather than risk reconciling next to a new leader.
+ */
+export class LeaderElector {
+  private role: LeaderRole = 'standby'
+  private since = new Date()
+  private timer: NodeJS.Timeout | undefined = undefined
+  private campaigning = false
+
+  constructor(
+    private lock: LeaderLock,
+    private leaseMs: number,
+  ) {}
+
+  /**
+   * Run the first election, then keep campaigning. `onElected` runs whenever this replica takes
+   * over from another one later on.
+   */
+  async start(onElected: () => void): Promise<void> {
+    await this.campaign()
+    if (this.role === 'standby') {
+      logger.info('Another replica holds the leader lock, standing by', { lock: this.lock.kind })
+    }
+
+    this.timer = setInterval(() => this.campaign(onElected), this.leaseMs / 3)
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+
+    if (this.role === 'leader') {
+      this.setRole('standby')
+      try {
+        await this.lock.release()
+        logger.info('Leader lock released', { lock: this.lock.kind })
+      } catch (error) {
+        logger.warn('Failed to release the leader lock', { error: toError(error).message })
+      }
+    }
+  }
+
+  isLeader(): boolean {
+    return this.role === 'leader'
+  }
+
+  getState(): LeaderState {
+    return { role: this.role, lock: this.lock.kind, since: this.since }
+  }
+
+  private async campaign(onElected?: () => void): Promise<void> {
+    // A slow lock backend must not stack up renewals
+    if (this.campaigning) return
+    this.campaigning = true
+
+    try {
+      const acquired = await this.lock.tryAcquire()
+
+      if (acquired && this.role === 'standby') {
+        this.setRole('leader')
+        logger.info('Elected leader, this replica reconciles', { lock: this.lock.kind })
+        onElected?.()
+      } else if (!acquired && this.role === 'leader') {
+        this.setRole('standby')
+        logger.warn('Leader lock taken by another replica, standing by', { lock: this.lock.kind })
+      }
+    } catch (error) {
+      if (this.role === 'leader') {
+        this.setRole('standby')
+        logger.warn('Failed to renew the leader lock, standing by', {
+          lock: this.lock.kind,
+          error: toError(error).message,
+        })
+      } else {
+        logger.debug('Failed to acquire the leader lock', { error: toError(error).message })
+      }
+    } finally {
+      this.campaigning = false
+    }
+  }
+
+  private setRole(role: LeaderRole): void {
+    this.role = role
+    this.since = new Date()
+  }
+}
+
+export function createLeaderElector(
+  config: Config,
+  postgres: PostgresClient,
+  instance: string,
+): LeaderElector | undefined {
+  const { enabled, lock, path, leaseDuration } = config.leaderElection
+  if (!enabled) return undefined
+
+  const leaseMs = leaseDuration * 1000
+  switch (lock) {
+    case 'postgres':
+      return new LeaderElector(
+        new PostgresLeaderLock(postgres, `preparr-leader:${instance}`),
+        leaseMs,
+      )
+    case 'file':
+      return new LeaderElector(
+        new FileLeaderLock(path, `${hostname()}-${randomUUID().slice(0, 8)}`, leaseMs),
+        leaseMs,
+      )
+  }
+}
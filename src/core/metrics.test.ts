@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'bun:test'
+import type { ExecutionResult } from './engine'
+import { MetricsRegistry, ReconciliationMetrics } from './metrics'
+import type { StepResult } from './step'
+
+const stepResult = (overrides: Partial<StepResult>): StepResult => ({
+  success: true,
+  changes: [],
+  errors: [],
+  warnings: [],
+  duration: 300,
+  ...overrides,
+})
+
+const cycle = (success: boolean, steps: [string, StepResult][]): ExecutionResult => ({
+  success,
+  stepResults: new Map(steps),
+  errors: [],
+  warnings: [],
+  summary: {
+    totalSteps: steps.length,
+    successfulSteps: steps.filter(([, result]) => result.success).length,
+    failedSteps: steps.filter(([, result]) => !result.success).length,
+    skippedSteps: 0,
+    totalChanges: 0,
+    criticalFailures: [],
+  },
+  duration: 1000,
+})
+
+describe('MetricsRegistry', () => {
+  test('renders counters, gauges and cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry()
+    registry.counter('test_total', 'Things counted')
+    registry.gauge('test_up', 'Whether it is up').set({ service: 'say "hi"' }, 1)
+    const histogram = registry.histogram('test_seconds', 'Durations', [0.1, 1])
+    histogram.observe({ step: 'tags' }, 0.05)
+    histogram.observe({ step: 'tags' }, 0.5)
+
+    expect(registry.render()).toEqual([
+      '',
+      '# HELP test_total Things counted',
+      '# TYPE test_total counter',
+      'test_total 0',
+      '',
+      '# HELP test_up Whether it is up',
+      '# TYPE test_up gauge',
+      'test_up{service="say \\"hi\\""} 1',
+      '',
+      '# HELP test_seconds Durations',
+      '# TYPE test_seconds histogram',
+      'test_seconds_bucket{step="tags",le="0.1"} 1',
+      'test_seconds_bucket{step="tags",le="1"} 2',
+      'test_seconds_bucket{step="tags",le="+Inf"} 2',
+      'test_seconds_sum{step="tags"} 0.55',
+      'test_seconds_count{step="tags"} 2',
+    ])
+  })
+})
+
+describe('ReconciliationMetrics', () => {
+  test('counts failed cycles without resetting them on recovery', () => {
+    const metrics = new ReconciliationMetrics()
+    metrics.recordCycle(cycle(false, []), 'enforce')
+    metrics.recordCycleError()
+    metrics.recordCycle(cycle(true, []), 'enforce')
+
+    const lines = metrics.render()
+    expect(lines).toContain('preparr_reconciliation_total 3')
+    expect(lines).toContain('preparr_reconciliation_errors_total 2')
+    expect(
+      lines.some((line) =>
+        line.startsWith('preparr_reconciliation_last_success_timestamp_seconds '),
+      ),
+    ).toBe(true)
+  })
+
+  test('records step durations, failures, applied changes and service reachability', () => {
+    const metrics = new ReconciliationMetrics()
+    metrics.recordCycle(
+      cycle(false, [
+        ['servarr-connectivity', stepResult({})],
+        [
+          'qbittorrent-connectivity',
+          stepResult({
+            success: false,
+            changes: [{ type: 'update', resource: 'qbittorrent-connection', identifier: 'login' }],
+          }),
+        ],
+        ['bazarr-connectivity', stepResult({ skipped: true })],
+        [
+          'tags',
+          stepResult({
+            changes: [
+              { type: 'create', resource: 'tag', identifier: 'anime' },
+              { type: 'create', resource: 'tag', identifier: '4k' },
+              { type: 'no-change', resource: 'tag', identifier: 'hd' },
+            ],
+          }),
+        ],
+      ]),
+      'enforce',
+    )
+
+    const lines = metrics.render()
+    expect(lines).toContain('preparr_step_duration_seconds_count{step="tags"} 1')
+    expect(lines).toContain('preparr_step_duration_seconds_bucket{step="tags",le="0.25"} 0')
+    expect(lines).toContain('preparr_step_duration_seconds_bucket{step="tags",le="0.5"} 1')
+    expect(lines).toContain('preparr_step_failures_total{step="qbittorrent-connectivity"} 1')
+    expect(lines).toContain(
+      'preparr_changes_applied_total{step="tags",resource="tag",type="create"} 2',
+    )
+    expect(lines).toContain('preparr_service_up{service="servarr"} 1')
+    expect(lines).toContain('preparr_service_up{service="qbittorrent"} 0')
+    expect(lines.some((line) => line.includes('bazarr'))).toBe(false)
+    expect(lines.some((line) => line.includes('type="no-change"'))).toBe(false)
+  })
+
+  test('does not count planned changes of observe cycles as applied', () => {
+    const metrics = new ReconciliationMetrics()
+    metrics.recordCycle(
+      cycle(true, [
+        [
+          'servarr-connectivity',
+          stepResult({
+            changes: [{ type: 'update', resource: 'servarr-connection', identifier: 'api' }],
+          }),
+        ],
+        ['tags', stepResult({ changes: [{ type: 'create', resource: 'tag', identifier: 'x' }] })],
+      ]),
+      'observe',
+    )
+
+    const lines = metrics.render()
+    expect(lines).toContain('preparr_service_up{service="servarr"} 0')
+    expect(lines.some((line) => line.startsWith('preparr_changes_applied_total{'))).toBe(false)
+  })
+})
@@ -0,0 +1,242 @@
+import type { Config } from '@/config/schema'
+import type { ExecutionResult } from '@/core/engine'
+
+type Labels = Record<string, string>
+
+// Step durations range from a cached read to a full quality profile sync
+const STEP_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+
+// The connectivity step whose outcome tells whether a service is reachable
+const SERVICE_CHECKS: Record<string, string> = {
+  'postgres-connectivity': 'postgres',
+  'servarr-connectivity': 'servarr',
+  'qbittorrent-connectivity': 'qbittorrent',
+  'bazarr-connectivity': 'bazarr',
+}
+
+abstract class Metric {
+  protected abstract readonly type: 'counter' | 'gauge' | 'histogram'
+
+  constructor(
+    readonly name: string,
+    private help: string,
+  ) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ]
+  }
+
+  protected abstract samples(): string[]
+}
+
+// A value per label set
+abstract class ValueMetric extends Metric {
+  protected values = new Map<string, number>()
+
+  protected samples(): string[] {
+    return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`)
+  }
+}
+
+export class Counter extends ValueMetric {
+  protected readonly type = 'counter'
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    super(name, help)
+    // Counters without labels are exported at zero before their first increment
+    if (labelNames.length === 0) {
+      this.values.set('', 0)
+    }
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + value)
+  }
+}
+
+export class Gauge extends ValueMetric {
+  protected readonly type = 'gauge'
+
+  set(labels: Labels, value: number): void {
+    this.values.set(formatLabels(labels), value)
+  }
+}
+
+export class Histogram extends Metric {
+  protected readonly type = 'histogram'
+  private series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >()
+
+  constructor(
+    name: string,
+    help: string,
+    private buckets: number[],
+  ) {
+    super(name, help)
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels)
+    const series = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index] = (series.counts[index] ?? 0) + 1
+    })
+    series.sum += value
+    series.count++
+    this.series.set(key, series)
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ])
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = []
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames))
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  /**
+   * Prometheus text exposition lines, one block per metric.
+   */
+  render(): string[] {
+    return this.metrics.flatMap((metric) => ['', ...metric.render()])
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric)
+    return metric
+  }
+}
+
+/**
+ * Metrics of the reconciliation cycles this process ran. Counters only ever grow; they reset
+ * when the process restarts, which Prometheus' `rate` and `increase` account for.
+ */
+export class ReconciliationMetrics {
+  private registry = new MetricsRegistry()
+  private cycles = this.registry.counter(
+    'preparr_reconciliation_total',
+    'Total number of reconciliation cycles',
+  )
+  private cycleErrors = this.registry.counter(
+    'preparr_reconciliation_errors_total',
+    'Total number of failed reconciliation cycles',
+  )
+  private lastSuccess = this.registry.gauge(
+    'preparr_reconciliation_last_success_timestamp_seconds',
+    'Unix time of the last successful reconciliation cycle',
+  )
+  private stepDuration = this.registry.histogram(
+    'preparr_step_duration_seconds',
+    'Duration of reconciliation steps',
+    STEP_DURATION_BUCKETS,
+  )
+  private stepFailures = this.registry.counter(
+    'preparr_step_failures_total',
+    'Total number of failed reconciliation steps',
+    ['step'],
+  )
+  private changes = this.registry.counter(
+    'preparr_changes_applied_total',
+    'Total number of changes applied to the instance',
+    ['step', 'resource', 'type'],
+  )
+  private configReloadFailures = this.registry.counter(
+    'preparr_config_reload_failures_total',
+    'Total number of configurations that failed to load or apply',
+  )
+  private serviceUp = this.registry.gauge(
+    'preparr_service_up',
+    'Whether a service was reachable in the last cycle that checked it (1) or not (0)',
+  )
+
+  /**
+   * Record a finished cycle. Observe cycles only plan, so their changes are not counted.
+   */
+  recordCycle(result: ExecutionResult, mode: Config['reconcileMode']): void {
+    this.cycles.inc()
+    if (result.success) {
+      this.lastSuccess.set({}, Date.now() / 1000)
+    } else {
+      this.cycleErrors.inc()
+    }
+
+    for (const [step, stepResult] of result.stepResults) {
+      // Skipped steps do not apply to this instance
+      if (stepResult.skipped) continue
+
+      if (stepResult.duration !== undefined) {
+        this.stepDuration.observe({ step }, stepResult.duration / 1000)
+      }
+
+      if (!stepResult.success) {
+        this.stepFailures.inc({ step })
+      } else if (mode === 'enforce') {
+        for (const { type, resource } of stepResult.changes) {
+          if (type !== 'no-change') this.changes.inc({ step, resource, type })
+        }
+      }
+
+      const service = SERVICE_CHECKS[step]
+      if (service) {
+        // A connectivity step plans a reconnect when the service is down
+        const reachable = mode === 'enforce' || stepResult.changes.length === 0
+        this.serviceUp.set({ service }, stepResult.success && reachable ? 1 : 0)
+      }
+    }
+  }
+
+  // A cycle that failed before producing a result
+  recordCycleError(): void {
+    this.cycles.inc()
+    this.cycleErrors.inc()
+  }
+
+  recordConfigReloadFailure(): void {
+    this.configReloadFailures.inc()
+  }
+
+  render(): string[] {
+    return this.registry.render()
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n')}"`,
+  )
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
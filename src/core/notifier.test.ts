@@ -0,0 +1,114 @@
+import type { Mock } from 'bun:test'
+import { afterEach, describe, expect, mock, test } from 'bun:test'
+import { ConfigSchema } from '@/config/schema'
+import type { ExecutionResult } from './engine'
+import { buildNotification, formatPayload, sendNotification } from './notifier'
+
+const configWith = (webhooks: unknown[]) =>
+  ConfigSchema.parse({
+    postgres: { password: 'postgres' },
+    servarr: { type: 'sonarr', url: 'http://sonarr:8989', adminPassword: 'admin' },
+    notifications: { webhooks },
+  })
+
+const result: ExecutionResult = {
+  success: false,
+  stepResults: new Map([
+    [
+      'download-clients',
+      {
+        success: true,
+        changes: [
+          { type: 'update', resource: 'download-client', identifier: 'qBittorrent' },
+          { type: 'no-change', resource: 'download-client', identifier: 'SABnzbd' },
+        ],
+        errors: [],
+        warnings: [],
+      },
+    ],
+  ]),
+  errors: [new Error('Servarr API unreachable')],
+  warnings: [],
+  summary: {
+    totalSteps: 2,
+    successfulSteps: 1,
+    failedSteps: 1,
+    skippedSteps: 0,
+    totalChanges: 1,
+    criticalFailures: ['servarr-connectivity'],
+  },
+  duration: 40,
+}
+
+describe('notification payloads', () => {
+  const notification = buildNotification('abort', configWith([]), { result })
+
+  test('include the summary and applied changes', () => {
+    expect(notification).toMatchObject({
+      event: 'abort',
+      instance: 'http://sonarr:8989',
+      message:
+        'PrepArr reconciliation of http://sonarr:8989 aborted: critical step servarr-connectivity failed',
+      summary: result.summary,
+      changes: [
+        {
+          step: 'download-clients',
+          type: 'update',
+          resource: 'download-client',
+          identifier: 'qBittorrent',
+        },
+      ],
+      errors: ['Servarr API unreachable'],
+    })
+
+    expect(JSON.parse(formatPayload('json', notification).body)).toEqual(
+      JSON.parse(JSON.stringify(notification)),
+    )
+  })
+
+  test('render chat formats as text', () => {
+    const text = [
+      notification.message,
+      'Steps: 1 succeeded, 1 failed, 0 skipped',
+      '~ download-client qBittorrent',
+      '! Servarr API unreachable',
+    ].join('\n')
+
+    expect(JSON.parse(formatPayload('discord', notification).body)).toEqual({ content: text })
+    expect(JSON.parse(formatPayload('slack', notification).body)).toEqual({ text })
+
+    const ntfy = formatPayload('ntfy', notification)
+    expect(ntfy.body).toBe(text.split('\n').slice(1).join('\n'))
+    expect(ntfy.headers).toMatchObject({ Title: notification.message, Priority: 'high' })
+  })
+})
+
+describe('sendNotification', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test('posts only to webhooks subscribed to the event and survives delivery failures', async () => {
+    const fetchMock = mock((input: RequestInfo | URL) =>
+      input.toString().includes('discord')
+        ? Promise.reject(new Error('connection reset'))
+        : Promise.resolve(new Response('ok')),
+    ) as Mock<typeof fetch>
+    globalThis.fetch = fetchMock as typeof fetch
+
+    const config = configWith([
+      { url: 'https://discord.com/api/webhooks/1/secret', format: 'discord' },
+      { url: 'https://ntfy.sh/preparr', format: 'ntfy', events: ['failure', 'abort'] },
+      { url: 'https://hooks.example.com/preparr', events: ['recovery'] },
+    ])
+
+    await sendNotification(config, buildNotification('abort', config, { result }))
+
+    expect(fetchMock.mock.calls.map(([input]) => input.toString())).toEqual([
+      'https://discord.com/api/webhooks/1/secret',
+      'https://ntfy.sh/preparr',
+    ])
+  })
+})
@@ -0,0 +1,168 @@
+import type { Config, NotificationWebhook, ReconciliationEvent } from '@/config/schema'
+import type { ExecutionResult, ExecutionSummary } from '@/core/engine'
+import { changeSymbols, listChanges, type StepChange } from '@/core/plan'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+export interface ReconciliationNotification {
+  event: ReconciliationEvent
+  instance: string
+  timestamp: string
+  message: string
+  summary: ExecutionSummary | null
+  changes: StepChange[]
+  errors: string[]
+}
+
+// Chat messages list at most this many changes and errors
+const MAX_LISTED_CHANGES = 20
+const MAX_LISTED_ERRORS = 5
+const DISCORD_MESSAGE_LIMIT = 2000
+const WEBHOOK_TIMEOUT_MS = 10000
+
+const ntfyTags: Record<ReconciliationEvent, string> = {
+  changes: 'gear',
+  failure: 'warning',
+  recovery: 'white_check_mark',
+  abort: 'rotating_light',
+}
+
+export function buildNotification(
+  event: ReconciliationEvent,
+  config: Config,
+  cycle: { result?: ExecutionResult | undefined; error?: Error | undefined },
+): ReconciliationNotification {
+  const instance = config.servarr.url || config.servarr.type
+  const changes = cycle.result ? listChanges(cycle.result) : []
+  const criticalFailures = cycle.result?.summary.criticalFailures ?? []
+
+  const messages: Record<ReconciliationEvent, string> = {
+    changes: `PrepArr applied ${changes.length} changes to ${instance}`,
+    failure: `PrepArr reconciliation of ${instance} failed`,
+    recovery: `PrepArr reconciliation of ${instance} recovered`,
+    abort: `PrepArr reconciliation of ${instance} aborted: critical step ${criticalFailures.join(', ')} failed`,
+  }
+
+  return {
+    event,
+    instance,
+    timestamp: new Date().toISOString(),
+    message: messages[event],
+    summary: cycle.result?.summary ?? null,
+    changes,
+    errors: [
+      ...(cycle.result?.errors.map((error) => error.message) ?? []),
+      ...(cycle.error ? [cycle.error.message] : []),
+    ],
+  }
+}
+
+/**
+ * Send a notification to every configured webhook subscribed to its event. Delivery failures
+ * are logged and never fail the cycle.
+ */
+export async function sendNotification(
+  config: Config,
+  notification: ReconciliationNotification,
+): Promise<void> {
+  const webhooks = config.notifications.webhooks.filter((webhook) =>
+    webhook.events.includes(notification.event),
+  )
+
+  await Promise.all(webhooks.map((webhook) => deliver(webhook, notification)))
+}
+
+async function deliver(
+  webhook: NotificationWebhook,
+  notification: ReconciliationNotification,
+): Promise<void> {
+  // Webhook URLs carry their credentials, so only the host is logged
+  const host = new URL(webhook.url).host
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      ...formatPayload(webhook.format, notification),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${await response.text()}`)
+    }
+    logger.debug('Notification sent', { event: notification.event, host })
+  } catch (error) {
+    logger.warn('Failed to send notification', {
+      event: notification.event,
+      format: webhook.format,
+      host,
+      error: toError(error).message,
+    })
+  }
+}
+
+export function formatPayload(
+  format: NotificationWebhook['format'],
+  notification: ReconciliationNotification,
+): { body: string; headers: Record<string, string> } {
+  const json = { 'Content-Type': 'application/json' }
+
+  switch (format) {
+    case 'json':
+      return { body: JSON.stringify(notification), headers: json }
+    case 'discord':
+      return {
+        body: JSON.stringify({
+          content: truncate(formatText(notification), DISCORD_MESSAGE_LIMIT),
+        }),
+        headers: json,
+      }
+    case 'slack':
+      return { body: JSON.stringify({ text: formatText(notification) }), headers: json }
+    case 'ntfy':
+      return {
+        body: formatText(notification, false),
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          Title: notification.message,
+          Tags: ntfyTags[notification.event],
+          Priority:
+            notification.event === 'failure' || notification.event === 'abort' ? 'high' : 'default',
+        },
+      }
+  }
+}
+
+/**
+ * Plain-text rendering for chat webhooks: the message, a summary line, then the changes and
+ * errors in the same notation as the plan output.
+ */
+export function formatText(notification: ReconciliationNotification, withMessage = true): string {
+  const lines: string[] = withMessage ? [notification.message] : []
+  const { summary, changes, errors } = notification
+
+  if (summary) {
+    lines.push(
+      `Steps: ${summary.successfulSteps} succeeded, ${summary.failedSteps} failed, ${summary.skippedSteps} skipped`,
+    )
+  }
+
+  for (const change of changes.slice(0, MAX_LISTED_CHANGES)) {
+    lines.push(`${changeSymbols[change.type]} ${change.resource} ${change.identifier}`)
+  }
+  if (changes.length > MAX_LISTED_CHANGES) {
+    lines.push(`... and ${changes.length - MAX_LISTED_CHANGES} more changes`)
+  }
+
+  for (const error of errors.slice(0, MAX_LISTED_ERRORS)) {
+    lines.push(`! ${error}`)
+  }
+  if (errors.length > MAX_LISTED_ERRORS) {
+    lines.push(`... and ${errors.length - MAX_LISTED_ERRORS} more errors`)
+  }
+
+  return lines.join('\n')
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length <= limit ? text : `${text.slice(0, limit - 1)}…`
+}
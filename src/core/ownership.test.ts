@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test'
+import type { Config } from '@/config/schema'
+import type { PostgresClient } from '@/postgres/client'
+import type { ServarrManager } from '@/servarr/client'
+import { OwnershipStore, prunePolicyFor } from './ownership'
+import { type ChangeRecord, ServarrStep, type StepContext, type StepResult } from './step'
+
+const configWith = (prune?: Config['app']['prune']) => ({ app: { prune } }) as Config
+
+const postgresWith = (records: Array<{ resource: string; identifier: string }>) =>
+  ({
+    getManagedResources: () => Promise.resolve(records),
+    addManagedResource: (_instance: string, resource: string, identifier: string) => {
+      records.push({ resource, identifier })
+      return Promise.resolve()
+    },
+    removeManagedResource: () => Promise.resolve(),
+  }) as unknown as PostgresClient
+
+class UnlistedTagsStep extends ServarrStep<string[]> {
+  readonly name = 'tags'
+  readonly description = 'Test step'
+  readonly dependencies: string[] = []
+  readonly mode = 'sidecar' as const
+
+  validatePrerequisites(): boolean {
+    return true
+  }
+  readCurrentState(): Promise<string[]> {
+    return Promise.resolve(['anime', 'old', 'manual'])
+  }
+  protected getDesiredState(): string[] {
+    return ['anime']
+  }
+  compareAndPlan(current: string[], desired: string[]): ChangeRecord[] {
+    return current
+      .filter((label) => !desired.includes(label))
+      .map((label) => ({ type: 'delete', resource: 'tag', identifier: label }))
+  }
+  executeChanges(): Promise<StepResult> {
+    return Promise.resolve({ success: true, changes: [], errors: [], warnings: [] })
+  }
+  verifySuccess(): Promise<boolean> {
+    return Promise.resolve(true)
+  }
+}
+
+describe('prunePolicyFor', () => {
+  test('uses the resource type policy, then the default, then managed', () => {
+    const config = configWith({ default: 'all', rootFolders: 'none' })
+
+    expect(prunePolicyFor(config, 'root-folder')).toBe('none')
+    expect(prunePolicyFor(config, 'indexer')).toBe('all')
+    expect(prunePolicyFor(configWith(), 'indexer')).toBe('managed')
+  })
+})
+
+describe('OwnershipStore', () => {
+  test('matches identifiers regardless of case and trailing slashes', async () => {
+    const store = new OwnershipStore(postgresWith([]), 'http://sonarr:8989')
+
+    await store.recordCreated('root-folder', '/TV/')
+    await store.recordCreated('tag', 'Anime')
+
+    expect(await store.isOwned('root-folder', '/tv')).toBe(true)
+    expect(await store.isOwned('tag', 'anime')).toBe(true)
+    expect(await store.isOwned('tag', 'manual')).toBe(false)
+  })
+
+  test('reports unknown ownership when records cannot be read', async () => {
+    const postgres = {
+      getManagedResources: () => Promise.reject(new Error('connection refused')),
+    } as unknown as PostgresClient
+
+    expect(await new OwnershipStore(postgres, 'sonarr').isOwned('tag', 'anime')).toBeUndefined()
+  })
+})
+
+describe('ServarrStep prune policy', () => {
+  const planWith = async (prune: Config['app']['prune'], owned: string[]) => {
+    const context = {
+      config: configWith(prune),
+      servarrClient: {} as ServarrManager,
+      ownership: new OwnershipStore(
+        postgresWith(owned.map((identifier) => ({ resource: 'tag', identifier }))),
+        'sonarr',
+      ),
+    } as StepContext
+    const result = await new UnlistedTagsStep().plan(context)
+    return result.changes.map((c) => [c.type, c.identifier, c.prune, c.details?.retained])
+  }
+
+  test('only deletes resources PrepArr created under the managed policy', async () => {
+    expect(await planWith(undefined, ['old'])).toEqual([
+      ['delete', 'old', 'managed', undefined],
+      ['no-change', 'manual', 'managed', 'not created by PrepArr'],
+    ])
+  })
+
+  test('deletes every unlisted resource under all and none under none', async () => {
+    expect(await planWith({ default: 'all' }, [])).toEqual([
+      ['delete', 'old', 'all', undefined],
+      ['delete', 'manual', 'all', undefined],
+    ])
+    expect(await planWith({ default: 'managed', tags: 'none' }, ['old'])).toEqual([
+      ['no-change', 'old', 'none', 'prune policy is none'],
+      ['no-change', 'manual', 'none', 'prune policy is none'],
+    ])
+  })
+})
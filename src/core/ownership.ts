@@ -0,0 +1,97 @@
+import type { Config, PruneConfig, PrunePolicy } from '@/config/schema'
+import type { PostgresClient } from '@/postgres/client'
+import { logger } from '@/utils/logger'
+
+// Change record resource types and the app config key their prune policy is set under
+const pruneConfigKeys: Record<string, Exclude<keyof PruneConfig, 'default'>> = {
+  tag: 'tags',
+  'root-folder': 'rootFolders',
+  'quality-profile': 'qualityProfiles',
+  indexer: 'indexers',
+  'download-client': 'downloadClients',
+  application: 'applications',
+  notification: 'notifications',
+  'custom-format': 'customFormats',
+  'release-profile': 'releaseProfiles',
+  'delay-profile': 'delayProfiles',
+  'import-list': 'importLists',
+  'import-list-exclusion': 'importListExclusions',
+  'remote-path-mapping': 'remotePathMappings',
+}
+
+export function prunePolicyFor(config: Config, resource: string): PrunePolicy {
+  const prune = config.app?.prune
+  const key = pruneConfigKeys[resource]
+  return (key && prune?.[key]) ?? prune?.default ?? 'managed'
+}
+
+/**
+ * Tracks which resources PrepArr created in an instance, so the `managed` prune policy only
+ * deletes those. Records are loaded once and kept in sync as resources are created and deleted.
+ */
+export class OwnershipStore {
+  private owned: Promise<Set<string>> | null = null
+
+  constructor(
+    private postgres: PostgresClient,
+    private instance: string,
+  ) {}
+
+  /**
+   * Returns undefined when ownership cannot be read, in which case nothing should be pruned.
+   */
+  async isOwned(resource: string, identifier: string): Promise<boolean | undefined> {
+    try {
+      return (await this.load()).has(ownershipKey(resource, identifier))
+    } catch (error) {
+      logger.warn('Failed to read managed resources, keeping unlisted resources', { error })
+      this.owned = null
+      return undefined
+    }
+  }
+
+  async recordCreated(resource: string, identifier: string): Promise<void> {
+    try {
+      await this.postgres.addManagedResource(this.instance, resource, normalize(identifier))
+      const owned = await this.load()
+      owned.add(ownershipKey(resource, identifier))
+    } catch (error) {
+      logger.warn('Failed to record managed resource', { resource, identifier, error })
+    }
+  }
+
+  async recordDeleted(resource: string, identifier: string): Promise<void> {
+    try {
+      await this.postgres.removeManagedResource(this.instance, resource, normalize(identifier))
+      const owned = await this.load()
+      owned.delete(ownershipKey(resource, identifier))
+    } catch (error) {
+      logger.warn('Failed to remove managed resource', { resource, identifier, error })
+    }
+  }
+
+  private load(): Promise<Set<string>> {
+    if (!this.owned) {
+      this.owned = this.postgres
+        .getManagedResources(this.instance)
+        .then(
+          (records) =>
+            new Set(records.map((record) => ownershipKey(record.resource, record.identifier))),
+        )
+    }
+    return this.owned
+  }
+}
+
+function ownershipKey(resource: string, identifier: string): string {
+  return `${resource}\u0000${normalize(identifier)}`
+}
+
+// Servarr lowercases tag labels and may report paths with a trailing slash, so identifiers
+// from the config and from the instance are compared in a normalized form
+function normalize(identifier: string): string {
+  return identifier
+    .trim()
+    .replace(/(.)\/+$/, '$1')
+    .toLowerCase()
+}
@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test'
+import type { ExecutionResult } from './engine'
+import { buildPlanReport, formatPlan } from './plan'
+import type { StepResult } from './step'
+
+const planResult = (stepResults: [string, StepResult][]): ExecutionResult => ({
+  success: true,
+  stepResults: new Map(stepResults),
+  errors: [],
+  warnings: [],
+  summary: {
+    totalSteps: stepResults.length,
+    successfulSteps: stepResults.length,
+    failedSteps: 0,
+    skippedSteps: 0,
+    totalChanges: 0,
+    criticalFailures: [],
+  },
+  duration: 5,
+})
+
+describe('plan formatting', () => {
+  const result = planResult([
+    ['servarr-connectivity', { success: true, changes: [], errors: [], warnings: [] }],
+    [
+      'root-folders',
+      {
+        success: true,
+        changes: [
+          { type: 'create', resource: 'root-folder', identifier: '/tv' },
+          { type: 'delete', resource: 'root-folder', identifier: '/old' },
+        ],
+        errors: [],
+        warnings: [],
+      },
+    ],
+    [
+      'quality-profiles',
+      {
+        success: true,
+        changes: [
+          {
+            type: 'update',
+            resource: 'quality-profile',
+            identifier: 'HD-1080p',
+            details: { changedFields: ['cutoff', 'items'] },
+          },
+        ],
+        errors: [],
+        warnings: [],
+      },
+    ],
+  ])
+
+  test('groups changes by step and counts them by type', () => {
+    const report = buildPlanReport(result)
+
+    expect(report.totals).toEqual({ create: 1, update: 1, delete: 1 })
+    expect(report.steps.map((s) => [s.step, s.changes.length])).toEqual([
+      ['servarr-connectivity', 0],
+      ['root-folders', 2],
+      ['quality-profiles', 1],
+    ])
+  })
+
+  test('renders a human-readable diff that omits steps without changes', () => {
+    const text = formatPlan(result, 'text')
+
+    expect(text).toBe(
+      [
+        'Plan: 1 to create, 1 to update, 1 to delete',
+        '',
+        'root-folders',
+        '  + root-folder /tv',
+        '  - root-folder /old',
+        '',
+        'quality-profiles',
+        '  ~ quality-profile HD-1080p',
+        '      changed: cutoff, items',
+      ].join('\n'),
+    )
+  })
+
+  test('reports when there is nothing to change', () => {
+    const text = formatPlan(planResult([]), 'text')
+    expect(text).toContain('No changes.')
+    expect(JSON.parse(formatPlan(planResult([]), 'json')).totals).toEqual({
+      create: 0,
+      update: 0,
+      delete: 0,
+    })
+  })
+})
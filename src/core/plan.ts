@@ -0,0 +1,119 @@
+import type { ExecutionResult } from './engine'
+import type { ChangeRecord } from './step'
+
+export type PlanFormat = 'text' | 'json'
+
+export interface StepPlan {
+  step: string
+  skipped: boolean
+  changes: ChangeRecord[]
+  errors: string[]
+}
+
+// A planned change together with the step that plans it
+export type StepChange = ChangeRecord & { step: string }
+
+export interface PlanReport {
+  success: boolean
+  totals: Record<Exclude<ChangeRecord['type'], 'no-change'>, number>
+  steps: StepPlan[]
+  errors: string[]
+}
+
+export const changeSymbols: Record<ChangeRecord['type'], string> = {
+  create: '+',
+  update: '~',
+  delete: '-',
+  'no-change': ' ',
+}
+
+/**
+ * Group the planned changes of a dry run by step, in execution order.
+ */
+export function buildPlanReport(result: ExecutionResult): PlanReport {
+  const steps: StepPlan[] = []
+  const totals = { create: 0, update: 0, delete: 0 }
+
+  for (const [step, stepResult] of result.stepResults) {
+    // Unchanged resources are left out, except those kept back by the prune policy
+    const changes = stepResult.changes.filter(
+      (change) => change.type !== 'no-change' || change.details?.retained,
+    )
+    for (const change of changes) {
+      if (change.type !== 'no-change') {
+        totals[change.type]++
+      }
+    }
+
+    steps.push({
+      step,
+      skipped: stepResult.skipped === true,
+      changes,
+      errors: stepResult.errors.map((error) => error.message),
+    })
+  }
+
+  return {
+    success: result.success,
+    totals,
+    steps,
+    errors: result.errors.map((error) => error.message),
+  }
+}
+
+/**
+ * Every change a run planned or made, in execution order. Unchanged and retained resources are
+ * left out.
+ */
+export function listChanges(result: ExecutionResult): StepChange[] {
+  const changes: StepChange[] = []
+
+  for (const [step, stepResult] of result.stepResults) {
+    for (const change of stepResult.changes) {
+      if (change.type !== 'no-change') {
+        changes.push({ step, ...change })
+      }
+    }
+  }
+
+  return changes
+}
+
+export function formatPlan(result: ExecutionResult, format: PlanFormat = 'text'): string {
+  const report = buildPlanReport(result)
+
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2)
+  }
+
+  const lines: string[] = [
+    `Plan: ${report.totals.create} to create, ${report.totals.update} to update, ${report.totals.delete} to delete`,
+  ]
+
+  for (const step of report.steps) {
+    if (step.changes.length === 0 && step.errors.length === 0) {
+      continue
+    }
+
+    lines.push('', step.step)
+    for (const change of step.changes) {
+      lines.push(`  ${changeSymbols[change.type]} ${change.resource} ${change.identifier}`)
+      const changedFields = change.details?.changedFields
+      if (Array.isArray(changedFields) && changedFields.length > 0) {
+        lines.push(`      changed: ${changedFields.join(', ')}`)
+      }
+      if (change.details?.retained) {
+        lines.push(`      kept: ${change.details.retained}`)
+      }
+    }
+    for (const error of step.errors) {
+      lines.push(`  ! ${error}`)
+    }
+  }
+
+  if (report.totals.create + report.totals.update + report.totals.delete === 0) {
+    lines.push('', 'No changes. The instance matches the configuration.')
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,339 @@
+import { describe, expect, test } from 'bun:test'
+import { type Config, ConfigSchema } from '@/config/schema'
+import type { ConfigurationEngine, ExecutionResult } from './engine'
+import type { LeaderElector } from './leader'
+import { type ContextReloader, ReconciliationManager } from './reconciliation'
+import type { StepContext } from './step'
+
+const configWith = (reconcileMode: 'enforce' | 'observe') =>
+  ConfigSchema.parse({
+    postgres: { password: 'postgres' },
+    servarr: { type: 'sonarr', url: 'http://sonarr:8989', adminPassword: 'admin' },
+    reconcileMode,
+    history: { store: 'none' },
+  })
+
+const plannedResult: ExecutionResult = {
+  success: true,
+  stepResults: new Map([
+    [
+      'root-folders',
+      {
+        success: true,
+        changes: [
+          { type: 'create', resource: 'root-folder', identifier: '/tv' },
+          { type: 'no-change', resource: 'root-folder', identifier: '/old', details: {} },
+        ],
+        errors: [],
+        warnings: [],
+      },
+    ],
+  ]),
+  errors: [],
+  warnings: [],
+  summary: {
+    totalSteps: 1,
+    successfulSteps: 1,
+    failedSteps: 0,
+    skippedSteps: 0,
+    totalChanges: 1,
+    criticalFailures: [],
+  },
+  duration: 5,
+}
+
+const managerWith = (reconcileMode: 'enforce' | 'observe') => {
+  const calls: string[] = []
+  const engine = {
+    execute: () => {
+      calls.push('execute')
+      return Promise.resolve(plannedResult)
+    },
+    plan: () => {
+      calls.push('plan')
+      return Promise.resolve(plannedResult)
+    },
+  } as unknown as ConfigurationEngine
+  const config = configWith(reconcileMode)
+  const manager = new ReconciliationManager({ config } as StepContext, engine, () =>
+    Promise.resolve(config),
+  )
+  return { manager, calls }
+}
+
+describe('ReconciliationManager reconcile modes', () => {
+  test('observe mode plans without applying and reports the drift', async () => {
+    const { manager, calls } = managerWith('observe')
+
+    await manager.forceReconciliation()
+
+    const state = manager.getState()
+    expect(calls).toEqual(['plan'])
+    expect(state.mode).toBe('observe')
+    expect(state.drift?.resources).toEqual([
+      { step: 'root-folders', type: 'create', resource: 'root-folder', identifier: '/tv' },
+    ])
+  })
+
+  test('enforce mode applies changes and reports no drift', async () => {
+    const { manager, calls } = managerWith('enforce')
+
+    await manager.forceReconciliation()
+
+    expect(calls).toEqual(['execute'])
+    expect(manager.getState().drift).toBeUndefined()
+  })
+})
+
+describe('ReconciliationManager queue', () => {
+  const blockingManager = () => {
+    const releases: (() => void)[] = []
+    const contexts: StepContext[] = []
+    let plans = 0
+    const engine = {
+      execute: (_mode: string, context: StepContext) => {
+        contexts.push(context)
+        return new Promise<ExecutionResult>((resolve) => {
+          releases.push(() => resolve(plannedResult))
+        })
+      },
+      plan: () => {
+        plans++
+        return Promise.resolve(plannedResult)
+      },
+    } as unknown as ConfigurationEngine
+    const config = { ...configWith('enforce'), shutdownTimeout: 1 }
+    const manager = new ReconciliationManager({ config } as StepContext, engine, () =>
+      Promise.resolve(config),
+    )
+    // Let the manager reach the engine before releasing the cycle
+    const release = async () => {
+      await Bun.sleep(0)
+      releases.shift()?.()
+      await Bun.sleep(0)
+    }
+    return { manager, contexts, release, plans: () => plans }
+  }
+
+  test('runs one cycle at a time and merges triggers queued meanwhile', async () => {
+    const { manager, contexts, release } = blockingManager()
+
+    const first = manager.forceReconciliation()
+    await Bun.sleep(0)
+    const second = manager.forceReconciliation()
+    const third = manager.forceReconciliation()
+
+    expect(manager.getState()).toMatchObject({
+      running: true,
+      triggers: ['manual'],
+      queuedTriggers: ['manual'],
+    })
+    expect(contexts).toHaveLength(1)
+
+    await release()
+    await first
+    await release()
+    await Promise.all([second, third])
+
+    expect(contexts).toHaveLength(2)
+    expect(manager.getState()).toMatchObject({
+      running: false,
+      reconciliationCount: 2,
+      queuedTriggers: [],
+    })
+  })
+
+  test('plans wait for the running cycle instead of sharing its steps', async () => {
+    const { manager, release, plans } = blockingManager()
+
+    const running = manager.forceReconciliation()
+    await Bun.sleep(0)
+    const plan = manager.plan()
+    await Bun.sleep(0)
+
+    expect(plans()).toBe(0)
+
+    await release()
+    await Promise.all([running, plan])
+
+    expect(plans()).toBe(1)
+  })
+
+  test('stop waits for the running cycle and drops queued triggers', async () => {
+    const { manager, contexts, release } = blockingManager()
+
+    const running = manager.forceReconciliation()
+    await Bun.sleep(0)
+    const queued = manager.forceReconciliation()
+
+    let stopped = false
+    const stopping = manager.stop().then(() => {
+      stopped = true
+    })
+    await Bun.sleep(0)
+
+    expect(stopped).toBe(false)
+    expect(contexts[0]?.signal?.aborted).toBe(true)
+
+    await release()
+    await Promise.all([running, queued, stopping])
+
+    expect(contexts).toHaveLength(1)
+    expect(manager.getState().reconciliationCount).toBe(1)
+  })
+
+  test('stop gives up on a cycle that outlasts the shutdown timeout', async () => {
+    const { manager } = blockingManager()
+
+    void manager.forceReconciliation()
+    await Bun.sleep(0)
+    const startedAt = Date.now()
+    await manager.stop()
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900)
+    expect(manager.getState().running).toBe(true)
+  })
+})
+
+describe('ReconciliationManager configuration reload', () => {
+  const reloadingManager = (reloadContext: ContextReloader) => {
+    const config = configWith('enforce')
+    let next: () => Promise<Config> = () => Promise.resolve(config)
+    const contexts: StepContext[] = []
+    const engine = {
+      execute: (_mode: string, context: StepContext) => {
+        contexts.push(context)
+        return Promise.resolve(plannedResult)
+      },
+    } as unknown as ConfigurationEngine
+    const manager = new ReconciliationManager(
+      { config, servarrType: 'sonarr' } as StepContext,
+      engine,
+      () => next(),
+      { reloadContext },
+    )
+    const load = (loader: () => Promise<Config>) => {
+      next = loader
+    }
+    return { manager, config, contexts, load }
+  }
+
+  test('keeps the last good configuration when the file fails to load', async () => {
+    const { manager, config, contexts, load } = reloadingManager(() =>
+      Promise.reject(new Error('unexpected reload')),
+    )
+
+    load(() => Promise.reject(new Error('Invalid YAML at line 3')))
+    await manager.forceReconciliation()
+
+    expect(contexts[0]?.config).toBe(config)
+    expect(manager.getState().configError?.message).toBe(
+      'Failed to reload configuration: Invalid YAML at line 3',
+    )
+
+    load(() => Promise.resolve(config))
+    await manager.forceReconciliation()
+
+    expect(manager.getState().configError).toBeUndefined()
+  })
+
+  test('rebuilds clients when infrastructure settings change', async () => {
+    const reloads: Config[] = []
+    const { manager, config, contexts, load } = reloadingManager((changed, current) => {
+      reloads.push(changed)
+      return Promise.resolve({
+        context: { ...current, config: changed, servarrType: 'rebuilt' },
+        history: undefined,
+      })
+    })
+
+    // Desired state changes alone reuse the clients
+    load(() => Promise.resolve({ ...config, app: { ...config.app, rootFolders: [] } }))
+    await manager.forceReconciliation()
+    expect(reloads).toHaveLength(0)
+
+    const changed = { ...config, logLevel: 'debug' as const }
+    load(() => Promise.resolve(changed))
+    await manager.forceReconciliation()
+
+    expect(reloads).toEqual([changed])
+    expect(contexts[1]).toMatchObject({ config: changed, servarrType: 'rebuilt' })
+  })
+
+  test('retires replaced clients once the cycle after the reload has finished', async () => {
+    let retired = 0
+    const { manager, config, load } = reloadingManager((changed, current) =>
+      Promise.resolve({
+        context: { ...current, config: changed },
+        history: undefined,
+        retire: () => {
+          retired++
+        },
+      }),
+    )
+
+    load(() => Promise.resolve({ ...config, logLevel: 'debug' as const }))
+    await manager.forceReconciliation()
+    expect(retired).toBe(0)
+
+    await manager.forceReconciliation()
+    expect(retired).toBe(1)
+  })
+
+  test('keeps the current clients when rebuilding them fails', async () => {
+    const { manager, config, contexts, load } = reloadingManager(() =>
+      Promise.reject(new Error('qBittorrent login failed')),
+    )
+
+    load(() =>
+      Promise.resolve({
+        ...config,
+        services: { qbittorrent: { url: 'http://qbittorrent:8080', password: 'wrong' } },
+      } as Config),
+    )
+    await manager.forceReconciliation()
+
+    expect(contexts[0]).toMatchObject({ config, servarrType: 'sonarr' })
+    expect(manager.getState().configError?.message).toBe(
+      'Failed to apply infrastructure settings: qBittorrent login failed',
+    )
+  })
+})
+
+describe('ReconciliationManager leader election', () => {
+  test('standby replicas skip cycles until they are elected', async () => {
+    let leader = false
+    const elector = {
+      start: () => Promise.resolve(),
+      stop: () => Promise.resolve(),
+      isLeader: () => leader,
+    } as unknown as LeaderElector
+    let cycles = 0
+    const engine = {
+      execute: () => {
+        cycles++
+        return Promise.resolve(plannedResult)
+      },
+    } as unknown as ConfigurationEngine
+    const config = configWith('enforce')
+    const manager = new ReconciliationManager(
+      { config } as StepContext,
+      engine,
+      () => Promise.resolve(config),
+      { leader: elector },
+    )
+
+    await manager.start()
+    await manager.forceReconciliation()
+
+    expect(cycles).toBe(0)
+    expect(manager.getState().role).toBe('standby')
+
+    leader = true
+    await manager.forceReconciliation()
+
+    expect(cycles).toBe(1)
+    expect(manager.getState().role).toBe('leader')
+    await manager.stop()
+  })
+})
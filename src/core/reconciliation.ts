@@ -1,9 +1,40 @@
-import type { Config } from '@/config/schema'
-import type { ConfigurationEngine } from '@/core/engine'
+import { randomUUID } from 'node:crypto'
+import type { Config, ReconciliationEvent, ReconciliationTrigger } from '@/config/schema'
+import type { PendingChange } from '@/core/approval'
+import type { ConfigurationEngine, ExecutionResult } from '@/core/engine'
+import { buildHistoryRecord, type HistoryStore } from '@/core/history'
+import type { LeaderElector, LeaderRole } from '@/core/leader'
+import { ReconciliationMetrics } from '@/core/metrics'
+import { buildNotification, sendNotification } from '@/core/notifier'
+import { listChanges, type StepChange } from '@/core/plan'
 import type { StepContext } from '@/core/step'
 import { toError } from '@/utils/errors'
 import { logger } from '@/utils/logger'
 import { withRetry } from '@/utils/retry'
+import { type Span, withSpan } from '@/utils/tracing'
+
+export interface ConfigReloadError {
+  message: string
+  failedAt: Date
+}
+
+// Clients rebuilt for a configuration whose infrastructure settings changed
+export interface ReloadedContext {
+  context: StepContext
+  history: HistoryStore | undefined
+  // Closes the clients the new context replaced, once nothing can be using them any more
+  retire?: (() => void) | undefined
+}
+
+export type ContextReloader = (config: Config, current: StepContext) => Promise<ReloadedContext>
+
+export interface ReconciliationManagerOptions {
+  history?: HistoryStore | undefined
+  // Rebuilds clients when infrastructure settings change; without it only `config` is replaced
+  reloadContext?: ContextReloader | undefined
+  // Without an elector this replica always reconciles
+  leader?: LeaderElector | undefined
+}
 
 export interface ReconciliationState {
   lastReconciliation: Date
@@ -11,36 +42,82 @@ export interface ReconciliationState {
   reconciliationCount: number
   errors: number
   lastError?: Error | undefined
+  mode: Config['reconcileMode']
+  // Standby replicas leave reconciliation to the replica holding the leader lock
+  role: LeaderRole
+  running: boolean
+  // Id of the running or last cycle, shared by its history record and audit entries
+  cycleId?: string | undefined
+  // Triggers of the running cycle, or of the last one when idle
+  triggers: ReconciliationTrigger[]
+  // Triggers waiting for the running cycle to finish; they share one follow-up cycle
+  queuedTriggers: ReconciliationTrigger[]
+  // Set while the latest configuration cannot be loaded or applied; the last good one stays in use
+  configError?: ConfigReloadError | undefined
+  // Changes the last observe cycle would have made; unset in enforce mode
+  drift?: DriftReport | undefined
+}
+
+export interface DriftReport {
+  detectedAt: Date
+  // Every resource whose live state differs from the configuration
+  resources: StepChange[]
 }
 
 export class ReconciliationManager {
   private intervalId: NodeJS.Timeout | undefined = undefined
   private configWatcher: NodeJS.Timeout | undefined = undefined
   private state: ReconciliationState
+  // Failure notifications already sent since the last successful cycle
+  private failuresNotified = new Set<ReconciliationEvent>()
+  private activeCycle: Promise<void> | undefined = undefined
+  private queuedCycle: Promise<void> | undefined = undefined
+  // Cycles and plans share the step instances and clients, so they take turns
+  private turns: Promise<unknown> = Promise.resolve()
+  // Clients replaced by a reload stay open until the cycle after it has finished, so dependency
+  // probes that still hold the previous context are done with them
+  private retiring: (() => void)[] = []
+  private stopping = new AbortController()
+  // Infrastructure settings whose clients failed to build; the watcher does not retry them
+  private failedInfrastructureHash: string | undefined = undefined
+  private metrics = new ReconciliationMetrics()
+  private history: HistoryStore | undefined
+  private reloadContext: ContextReloader | undefined
+  private leader: LeaderElector | undefined
 
   constructor(
     private baseContext: StepContext,
     private engine: ConfigurationEngine,
     private loadConfiguration: () => Promise<Config>,
+    options: ReconciliationManagerOptions = {},
   ) {
+    this.history = options.history
+    this.reloadContext = options.reloadContext
+    this.leader = options.leader
     this.state = {
       lastReconciliation: new Date(),
       lastConfigHash: '',
       reconciliationCount: 0,
       errors: 0,
       lastError: undefined,
+      mode: baseContext.config.reconcileMode,
+      role: 'leader',
+      running: false,
+      triggers: [],
+      queuedTriggers: [],
     }
   }
 
   async start(): Promise<void> {
     logger.info('Starting reconciliation manager', {
+      mode: this.baseContext.config.reconcileMode,
       configWatch: this.baseContext.config.configWatch,
       reconcileInterval: this.baseContext.config.configReconcileInterval,
     })
 
     if (this.baseContext.config.configReconcileInterval > 0) {
       this.intervalId = setInterval(
-        () => this.runReconciliation(),
+        () => this.requestReconciliation('interval'),
         this.baseContext.config.configReconcileInterval * 1000,
       )
       logger.info('Periodic reconciliation started', {
@@ -52,11 +129,23 @@ export class ReconciliationManager {
       this.startConfigWatching()
     }
 
-    await this.runReconciliation()
+    if (this.leader) {
+      await this.leader.start(() => this.requestReconciliation('leader-elected'))
+      if (!this.leader.isLeader()) {
+        return
+      }
+    }
+
+    await this.requestReconciliation('startup')
   }
 
-  stop(): void {
+  /**
+   * Stop scheduling cycles and drop queued triggers. A running cycle starts no further steps;
+   * the steps already in flight get up to `shutdownTimeout` seconds to finish.
+   */
+  async stop(): Promise<void> {
     logger.info('Stopping reconciliation manager')
+    this.stopping.abort()
 
     if (this.intervalId) {
       clearInterval(this.intervalId)
@@ -67,6 +156,91 @@ export class ReconciliationManager {
       clearInterval(this.configWatcher)
       this.configWatcher = undefined
     }
+
+    this.state.queuedTriggers = []
+    if (!this.activeCycle) {
+      await this.leader?.stop()
+      return
+    }
+
+    const timeoutSeconds = this.baseContext.config.shutdownTimeout
+    logger.info('Waiting for the running reconciliation cycle to finish', { timeoutSeconds })
+
+    let timer: NodeJS.Timeout | undefined
+    const drained = await Promise.race([
+      this.activeCycle.then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutSeconds * 1000)
+      }),
+    ])
+    clearTimeout(timer)
+
+    if (!drained) {
+      logger.warn('Reconciliation cycle still running after the shutdown timeout', {
+        timeoutSeconds,
+      })
+      // Keep the lock so no other replica starts while this cycle may still be writing
+      return
+    }
+
+    // Hand the lock over right away, so the next replica need not wait out the lease
+    await this.leader?.stop()
+  }
+
+  /**
+   * Run a cycle for the trigger. Cycles never overlap: a trigger that arrives while a cycle is
+   * running is queued, and all queued triggers share the one cycle that runs next. The returned
+   * promise settles once the cycle serving this trigger has finished.
+   */
+  private requestReconciliation(trigger: ReconciliationTrigger): Promise<void> {
+    if (this.stopping.signal.aborted) {
+      logger.debug('Reconciliation manager is stopping, ignoring trigger', { trigger })
+      return Promise.resolve()
+    }
+
+    if (!this.state.queuedTriggers.includes(trigger)) {
+      this.state.queuedTriggers.push(trigger)
+    }
+
+    if (this.queuedCycle) {
+      logger.debug('Reconciliation already queued, merging trigger', {
+        trigger,
+        queuedTriggers: this.state.queuedTriggers,
+      })
+      return this.queuedCycle
+    }
+
+    if (this.activeCycle) {
+      logger.info('Reconciliation cycle running, queueing trigger', { trigger })
+    }
+
+    const cycle = (this.activeCycle ?? Promise.resolve()).then(() => {
+      const triggers = this.state.queuedTriggers
+      this.state.queuedTriggers = []
+      this.queuedCycle = undefined
+
+      if (this.stopping.signal.aborted) {
+        return
+      }
+      if (this.leader && !this.leader.isLeader()) {
+        logger.debug('Standing by, reconciliation is left to the leader', { triggers })
+        return
+      }
+
+      this.activeCycle = this.takeTurn(() => this.runReconciliation(triggers)).finally(() => {
+        this.activeCycle = undefined
+      })
+      return this.activeCycle
+    })
+
+    this.queuedCycle = cycle
+    return cycle
+  }
+
+  private takeTurn<T>(run: () => Promise<T>): Promise<T> {
+    const turn = this.turns.then(run)
+    this.turns = turn.catch(() => undefined)
+    return turn
   }
 
   private startConfigWatching(): void {
@@ -87,21 +261,32 @@ export class ReconciliationManager {
   }
 
   private async checkConfigurationChanges(): Promise<void> {
+    let config: Config
     try {
-      const config = await this.loadConfiguration()
-      const configHash = this.calculateConfigHash(config)
+      config = await this.loadConfiguration()
+    } catch (error) {
+      this.reportConfigError('Failed to reload configuration', error)
+      return
+    }
 
-      if (configHash !== this.state.lastConfigHash) {
-        logger.info('Configuration change detected, triggering reconciliation', {
-          previousHash: this.state.lastConfigHash.slice(0, 8),
-          newHash: configHash.slice(0, 8),
-        })
+    const configHash = this.calculateConfigHash(config)
+    const infrastructure = infrastructureHash(config)
+    if (infrastructure === this.failedInfrastructureHash) {
+      return
+    }
+    this.state.configError = undefined
 
-        this.state.lastConfigHash = configHash
-        await this.runReconciliation()
-      }
-    } catch (error) {
-      logger.debug('Failed to check configuration changes', { error })
+    if (configHash !== this.state.lastConfigHash) {
+      logger.info('Configuration change detected, triggering reconciliation', {
+        previousHash: this.state.lastConfigHash.slice(0, 8),
+        newHash: configHash.slice(0, 8),
+      })
+
+      this.state.lastConfigHash = configHash
+      await this.requestReconciliation('config-change')
+    } else if (infrastructure !== infrastructureHash(this.baseContext.config)) {
+      logger.info('Infrastructure settings changed, triggering reconciliation')
+      await this.requestReconciliation('config-change')
     }
   }
 
@@ -111,42 +296,88 @@ export class ReconciliationManager {
     return Bun.hash(JSON.stringify(config.app || {})).toString()
   }
 
-  private async runReconciliation(): Promise<void> {
+  // Every cycle is the root span of its own trace
+  private runReconciliation(triggers: ReconciliationTrigger[]): Promise<void> {
+    return withSpan('reconciliation', (span) => this.reconcile(triggers, span), {
+      attributes: { 'preparr.triggers': triggers },
+    })
+  }
+
+  private async reconcile(triggers: ReconciliationTrigger[], span: Span): Promise<void> {
     const startTime = Date.now()
+    let config = this.baseContext.config
+    this.state.running = true
+    this.state.triggers = triggers
+    this.state.cycleId = randomUUID()
+    span.setAttributes({ 'preparr.cycle.id': this.state.cycleId })
+    const retiring = this.retiring
+    this.retiring = []
 
     try {
       logger.info('Starting reconciliation cycle', {
         cycle: this.state.reconciliationCount + 1,
+        triggers,
         lastReconciliation: this.state.lastReconciliation.toISOString(),
       })
 
-      // Reload configuration — create fresh context per cycle (immutable)
-      let config: Config
-      try {
-        config = await this.loadConfiguration()
-        this.state.lastConfigHash = this.calculateConfigHash(config)
-      } catch (error) {
-        logger.warn('Failed to reload configuration, continuing with existing config', { error })
-        config = this.baseContext.config
+      const context = await this.buildCycleContext()
+      config = context.config
+      this.state.lastConfigHash = this.calculateConfigHash(config)
+      this.state.mode = config.reconcileMode
+      const cycleContext: StepContext = {
+        ...context,
+        cycle: { id: this.state.cycleId, configHash: this.state.lastConfigHash, triggers },
       }
+      span.setAttributes({
+        'preparr.mode': this.state.mode,
+        'preparr.config.hash': this.state.lastConfigHash,
+      })
 
-      const cycleContext: StepContext = { ...this.baseContext, config }
+      // Observe mode plans every step against the instance but never applies the changes
+      const observe = this.state.mode === 'observe'
+      if (!observe && !(await this.admitCycle(cycleContext))) {
+        return
+      }
 
-      const result = await withRetry(() => this.engine.execute('sidecar', cycleContext), {
-        maxAttempts: 2,
-        delayMs: 2000,
-        operation: `reconciliation-cycle-${this.state.reconciliationCount + 1}`,
-      })
+      const result = await withRetry(
+        () =>
+          observe
+            ? this.engine.plan('sidecar', cycleContext)
+            : this.engine.execute('sidecar', cycleContext),
+        {
+          maxAttempts: 2,
+          delayMs: 2000,
+          operation: `reconciliation-cycle-${this.state.reconciliationCount + 1}`,
+        },
+      )
 
+      this.metrics.recordCycle(result, this.state.mode)
       this.state.lastReconciliation = new Date()
       this.state.reconciliationCount++
       this.state.lastError = undefined
+      this.state.drift = observe
+        ? { detectedAt: new Date(), resources: listChanges(result) }
+        : undefined
+
+      if (this.state.drift && this.state.drift.resources.length > 0) {
+        logger.warn('Instance has drifted from the configuration', {
+          resources: this.state.drift.resources.map(
+            (drifted) => `${drifted.type} ${drifted.resource} ${drifted.identifier}`,
+          ),
+        })
+      }
 
       const duration = Date.now() - startTime
+      const recovered = result.success && this.state.errors > 0
+      span.setAttributes({ 'preparr.changes': result.summary.totalChanges })
+      if (!result.success) {
+        span.setError(result.errors.map((error) => error.message).join('; '))
+      }
 
       if (result.success) {
         logger.info('Reconciliation cycle completed successfully', {
           cycle: this.state.reconciliationCount,
+          mode: this.state.mode,
           duration,
           changes: result.summary.totalChanges,
           warnings: result.warnings.length,
@@ -168,26 +399,248 @@ export class ReconciliationManager {
           warnings: result.warnings.length,
         })
       }
+
+      await this.recordCycle(startTime, result)
+      await this.notifyOutcome(config, { result }, recovered)
     } catch (error) {
+      this.metrics.recordCycleError()
       this.state.errors++
       this.state.lastError = toError(error)
 
       const duration = Date.now() - startTime
 
+      span.setError(this.state.lastError.message)
       logger.error('Reconciliation cycle failed', {
         cycle: this.state.reconciliationCount + 1,
         duration,
         error: this.state.lastError.message,
       })
+
+      await this.recordCycle(startTime, undefined, this.state.lastError)
+      await this.notifyOutcome(config, { error: this.state.lastError }, false)
+    } finally {
+      this.state.running = false
+      for (const retire of retiring) {
+        retire()
+      }
     }
   }
 
+  /**
+   * Notify webhooks about applied changes, recovery, and failures. A failure or critical abort
+   * is only notified once until the next successful cycle.
+   */
+  private async notifyOutcome(
+    config: Config,
+    cycle: { result?: ExecutionResult; error?: Error },
+    recovered: boolean,
+  ): Promise<void> {
+    const { result } = cycle
+    const events: ReconciliationEvent[] = []
+
+    if (result && this.state.mode === 'enforce' && listChanges(result).length > 0) {
+      events.push('changes')
+    }
+
+    if (recovered) {
+      events.push('recovery')
+      this.failuresNotified.clear()
+    }
+
+    if (!result?.success) {
+      const event = result?.summary.criticalFailures.length ? 'abort' : 'failure'
+      if (!this.failuresNotified.has(event)) {
+        this.failuresNotified.add(event)
+        events.push(event)
+      }
+    }
+
+    for (const event of events) {
+      await sendNotification(config, buildNotification(event, config, cycle))
+    }
+  }
+
+  /**
+   * Enforce the blast-radius limit by planning the cycle first. A cycle that would make more
+   * than `approval.maxChanges` changes waits in the approval queue instead of running.
+   */
+  private async admitCycle(context: StepContext): Promise<boolean> {
+    const { maxChanges } = context.config.approval
+    if (!context.approvals || maxChanges === undefined) {
+      return true
+    }
+
+    const planned = listChanges(await this.engine.plan('sidecar', context))
+    if (context.approvals.admitCycle(this.state.lastConfigHash, planned, context.config)) {
+      return true
+    }
+
+    logger.warn('Reconciliation cycle held for approval', {
+      changes: planned.length,
+      maxChanges,
+    })
+    return false
+  }
+
+  /**
+   * Persist the cycle to the history store. A failing store must not fail the cycle itself.
+   */
+  private async recordCycle(
+    startTime: number,
+    result: ExecutionResult | undefined,
+    error?: Error,
+  ): Promise<void> {
+    if (!this.history) return
+
+    try {
+      await this.history.append(
+        buildHistoryRecord({
+          cycleId: this.state.cycleId ?? null,
+          startedAt: new Date(startTime),
+          configHash: this.state.lastConfigHash,
+          mode: this.state.mode,
+          triggers: this.state.triggers,
+          result,
+          error,
+        }),
+      )
+    } catch (historyError) {
+      logger.warn('Failed to record reconciliation history', { error: historyError })
+    }
+  }
+
+  /**
+   * Reload configuration and create a fresh context per cycle (immutable)
+   */
+  private async buildCycleContext(): Promise<StepContext> {
+    await this.reloadConfiguration()
+    return { ...this.baseContext, signal: this.stopping.signal }
+  }
+
+  /**
+   * Make the latest configuration the last good one. When its servarr, services, postgres or
+   * logging settings changed, the clients are rebuilt first; runs only between cycles, so no
+   * step ever sees a client being replaced. A configuration that fails to load or whose clients
+   * fail to build is reported in the state, and the last good configuration stays in use.
+   */
+  private async reloadConfiguration(): Promise<void> {
+    let config: Config
+    try {
+      config = await this.loadConfiguration()
+    } catch (error) {
+      this.reportConfigError('Failed to reload configuration', error)
+      return
+    }
+
+    const infrastructure = infrastructureHash(config)
+    if (this.reloadContext && infrastructure !== infrastructureHash(this.baseContext.config)) {
+      try {
+        const reloaded = await this.reloadContext(config, this.baseContext)
+        this.baseContext = reloaded.context
+        this.history = reloaded.history
+        if (reloaded.retire) this.retiring.push(reloaded.retire)
+        logger.info('Infrastructure settings reloaded')
+      } catch (error) {
+        this.failedInfrastructureHash = infrastructure
+        this.reportConfigError('Failed to apply infrastructure settings', error)
+        return
+      }
+    } else {
+      this.baseContext = { ...this.baseContext, config }
+    }
+
+    this.failedInfrastructureHash = undefined
+    this.state.configError = undefined
+  }
+
+  private reportConfigError(message: string, error: unknown): void {
+    const reason = `${message}: ${toError(error).message}`
+
+    // The watcher polls every few seconds, so a broken file is only logged and counted once
+    if (this.state.configError?.message !== reason) {
+      this.metrics.recordConfigReloadFailure()
+      logger.warn(`${message}, continuing with the last good configuration`, {
+        error: toError(error).message,
+      })
+    }
+    this.state.configError = { message: reason, failedAt: new Date() }
+  }
+
   getState(): ReconciliationState {
-    return { ...this.state }
+    return {
+      ...this.state,
+      role: !this.leader || this.leader.isLeader() ? 'leader' : 'standby',
+      triggers: [...this.state.triggers],
+      queuedTriggers: [...this.state.queuedTriggers],
+    }
+  }
+
+  // The context of the next cycle, with the clients of the last good configuration
+  getContext(): StepContext {
+    return this.baseContext
+  }
+
+  getMetrics(): ReconciliationMetrics {
+    return this.metrics
+  }
+
+  getHistory(): HistoryStore | undefined {
+    return this.history
+  }
+
+  getPendingChanges(): PendingChange[] | undefined {
+    return this.baseContext.approvals?.list()
+  }
+
+  /**
+   * Approve a held change and run a cycle right away to apply it.
+   */
+  async approve(id: number): Promise<PendingChange | undefined> {
+    const item = this.baseContext.approvals?.approve(id)
+    if (item) {
+      logger.info('Pending change approved, triggering reconciliation', { id, kind: item.kind })
+      await this.requestReconciliation('approval')
+    }
+    return item
+  }
+
+  reject(id: number): PendingChange | undefined {
+    const item = this.baseContext.approvals?.reject(id)
+    if (item) {
+      logger.info('Pending change rejected', { id, kind: item.kind })
+    }
+    return item
+  }
+
+  /**
+   * Compute the changes the next cycle would make against the latest configuration,
+   * without applying anything or touching reconciliation state. A plan waits for a running
+   * cycle to finish, and the next cycle waits for the plan.
+   */
+  plan(): Promise<ExecutionResult> {
+    logger.info('Reconciliation plan requested')
+
+    return this.takeTurn(async () => {
+      // Plans use the current clients and never rebuild them; only cycles reload them
+      let config = this.baseContext.config
+      try {
+        config = await this.loadConfiguration()
+      } catch (error) {
+        logger.warn('Failed to reload configuration, planning with the last good one', { error })
+      }
+
+      return await this.engine.plan('sidecar', { ...this.baseContext, config })
+    })
   }
 
   async forceReconciliation(): Promise<void> {
     logger.info('Force reconciliation requested')
-    await this.runReconciliation()
+    await this.requestReconciliation('manual')
   }
 }
+
+// Settings the clients of a context are built from
+function infrastructureHash(config: Config): string {
+  const { servarr, services, postgres, logLevel, logFormat } = config
+  return Bun.hash(JSON.stringify({ servarr, services, postgres, logLevel, logFormat })).toString()
+}
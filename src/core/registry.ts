@@ -1,5 +1,12 @@
 import type { ConfigurationStep } from './step'
 
+// Steps to run by name. `only` pulls in the dependencies of the listed steps; `skip` wins over
+// both, so a skipped dependency is not run either.
+export interface StepSelection {
+  only?: string[] | undefined
+  skip?: string[] | undefined
+}
+
 export class StepRegistry {
   private steps: Map<string, ConfigurationStep> = new Map()
   private executionOrder: string[] = []
@@ -31,8 +38,63 @@ export class StepRegistry {
     return [...this.executionOrder]
   }
 
-  getStepsForMode(mode: 'init' | 'sidecar'): ConfigurationStep[] {
-    return this.getAll().filter((step) => step.mode === mode || step.mode === 'both')
+  getStepsForMode(mode: 'init' | 'sidecar', selection: StepSelection = {}): ConfigurationStep[] {
+    const steps = this.getAll().filter((step) => step.mode === mode || step.mode === 'both')
+    const selected = this.selectSteps(steps, selection)
+    return steps.filter((step) => selected.has(step.name))
+  }
+
+  /**
+   * Problems with a step selection: names that match no step, and skipped steps that a selected
+   * step depends on.
+   */
+  getSelectionWarnings(mode: 'init' | 'sidecar', selection: StepSelection): string[] {
+    const warnings: string[] = []
+
+    for (const name of [...(selection.only ?? []), ...(selection.skip ?? [])]) {
+      if (!this.steps.has(name)) {
+        warnings.push(`Unknown step '${name}' in step selection`)
+      }
+    }
+
+    const skipped = new Set(selection.skip)
+    for (const step of this.getStepsForMode(mode, selection)) {
+      for (const dependency of step.dependencies) {
+        if (skipped.has(dependency)) {
+          warnings.push(`Skipped step '${dependency}' is a dependency of '${step.name}'`)
+        }
+      }
+    }
+
+    return warnings
+  }
+
+  private selectSteps(steps: ConfigurationStep[], selection: StepSelection): Set<string> {
+    const available = new Map(steps.map((step) => [step.name, step]))
+    const skipped = new Set(selection.skip)
+    const only = selection.only ?? []
+
+    if (only.length === 0) {
+      return new Set([...available.keys()].filter((name) => !skipped.has(name)))
+    }
+
+    const selected = new Set<string>()
+    const select = (name: string): void => {
+      const step = available.get(name)
+      if (!step || skipped.has(name) || selected.has(name)) {
+        return
+      }
+
+      selected.add(name)
+      for (const dependency of step.dependencies) {
+        select(dependency)
+      }
+    }
+
+    for (const name of only) {
+      select(name)
+    }
+    return selected
   }
 
   private calculateExecutionOrder(): void {
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test'
+import type { PostgresClient } from '@/postgres/client'
+import { AppliedSecrets } from './secrets'
+
+describe('AppliedSecrets', () => {
+  const store = () => {
+    const rows: Array<{ resource: string; identifier: string; field: string; hash: string }> = []
+    const postgres = {
+      getAppliedSecrets: () => Promise.resolve([...rows]),
+      setAppliedSecret: (_instance: string, row: (typeof rows)[number]) => {
+        rows.push(row)
+        return Promise.resolve()
+      },
+    } as unknown as PostgresClient
+    return { rows, postgres }
+  }
+
+  test('stores keyed hashes that only match under the same API key', async () => {
+    const { rows, postgres } = store()
+    const written = new AppliedSecrets(postgres, 'sonarr', () => 'first-api-key')
+    await written.load()
+    await written.record('indexer', 'NZBgeek', [{ name: 'apiKey', value: 'hunter2' }])
+
+    expect(JSON.stringify(rows)).not.toContain('hunter2')
+    expect(written.changed('indexer', 'NZBgeek', 'apiKey', 'hunter2')).toBe(false)
+
+    const rekeyed = new AppliedSecrets(postgres, 'sonarr', () => 'second-api-key')
+    await rekeyed.load()
+    expect(rekeyed.changed('indexer', 'NZBgeek', 'apiKey', 'hunter2')).toBe(true)
+  })
+
+  test('compares nothing when the API key is not available', async () => {
+    const { postgres } = store()
+    const secrets = new AppliedSecrets(postgres, 'sonarr', () => {
+      throw new Error('API key not available. Initialize ServarrManager first.')
+    })
+    await secrets.load()
+
+    expect(secrets.changed('indexer', 'NZBgeek', 'apiKey', 'hunter2')).toBeUndefined()
+  })
+})
@@ -0,0 +1,136 @@
+import { createHmac } from 'node:crypto'
+import type { ChangeRecord } from '@/core/step'
+import type { PostgresClient } from '@/postgres/client'
+import { MASKED_FIELD_VALUE } from '@/servarr/client'
+import { logger } from '@/utils/logger'
+
+/**
+ * Remembers a keyed hash of each field PrepArr wrote to a resource. Servarr returns secrets
+ * masked, so comparing against the hash is the only way to notice that a configured secret
+ * changed. Hashes are loaded once per cycle and kept in sync as they are written.
+ *
+ * The hashes are HMACs keyed with the Servarr API key, which is not stored next to them, so a
+ * copy of the table alone cannot be used to guess the secrets behind it.
+ */
+export class AppliedSecrets {
+  private hashes: Map<string, string> | null = null
+  private key: string | null = null
+
+  constructor(
+    private postgres: PostgresClient,
+    private instance: string,
+    private readKey: () => string,
+  ) {}
+
+  async load(): Promise<void> {
+    try {
+      this.key = this.readKey()
+      const records = await this.postgres.getAppliedSecrets(this.instance)
+      this.hashes = new Map(
+        records.map((record) => [
+          secretKey(record.resource, record.identifier, record.field),
+          record.hash,
+        ]),
+      )
+    } catch (error) {
+      logger.warn('Failed to read applied secrets, masked secrets are not compared', { error })
+      this.hashes = null
+    }
+  }
+
+  /**
+   * Whether `value` differs from the secret last written. A secret PrepArr never wrote counts as
+   * changed, so it is written once; undefined when the hashes could not be loaded.
+   */
+  changed(
+    resource: string,
+    identifier: string,
+    field: string,
+    value: unknown,
+  ): boolean | undefined {
+    if (!this.hashes || !this.key) return undefined
+    return this.hashes.get(secretKey(resource, identifier, field)) !== hashSecret(this.key, value)
+  }
+
+  async record(
+    resource: string,
+    identifier: string,
+    fields: Array<{ name: string; value: unknown }>,
+  ): Promise<void> {
+    const { key } = this
+    if (!key) return
+
+    try {
+      for (const field of fields) {
+        const hash = hashSecret(key, field.value)
+        await this.postgres.setAppliedSecret(this.instance, {
+          resource,
+          identifier,
+          field: field.name,
+          hash,
+        })
+        this.hashes?.set(secretKey(resource, identifier, field.name), hash)
+      }
+    } catch (error) {
+      logger.warn('Failed to record applied secrets', { resource, identifier, error })
+    }
+  }
+
+  /**
+   * Record the fields written by applied creates and updates, and forget deleted resources.
+   */
+  async recordChanges(
+    changes: ChangeRecord[],
+    fieldsOf: (identifier: string) => Array<{ name: string; value: unknown }> | undefined,
+  ): Promise<void> {
+    for (const change of changes) {
+      if (change.type === 'delete') {
+        await this.remove(change.resource, change.identifier)
+        continue
+      }
+
+      const fields = change.type === 'no-change' ? undefined : fieldsOf(change.identifier)
+      if (fields) {
+        await this.record(change.resource, change.identifier, fields)
+      }
+    }
+  }
+
+  async remove(resource: string, identifier: string): Promise<void> {
+    try {
+      await this.postgres.removeAppliedSecrets(this.instance, resource, identifier)
+      for (const key of this.hashes?.keys() ?? []) {
+        if (key.startsWith(secretKey(resource, identifier, ''))) this.hashes?.delete(key)
+      }
+    } catch (error) {
+      logger.warn('Failed to remove applied secrets', { resource, identifier, error })
+    }
+  }
+}
+
+/**
+ * Compare a configured field against its live value. Servarr masks fields by their privacy
+ * level rather than their name, so any masked value is compared against the hash of the value
+ * last written, and left alone when that is unknown.
+ */
+export function fieldChanged(
+  secrets: AppliedSecrets | undefined,
+  resource: string,
+  identifier: string,
+  field: { name: string; value: unknown },
+  currentValue: unknown,
+): boolean {
+  if (currentValue === MASKED_FIELD_VALUE) {
+    return secrets?.changed(resource, identifier, field.name, field.value) === true
+  }
+  return JSON.stringify(currentValue) !== JSON.stringify(field.value)
+}
+
+function secretKey(resource: string, identifier: string, field: string): string {
+  return `${resource}\u0000${identifier}\u0000${field}`
+}
+
+// Only equality matters, so a digest is stored instead of the secret itself
+function hashSecret(key: string, value: unknown): string {
+  return createHmac('sha256', key).update(JSON.stringify(value)).digest('hex')
+}
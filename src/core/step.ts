@@ -1,10 +1,22 @@
 import type { BazarrManager } from '@/bazarr/client'
-import type { Config } from '@/config/schema'
+import type { Config, PrunePolicy, ReconciliationTrigger } from '@/config/schema'
 import type { PostgresClient } from '@/postgres/client'
 import type { QBittorrentManager } from '@/qbittorrent/client'
 import type { ServarrManager } from '@/servarr/client'
 import { toError } from '@/utils/errors'
 import { logger } from '@/utils/logger'
+import { withSpan } from '@/utils/tracing'
+import type { ApprovalQueue } from './approval'
+import { type AuditLog, buildAuditEntries } from './audit'
+import { type OwnershipStore, prunePolicyFor } from './ownership'
+import type { AppliedSecrets } from './secrets'
+
+// The reconciliation cycle a step runs in
+export interface CycleInfo {
+  id: string
+  configHash: string
+  triggers: ReconciliationTrigger[]
+}
 
 export interface StepContext {
   config: Config
@@ -14,14 +26,27 @@ export interface StepContext {
   servarrClient?: ServarrManager | undefined
   qbittorrentClient?: QBittorrentManager | undefined
   bazarrClient?: BazarrManager | undefined
+  ownership?: OwnershipStore | undefined
+  secrets?: AppliedSecrets | undefined
+  approvals?: ApprovalQueue | undefined
+  audit?: AuditLog | undefined
+  // Unset for init container runs
+  cycle?: CycleInfo | undefined
+  // Aborted on shutdown; no further steps are started once it fires
+  signal?: AbortSignal | undefined
   executionMode: 'init' | 'sidecar'
 }
 
+// Phases of a step, each traced as a span
+export type StepPhase = 'validate' | 'read' | 'plan' | 'execute' | 'verify'
+
 export interface ChangeRecord {
   type: 'create' | 'update' | 'delete' | 'no-change'
   resource: string
   identifier: string
   details?: Record<string, unknown>
+  // Prune policy configured for this resource type
+  prune?: PrunePolicy | undefined
 }
 
 export interface StepResult {
@@ -31,6 +56,8 @@ export interface StepResult {
   warnings: Warning[]
   metadata?: Record<string, unknown>
   skipped?: boolean
+  // Milliseconds the step took, set by the engine
+  duration?: number
 }
 
 export class Warning {
@@ -40,6 +67,9 @@ export class Warning {
   ) {}
 }
 
+// Fields that identify a resource in the state of most steps, in the same way as their changes
+const IDENTIFIER_FIELDS = ['name', 'path', 'label', 'title', 'code', 'quality', 'username']
+
 // biome-ignore lint/suspicious/noExplicitAny: heterogeneous step collections require any
 export abstract class ConfigurationStep<TState = any> {
   abstract readonly name: string
@@ -47,6 +77,10 @@ export abstract class ConfigurationStep<TState = any> {
   abstract readonly dependencies: string[]
   abstract readonly mode: 'init' | 'sidecar' | 'both'
 
+  // Steps that write their whole desired state at once cannot leave out a single held delete,
+  // so all of their changes wait for the approval
+  protected readonly writesWholeState: boolean = false
+
   async execute(context: StepContext): Promise<StepResult> {
     try {
       logger.info(`Starting step: ${this.name}`, {
@@ -54,38 +88,37 @@ export abstract class ConfigurationStep<TState = any> {
         dependencies: this.dependencies,
       })
 
-      const prerequisitesValid = await this.validatePrerequisites(context)
-
-      if (!prerequisitesValid) {
-        logger.debug('Step prerequisites not met, skipping step', {
-          step: this.name,
-        })
-        return {
-          success: true,
-          changes: [],
-          errors: [],
-          warnings: [],
-          skipped: true,
-        }
+      const plan = await this.computePlan(context)
+
+      if (!plan) {
+        return skippedResult()
       }
 
-      const currentState = await this.readCurrentState(context)
-      const desiredState = this.getDesiredState(context)
-      const plannedChanges = await this.compareAndPlan(currentState, desiredState, context)
+      const { changes, held } = this.holdForApproval(plan.changes, context)
 
       logger.info('Changes planned', {
         step: this.name,
-        changeCount: plannedChanges.length,
-        changes: plannedChanges.map((c) => ({
+        changeCount: changes.length,
+        changes: changes.map((c) => ({
           type: c.type,
           resource: c.resource,
           identifier: c.identifier,
         })),
       })
 
-      const result = await this.executeChanges(plannedChanges, context)
+      const result = await this.phase('execute', () => this.executeChanges(changes, context))
+      await this.recordChanges(result.changes, context)
+      await this.auditChanges(result.changes, plan, context)
+
+      if (held.length > 0) {
+        result.warnings.push(
+          new Warning(`Deletes held for approval in step: ${this.name}`, {
+            resources: held.map((c) => `${c.resource} ${c.identifier}`),
+          }),
+        )
+      }
 
-      const verified = await this.verifySuccess(context)
+      const verified = await this.phase('verify', () => this.verifySuccess(context))
       if (!verified) {
         result.warnings.push(new Warning(`Verification failed for step: ${this.name}`))
         logger.warn('Step verification failed', { step: this.name })
@@ -115,6 +148,157 @@ export abstract class ConfigurationStep<TState = any> {
     }
   }
 
+  /**
+   * Read current state and compute the changes this step would make, without applying them.
+   */
+  async plan(context: StepContext): Promise<StepResult> {
+    try {
+      const plan = await this.computePlan(context)
+
+      if (!plan) {
+        return skippedResult()
+      }
+
+      return {
+        success: true,
+        changes: plan.changes,
+        errors: [],
+        warnings: [],
+      }
+    } catch (error) {
+      const stepError = toError(error)
+      logger.error(`Step planning failed: ${this.name}`, {
+        error: stepError.message,
+        stack: stepError.stack,
+      })
+
+      return {
+        success: false,
+        changes: [],
+        errors: [stepError],
+        warnings: [],
+      }
+    }
+  }
+
+  /**
+   * Returns undefined when the step's prerequisites are not met and it should be skipped.
+   */
+  private async computePlan(
+    context: StepContext,
+  ): Promise<{ changes: ChangeRecord[]; current: TState; desired: TState } | undefined> {
+    const prerequisitesValid = await this.phase('validate', () =>
+      this.validatePrerequisites(context),
+    )
+
+    if (!prerequisitesValid) {
+      logger.debug('Step prerequisites not met, skipping step', {
+        step: this.name,
+      })
+      return undefined
+    }
+
+    const currentState = await this.phase('read', () => this.readCurrentState(context))
+    return await this.phase('plan', async () => {
+      const desiredState = this.getDesiredState(context)
+      const changes = await this.compareAndPlan(currentState, desiredState, context)
+      return {
+        changes: await this.applyPrunePolicy(changes, context),
+        current: currentState,
+        desired: desiredState,
+      }
+    })
+  }
+
+  // Run one phase of this step in a span of its own
+  private phase<T>(phase: StepPhase, run: () => T | Promise<T>): Promise<T> {
+    return withSpan(`${this.name} ${phase}`, async () => await run(), {
+      attributes: { 'preparr.step': this.name, 'preparr.step.phase': phase },
+    })
+  }
+
+  /**
+   * Write the applied changes to the audit log. A failing audit log must not fail the step.
+   */
+  private async auditChanges(
+    changes: ChangeRecord[],
+    state: { current: TState; desired: TState },
+    context: StepContext,
+  ): Promise<void> {
+    if (!context.audit) return
+
+    try {
+      await context.audit.write(
+        buildAuditEntries(this.name, changes, context, (change) => ({
+          before: this.findResource(state.current, change.identifier),
+          after: this.findResource(state.desired, change.identifier),
+        })),
+      )
+    } catch (error) {
+      logger.warn('Failed to write audit entries', {
+        step: this.name,
+        error: toError(error).message,
+      })
+    }
+  }
+
+  /**
+   * Find the resource a change identifier refers to in this step's current or desired state.
+   * List states are searched by `auditKey`; any other state is a single resource.
+   */
+  private findResource(state: TState, identifier: string): unknown {
+    if (!Array.isArray(state)) {
+      return state
+    }
+    return state.find((resource) => this.auditKey(resource) === identifier)
+  }
+
+  /**
+   * The identifier a resource of this step's state has in change records. Steps whose
+   * identifiers are not one of the resource's fields override this.
+   */
+  protected auditKey(resource: unknown): string | undefined {
+    if (typeof resource === 'string') {
+      return resource
+    }
+    if (!resource || typeof resource !== 'object') {
+      return undefined
+    }
+
+    const record = resource as Record<string, unknown>
+    const field = IDENTIFIER_FIELDS.find((name) => typeof record[name] === 'string')
+    return field ? (record[field] as string) : undefined
+  }
+
+  private holdForApproval(
+    planned: ChangeRecord[],
+    context: StepContext,
+  ): { changes: ChangeRecord[]; held: ChangeRecord[] } {
+    if (!context.approvals) {
+      return { changes: planned, held: [] }
+    }
+
+    const { allowed, held } = context.approvals.holdDeletes(this.name, planned, context.config)
+    return { changes: held.length > 0 && this.writesWholeState ? [] : allowed, held }
+  }
+
+  /**
+   * Decide which planned deletes may go ahead. By default every planned change is kept.
+   */
+  protected applyPrunePolicy(
+    changes: ChangeRecord[],
+    _context: StepContext,
+  ): ChangeRecord[] | Promise<ChangeRecord[]> {
+    return changes
+  }
+
+  /**
+   * Called with the changes that were applied, e.g. to track ownership of created resources.
+   */
+  protected recordChanges(_changes: ChangeRecord[], _context: StepContext): Promise<void> {
+    return Promise.resolve()
+  }
+
   abstract validatePrerequisites(context: StepContext): boolean | Promise<boolean>
   abstract readCurrentState(context: StepContext): Promise<TState>
   abstract compareAndPlan(
@@ -136,17 +320,129 @@ export abstract class ServarrStep<TState = any> extends ConfigurationStep<TState
   protected client!: ServarrManager
 
   override execute(context: StepContext): Promise<StepResult> {
+    if (!this.bindClient(context)) {
+      return Promise.resolve(skippedResult())
+    }
+    return super.execute(context)
+  }
+
+  override plan(context: StepContext): Promise<StepResult> {
+    if (!this.bindClient(context)) {
+      return Promise.resolve(skippedResult())
+    }
+    return super.plan(context)
+  }
+
+  private bindClient(context: StepContext): boolean {
     if (!context.servarrClient) {
-      return Promise.resolve({
-        success: true,
-        changes: [],
-        errors: [],
-        warnings: [],
-        skipped: true,
-      })
+      return false
     }
     this.client = context.servarrClient
-    return super.execute(context)
+    return true
+  }
+
+  /**
+   * Tag every change with the configured prune policy and turn deletes that the policy or a
+   * safety check does not allow into `no-change` records with the reason in `details.retained`.
+   */
+  protected override async applyPrunePolicy(
+    changes: ChangeRecord[],
+    context: StepContext,
+  ): Promise<ChangeRecord[]> {
+    const planned: ChangeRecord[] = []
+
+    for (const change of changes) {
+      const prune = prunePolicyFor(context.config, change.resource)
+      const retained =
+        change.type === 'delete' ? await this.retainReason(change, prune, context) : undefined
+
+      if (!retained) {
+        planned.push({ ...change, prune })
+        continue
+      }
+
+      logger.info('Keeping resource that is not in the config', {
+        step: this.name,
+        resource: change.resource,
+        identifier: change.identifier,
+        reason: retained,
+      })
+      planned.push({
+        ...change,
+        type: 'no-change',
+        prune,
+        details: { ...change.details, retained },
+      })
+    }
+
+    return planned
+  }
+
+  protected override async recordChanges(
+    changes: ChangeRecord[],
+    context: StepContext,
+  ): Promise<void> {
+    if (!context.ownership) {
+      return
+    }
+
+    for (const change of changes) {
+      if (change.type === 'create') {
+        await context.ownership.recordCreated(change.resource, change.identifier)
+      } else if (change.type === 'delete') {
+        await context.ownership.recordDeleted(change.resource, change.identifier)
+      }
+    }
+  }
+
+  /**
+   * Verify that every desired resource exists, matched by `auditKey`. Resources the prune policy
+   * kept may remain next to them, so extra resources do not fail verification.
+   */
+  protected async desiredResourcesExist(context: StepContext): Promise<boolean> {
+    try {
+      const current = (await this.readCurrentState(context)) as unknown[]
+      const desired = this.getDesiredState(context) as unknown[]
+      const currentKeys = new Set(current.map((resource) => this.auditKey(resource)))
+
+      return desired.every((resource) => currentKeys.has(this.auditKey(resource)))
+    } catch (error) {
+      logger.debug('Step verification failed', { step: this.name, error })
+      return false
+    }
+  }
+
+  /**
+   * Returns why a resource must not be deleted even though the prune policy allows it, e.g.
+   * because it is still in use.
+   */
+  protected findDeleteBlocker(
+    _change: ChangeRecord,
+    _context: StepContext,
+  ): Promise<string | undefined> {
+    return Promise.resolve(undefined)
+  }
+
+  private async retainReason(
+    change: ChangeRecord,
+    prune: PrunePolicy,
+    context: StepContext,
+  ): Promise<string | undefined> {
+    if (prune === 'none') {
+      return 'prune policy is none'
+    }
+
+    if (prune === 'managed') {
+      const owned = await context.ownership?.isOwned(change.resource, change.identifier)
+      if (owned === undefined) {
+        return 'ownership is unknown'
+      }
+      if (!owned) {
+        return 'not created by PrepArr'
+      }
+    }
+
+    return await this.findDeleteBlocker(change, context)
   }
 }
 
@@ -157,18 +453,37 @@ export abstract class ServarrStep<TState = any> extends ConfigurationStep<TState
 // biome-ignore lint/suspicious/noExplicitAny: heterogeneous step collections require any
 export abstract class BazarrStep<TState = any> extends ConfigurationStep<TState> {
   protected client!: BazarrManager
+  protected override readonly writesWholeState: boolean = true
 
   override execute(context: StepContext): Promise<StepResult> {
+    if (!this.bindClient(context)) {
+      return Promise.resolve(skippedResult())
+    }
+    return super.execute(context)
+  }
+
+  override plan(context: StepContext): Promise<StepResult> {
+    if (!this.bindClient(context)) {
+      return Promise.resolve(skippedResult())
+    }
+    return super.plan(context)
+  }
+
+  private bindClient(context: StepContext): boolean {
     if (!context.bazarrClient) {
-      return Promise.resolve({
-        success: true,
-        changes: [],
-        errors: [],
-        warnings: [],
-        skipped: true,
-      })
+      return false
     }
     this.client = context.bazarrClient
-    return super.execute(context)
+    return true
+  }
+}
+
+function skippedResult(): StepResult {
+  return {
+    success: true,
+    changes: [],
+    errors: [],
+    warnings: [],
+    skipped: true,
   }
 }
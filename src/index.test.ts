@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test'
+import { type Config, ConfigSchema } from '@/config/schema'
+import type { ReloadedContext } from '@/core/reconciliation'
+import type { StepContext } from '@/core/step'
+import { PostgresClient } from '@/postgres/client'
+import { QBittorrentManager } from '@/qbittorrent/client'
+import { PrepArr } from './index'
+
+const configWith = (overrides: Record<string, unknown> = {}) =>
+  ConfigSchema.parse({
+    postgres: { password: 'postgres' },
+    servarr: { type: 'sonarr', url: 'http://sonarr:8989', adminPassword: 'admin' },
+    ...overrides,
+  })
+
+// reloadContext is private; the reconciliation manager is its only caller
+const reload = (preparr: PrepArr, config: Config, current: StepContext) =>
+  (
+    preparr as unknown as {
+      reloadContext: (config: Config, current: StepContext) => Promise<ReloadedContext>
+    }
+  ).reloadContext(config, current)
+
+describe('PrepArr configuration reload', () => {
+  const close = mock(() => undefined)
+  const current = { postgresClient: { close } } as unknown as StepContext
+
+  afterEach(() => {
+    mock.restore()
+    close.mockClear()
+  })
+
+  test('keeps the current PostgreSQL client when the new settings cannot connect', async () => {
+    const testConnection = spyOn(PostgresClient.prototype, 'testConnection').mockResolvedValue(
+      false,
+    )
+    const preparr = new PrepArr(configWith())
+    const changed = configWith({ postgres: { password: 'wrong' } })
+
+    await expect(reload(preparr, changed, current)).rejects.toThrow(
+      'Cannot connect to PostgreSQL with the new settings',
+    )
+    expect(close).not.toHaveBeenCalled()
+
+    // The failed reload left the previous configuration in place, so it is detected again
+    await expect(reload(preparr, changed, current)).rejects.toThrow()
+    expect(testConnection).toHaveBeenCalledTimes(2)
+  })
+
+  test('keeps the current clients when the new qBittorrent settings cannot log in', async () => {
+    spyOn(QBittorrentManager.prototype, 'login').mockResolvedValue(false)
+    const preparr = new PrepArr(configWith())
+    const changed = configWith({
+      services: {
+        qbittorrent: { url: 'http://qbittorrent:8080', username: 'admin', password: 'wrong' },
+      },
+    })
+
+    await expect(reload(preparr, changed, current)).rejects.toThrow(
+      'Cannot log in to qBittorrent with the new settings',
+    )
+    expect(close).not.toHaveBeenCalled()
+  })
+
+  test('closes the replaced PostgreSQL client only when it is retired', async () => {
+    spyOn(PostgresClient.prototype, 'testConnection').mockResolvedValue(true)
+    const preparr = new PrepArr(configWith())
+
+    const { context, retire } = await reload(
+      preparr,
+      configWith({ postgres: { password: 'rotated' } }),
+      current,
+    )
+
+    expect(context.postgresClient).not.toBe(current.postgresClient)
+    expect(close).not.toHaveBeenCalled()
+
+    retire?.()
+    expect(close).toHaveBeenCalledTimes(1)
+  })
+})
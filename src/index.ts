@@ -1,23 +1,36 @@
+import { hostname } from 'node:os'
 import { BazarrManager } from '@/bazarr/client'
-import { type Config, loadConfigurationSafe } from '@/config'
+import { type Config, loadConfiguration, loadConfigurationSafe } from '@/config'
 import { getEnvironmentInfo } from '@/config/loaders/env'
+import { detectFileFormat } from '@/config/loaders/file'
+import { ApprovalQueue } from '@/core/approval'
+import { createAuditLog } from '@/core/audit'
 import { ContextBuilder } from '@/core/context'
+import { DependencyMonitor } from '@/core/dependencies'
 import { ConfigurationEngine } from '@/core/engine'
+import { type ExportFormat, exportConfiguration, formatExport } from '@/core/export'
 import { HealthServer } from '@/core/health'
-import { ReconciliationManager } from '@/core/reconciliation'
+import { createHistoryStore } from '@/core/history'
+import { createLeaderElector } from '@/core/leader'
+import { OwnershipStore } from '@/core/ownership'
+import { formatPlan, type PlanFormat } from '@/core/plan'
+import { ReconciliationManager, type ReloadedContext } from '@/core/reconciliation'
+import { AppliedSecrets } from '@/core/secrets'
 import type { StepContext } from '@/core/step'
 import { PostgresClient } from '@/postgres/client'
 import { QBittorrentManager } from '@/qbittorrent/client'
 import { ServarrManager } from '@/servarr/client'
 import { allSteps } from '@/steps'
 import { toError } from '@/utils/errors'
-import { logger } from '@/utils/logger'
+import { configureLogger, logger, logToStderr } from '@/utils/logger'
+import { configureTracing, shutdownTracing } from '@/utils/tracing'
 
-class PrepArr {
+export class PrepArr {
   private config: Config
   private health: HealthServer
   private engine: ConfigurationEngine
   private reconciliationManager: ReconciliationManager | null = null
+  private dependencies: DependencyMonitor | null = null
 
   constructor(config: Config) {
     this.config = config
@@ -33,18 +46,18 @@ class PrepArr {
     return this.config.servarr.type === 'qbittorrent'
   }
 
-  private createServarrClient(): ServarrManager | undefined {
+  private createServarrClient(config = this.config): ServarrManager | undefined {
     if (this.isBazarrDeployment || this.isQbittorrentDeployment) {
       return undefined
     }
 
-    return new ServarrManager(this.config.servarr, {
-      logDatabaseEnabled: this.config.postgres.logDatabaseEnabled,
+    return new ServarrManager(config.servarr, {
+      logDatabaseEnabled: config.postgres.logDatabaseEnabled,
     })
   }
 
-  private createBazarrClient(): BazarrManager | undefined {
-    const bazarrConfig = this.config.services?.bazarr
+  private createBazarrClient(config = this.config): BazarrManager | undefined {
+    const bazarrConfig = config.services?.bazarr
 
     if (this.isBazarrDeployment) {
       return new BazarrManager({
@@ -59,34 +72,122 @@ class PrepArr {
     })
   }
 
+  private createQBittorrentClient(config = this.config): QBittorrentManager | undefined {
+    if (!config.services?.qbittorrent) return undefined
+    return new QBittorrentManager(
+      config.services.qbittorrent,
+      '/shared-qbittorrent/qBittorrent.conf',
+    )
+  }
+
+  // Identifies this instance in the tables PrepArr keeps in its own database
+  private instanceKey(config = this.config): string {
+    return config.servarr.url || config.servarr.type
+  }
+
   private buildContext(
     mode: 'init' | 'sidecar',
     options?: {
+      config?: Config
       servarrClient?: ServarrManager | undefined
       bazarrClient?: BazarrManager | undefined
+      qbittorrentClient?: QBittorrentManager | undefined
+      postgresClient?: PostgresClient | undefined
+      approvals?: ApprovalQueue | undefined
     },
   ): StepContext {
-    const servarrClient = options?.servarrClient ?? this.createServarrClient()
-    const bazarrClient = options?.bazarrClient ?? this.createBazarrClient()
+    const config = options?.config ?? this.config
+    const servarrClient = options?.servarrClient ?? this.createServarrClient(config)
+    const bazarrClient = options?.bazarrClient ?? this.createBazarrClient(config)
+    const postgresClient = options?.postgresClient ?? new PostgresClient(config.postgres)
 
     return new ContextBuilder()
-      .setConfig(this.config)
-      .setServarrType(this.config.servarr.type)
-      .setPostgresClient(new PostgresClient(this.config.postgres))
+      .setConfig(config)
+      .setServarrType(config.servarr.type)
+      .setPostgresClient(postgresClient)
       .setServarrClient(servarrClient)
-      .setQBittorrentClient(
-        this.config.services?.qbittorrent
-          ? new QBittorrentManager(
-              this.config.services.qbittorrent,
-              '/shared-qbittorrent/qBittorrent.conf',
-            )
-          : undefined,
-      )
+      .setQBittorrentClient(options?.qbittorrentClient ?? this.createQBittorrentClient(config))
       .setBazarrClient(bazarrClient)
+      .setOwnershipStore(new OwnershipStore(postgresClient, this.instanceKey(config)))
+      .setAppliedSecrets(
+        servarrClient &&
+          new AppliedSecrets(postgresClient, this.instanceKey(config), () =>
+            servarrClient.getApiKey(),
+          ),
+      )
+      .setApprovalQueue(options?.approvals ?? new ApprovalQueue())
+      .setAuditLog(createAuditLog(config, postgresClient, this.instanceKey(config)))
       .setExecutionMode(mode)
       .build()
   }
 
+  /**
+   * Build the sidecar context for a reloaded configuration. Only clients whose settings changed
+   * are replaced, and they are initialized before the reload succeeds, so a bad password or URL
+   * leaves the current clients in place.
+   */
+  private async reloadContext(config: Config, current: StepContext): Promise<ReloadedContext> {
+    const previous = this.config
+    const changed = (section: (c: Config) => unknown) =>
+      JSON.stringify(section(previous)) !== JSON.stringify(section(config))
+
+    if (config.servarr.type !== previous.servarr.type) {
+      throw new Error('Changing servarr.type requires a restart')
+    }
+
+    let servarrClient = current.servarrClient
+    if (changed((c) => [c.servarr, c.postgres.logDatabaseEnabled])) {
+      logger.info('Servarr settings changed, rebuilding the Servarr client')
+      servarrClient = this.createServarrClient(config)
+      await servarrClient?.initializeSidecarMode()
+    }
+
+    let bazarrClient = current.bazarrClient
+    if (changed((c) => c.services?.bazarr)) {
+      logger.info('Bazarr settings changed, rebuilding the Bazarr client')
+      bazarrClient = this.createBazarrClient(config)
+      await bazarrClient?.initialize()
+    }
+
+    let qbittorrentClient = current.qbittorrentClient
+    if (changed((c) => c.services?.qbittorrent)) {
+      logger.info('qBittorrent settings changed, rebuilding the qBittorrent client')
+      qbittorrentClient = this.createQBittorrentClient(config)
+      if (qbittorrentClient && !(await qbittorrentClient.login())) {
+        throw new Error('Cannot log in to qBittorrent with the new settings')
+      }
+    }
+
+    let postgresClient = current.postgresClient
+    if (changed((c) => c.postgres)) {
+      logger.info('PostgreSQL settings changed, rebuilding the PostgreSQL client')
+      postgresClient = new PostgresClient(config.postgres)
+      if (!(await postgresClient.testConnection())) {
+        postgresClient.close()
+        throw new Error('Cannot connect to PostgreSQL with the new settings')
+      }
+    }
+
+    this.config = config
+    configureLogger(config)
+
+    const context = this.buildContext('sidecar', {
+      config,
+      servarrClient,
+      bazarrClient,
+      qbittorrentClient,
+      postgresClient,
+      approvals: current.approvals,
+    })
+    return {
+      context,
+      history: createHistoryStore(config, postgresClient, this.instanceKey(config)),
+      retire: () => {
+        if (postgresClient !== current.postgresClient) current.postgresClient.close()
+      },
+    }
+  }
+
   async initializeInfrastructure(): Promise<void> {
     logger.info('PrepArr starting infrastructure initialization...', {
       servarrType: this.config.servarr.type,
@@ -138,14 +239,38 @@ class PrepArr {
       }
 
       const context = this.buildContext('sidecar', { servarrClient, bazarrClient })
+      const reloadConfiguration = async () => {
+        const { config } = await loadConfiguration()
+        return config
+      }
 
-      this.reconciliationManager = new ReconciliationManager(context, this.engine, async () => {
-        const { config } = await loadConfigurationSafe()
-        return config as Config
-      })
+      this.reconciliationManager = new ReconciliationManager(
+        context,
+        this.engine,
+        reloadConfiguration,
+        {
+          history: createHistoryStore(this.config, context.postgresClient, this.instanceKey()),
+          reloadContext: (config, current) => this.reloadContext(config, current),
+          // The lock keeps its own connection, which a reload of the postgres settings never closes
+          leader: createLeaderElector(
+            this.config,
+            new PostgresClient(this.config.postgres),
+            this.instanceKey(),
+          ),
+        },
+      )
 
       this.health.setReconciliationManager(this.reconciliationManager)
 
+      const manager = this.reconciliationManager
+      this.dependencies = new DependencyMonitor(
+        () => manager.getContext(),
+        reloadConfiguration,
+        this.config.health.checkInterval,
+      )
+      this.health.setDependencyMonitor(this.dependencies)
+      this.dependencies.start()
+
       await this.reconciliationManager.start()
 
       logger.info('Sidecar initialization completed successfully with continuous reconciliation', {
@@ -165,14 +290,73 @@ class PrepArr {
     }
   }
 
-  shutdown(): void {
+  async plan(format: PlanFormat): Promise<boolean> {
+    logger.info('PrepArr computing reconciliation plan...', {
+      servarrType: this.config.servarr.type,
+      servarrUrl: this.config.servarr.url,
+    })
+
+    const servarrClient = this.createServarrClient()
+    if (servarrClient) {
+      await servarrClient.initializeSidecarMode({ readOnly: true })
+    }
+
+    const bazarrClient = this.createBazarrClient()
+    if (bazarrClient) {
+      await bazarrClient.initialize()
+    }
+
+    const context = this.buildContext('sidecar', { servarrClient, bazarrClient })
+    const result = await this.engine.plan('sidecar', context)
+
+    process.stdout.write(`${formatPlan(result, format)}\n`)
+    return result.success
+  }
+
+  async export(path: string | null, format: ExportFormat): Promise<void> {
+    logger.info('PrepArr exporting live instance state...', {
+      servarrType: this.config.servarr.type,
+      servarrUrl: this.config.servarr.url,
+    })
+
+    const servarrClient = this.createServarrClient()
+    if (servarrClient) {
+      await servarrClient.initializeSidecarMode({ readOnly: true })
+    }
+
+    const bazarrClient = this.createBazarrClient()
+    if (bazarrClient) {
+      await bazarrClient.initialize()
+    }
+
+    const result = await exportConfiguration(this.config, {
+      servarr: servarrClient,
+      bazarr: bazarrClient,
+    })
+    const output = formatExport(result, format)
+
+    if (path) {
+      await Bun.write(path, output)
+      logger.info('Configuration exported', { path, format })
+    } else {
+      process.stdout.write(output)
+    }
+
+    if (result.variables.length > 0) {
+      logger.info('Secrets were replaced with placeholders', { variables: result.variables })
+    }
+  }
+
+  async shutdown(): Promise<void> {
     logger.info('PrepArr shutting down...')
 
+    this.dependencies?.stop()
     if (this.reconciliationManager) {
-      this.reconciliationManager.stop()
+      await this.reconciliationManager.stop()
     }
 
     this.health.stop()
+    await shutdownTracing()
 
     logger.info('PrepArr shutdown completed')
   }
@@ -181,26 +365,50 @@ class PrepArr {
 async function main() {
   const configResult = await loadConfigurationSafe()
   const { config, metadata } = configResult
+  const { plan, export: exporting, exportPath } = metadata.cliArgs
+  if (plan || (exporting && !exportPath)) {
+    // Keep stdout for the plan or exported file, so it can be piped into other tools
+    logToStderr()
+  }
+  configureLogger(config)
+  configureTracing(config.tracing, {
+    'service.instance.id': hostname(),
+    'preparr.instance': config.servarr.url || config.servarr.type,
+  })
 
   getEnvironmentInfo()
 
   const preparr = new PrepArr(config)
 
-  process.on('SIGTERM', () => {
+  process.on('SIGTERM', async () => {
     logger.info('Received SIGTERM, shutting down gracefully...')
-    preparr.shutdown()
+    await preparr.shutdown()
     process.exit(0)
   })
 
-  process.on('SIGINT', () => {
+  process.on('SIGINT', async () => {
     logger.info('Received SIGINT, shutting down gracefully...')
-    preparr.shutdown()
+    await preparr.shutdown()
     process.exit(0)
   })
 
-  if (metadata.cliArgs.init) {
+  if (metadata.cliArgs.export) {
+    logger.info('Running in export mode...')
+    const { exportPath, exportFormat } = metadata.cliArgs
+    await preparr.export(
+      exportPath,
+      exportFormat ?? (exportPath ? detectFileFormat(exportPath) : 'yaml'),
+    )
+    process.exit(0)
+  } else if (metadata.cliArgs.plan) {
+    logger.info('Running in plan mode...')
+    const success = await preparr.plan(metadata.cliArgs.planFormat)
+    await shutdownTracing()
+    process.exit(success ? 0 : 1)
+  } else if (metadata.cliArgs.init) {
     logger.info('Running in init mode...')
     await preparr.initializeInfrastructure()
+    await shutdownTracing()
     logger.info('Init mode completed successfully, exiting...')
     process.exit(0)
   } else {
@@ -209,9 +417,11 @@ async function main() {
   }
 }
 
-try {
-  await main()
-} catch (error) {
-  logger.error('Fatal error during startup', { error })
-  process.exit(1)
+if (import.meta.main) {
+  try {
+    await main()
+  } catch (error) {
+    logger.error('Fatal error during startup', { error })
+    process.exit(1)
+  }
 }
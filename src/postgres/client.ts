@@ -1,6 +1,7 @@
 import { SQL } from 'bun'
 import type { Application, PostgresConfig } from '@/config/schema'
 import { logger } from '@/utils/logger'
+import { withSpan } from '@/utils/tracing'
 
 interface RetryOptions {
   maxRetries?: number
@@ -13,6 +14,12 @@ export class PostgresClient {
   private config: PostgresConfig
   private db: SQL | null = null
   private adminDb: SQL | null = null
+  // Holds session advisory locks, so it is never shared with other queries
+  private lockDb: SQL | null = null
+  private managedResourcesTableReady = false
+  private reconciliationHistoryTableReady = false
+  private auditLogTableReady = false
+  private appliedSecretsTableReady = false
 
   constructor(config: PostgresConfig) {
     this.config = { ...config }
@@ -30,18 +37,21 @@ export class PostgresClient {
 
   private connect(): void {
     if (!this.db) {
-      const connString = this.getConnectionString(this.config.database)
-      this.db = new SQL(connString)
+      this.db = this.open(this.config.database)
       logger.debug('Connected to application database', { database: this.config.database })
     }
 
     if (!this.adminDb) {
-      const adminConnString = this.getConnectionString('postgres')
-      this.adminDb = new SQL(adminConnString)
+      this.adminDb = this.open('postgres')
       logger.debug('Connected to admin database')
     }
   }
 
+  // A connection pool to `database` whose queries are traced
+  private open(database: string): SQL {
+    return traceQueries(new SQL(this.getConnectionString(database)), database, this.config)
+  }
+
   private async withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
     const { maxRetries = 5, initialDelay = 1000, maxDelay = 30000, factor = 2 } = options
 
@@ -91,7 +101,7 @@ export class PostgresClient {
       })
 
       if (result && result[0]?.connected === 1) {
-        logger.info('PostgreSQL connection test successful')
+        logger.debug('PostgreSQL connection test successful')
         return true
       }
       return false
@@ -211,7 +221,7 @@ export class PostgresClient {
       await this.withRetry(
         async () => {
           await this.adminDb?.unsafe(`GRANT ALL PRIVILEGES ON DATABASE ${database} TO ${username}`)
-          const dbConnection = new SQL(this.getConnectionString(database))
+          const dbConnection = this.open(database)
           await dbConnection.unsafe(`GRANT ALL ON SCHEMA public TO ${username}`)
           await dbConnection.unsafe(
             `GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA public TO ${username}`,
@@ -302,6 +312,338 @@ export class PostgresClient {
     }
   }
 
+  /**
+   * Resources PrepArr created in an instance, which the `managed` prune policy may delete.
+   * Kept in a table in the PrepArr database, keyed by instance.
+   */
+  async getManagedResources(
+    instance: string,
+  ): Promise<Array<{ resource: string; identifier: string }>> {
+    const db = await this.getManagedResourcesDb()
+
+    try {
+      const rows: Record<string, unknown>[] = await db`
+        SELECT resource, identifier
+        FROM preparr_managed_resources
+        WHERE instance = ${instance}
+      `
+
+      return rows.map((row) => ({
+        resource: String(row.resource),
+        identifier: String(row.identifier),
+      }))
+    } catch (error) {
+      logger.error('Failed to read managed resources', { instance, error })
+      throw error
+    }
+  }
+
+  async addManagedResource(instance: string, resource: string, identifier: string): Promise<void> {
+    const db = await this.getManagedResourcesDb()
+
+    try {
+      await db`
+        INSERT INTO preparr_managed_resources (instance, resource, identifier)
+        VALUES (${instance}, ${resource}, ${identifier})
+        ON CONFLICT DO NOTHING
+      `
+    } catch (error) {
+      logger.error('Failed to record managed resource', { instance, resource, identifier, error })
+      throw error
+    }
+  }
+
+  async removeManagedResource(
+    instance: string,
+    resource: string,
+    identifier: string,
+  ): Promise<void> {
+    const db = await this.getManagedResourcesDb()
+
+    try {
+      await db`
+        DELETE FROM preparr_managed_resources
+        WHERE instance = ${instance} AND resource = ${resource} AND identifier = ${identifier}
+      `
+    } catch (error) {
+      logger.error('Failed to remove managed resource', { instance, resource, identifier, error })
+      throw error
+    }
+  }
+
+  /**
+   * Hashes of the secret fields PrepArr last wrote to each resource of an instance, since the
+   * instance itself only returns them masked.
+   */
+  async getAppliedSecrets(
+    instance: string,
+  ): Promise<Array<{ resource: string; identifier: string; field: string; hash: string }>> {
+    const db = await this.getAppliedSecretsDb()
+
+    try {
+      const rows: Record<string, unknown>[] = await db`
+        SELECT resource, identifier, field, hash
+        FROM preparr_applied_secrets
+        WHERE instance = ${instance}
+      `
+
+      return rows.map((row) => ({
+        resource: String(row.resource),
+        identifier: String(row.identifier),
+        field: String(row.field),
+        hash: String(row.hash),
+      }))
+    } catch (error) {
+      logger.error('Failed to read applied secrets', { instance, error })
+      throw error
+    }
+  }
+
+  async setAppliedSecret(
+    instance: string,
+    secret: { resource: string; identifier: string; field: string; hash: string },
+  ): Promise<void> {
+    const db = await this.getAppliedSecretsDb()
+    const { resource, identifier, field, hash } = secret
+
+    try {
+      await db`
+        INSERT INTO preparr_applied_secrets (instance, resource, identifier, field, hash)
+        VALUES (${instance}, ${resource}, ${identifier}, ${field}, ${hash})
+        ON CONFLICT (instance, resource, identifier, field)
+        DO UPDATE SET hash = EXCLUDED.hash, updated_at = now()
+      `
+    } catch (error) {
+      logger.error('Failed to record applied secret', { instance, resource, identifier, error })
+      throw error
+    }
+  }
+
+  async removeAppliedSecrets(
+    instance: string,
+    resource: string,
+    identifier: string,
+  ): Promise<void> {
+    const db = await this.getAppliedSecretsDb()
+
+    try {
+      await db`
+        DELETE FROM preparr_applied_secrets
+        WHERE instance = ${instance} AND resource = ${resource} AND identifier = ${identifier}
+      `
+    } catch (error) {
+      logger.error('Failed to remove applied secrets', { instance, resource, identifier, error })
+      throw error
+    }
+  }
+
+  /**
+   * Store a reconciliation cycle and drop the oldest cycles of the instance beyond `retention`.
+   */
+  async addReconciliationRecord(
+    instance: string,
+    startedAt: string,
+    record: object,
+    retention: number,
+  ): Promise<void> {
+    const db = await this.getReconciliationHistoryDb()
+
+    try {
+      await db`
+        INSERT INTO preparr_reconciliation_history (instance, started_at, record)
+        VALUES (${instance}, ${startedAt}, ${JSON.stringify(record)}::jsonb)
+      `
+      await db`
+        DELETE FROM preparr_reconciliation_history
+        WHERE instance = ${instance} AND id <= (
+          SELECT id FROM preparr_reconciliation_history
+          WHERE instance = ${instance}
+          ORDER BY id DESC
+          OFFSET ${retention}
+          LIMIT 1
+        )
+      `
+    } catch (error) {
+      logger.error('Failed to store reconciliation history', { instance, error })
+      throw error
+    }
+  }
+
+  /**
+   * Page through the reconciliation cycles of an instance, newest first. Per-step results are
+   * left out of the returned records.
+   */
+  async getReconciliationRecords(
+    instance: string,
+    limit: number,
+    offset: number,
+  ): Promise<{ records: Array<{ id: number; record: Record<string, unknown> }>; total: number }> {
+    const db = await this.getReconciliationHistoryDb()
+
+    try {
+      const rows: Record<string, unknown>[] = await db`
+        SELECT id, record - 'steps' AS record
+        FROM preparr_reconciliation_history
+        WHERE instance = ${instance}
+        ORDER BY id DESC
+        LIMIT ${limit}
+        OFFSET ${offset}
+      `
+      const [count]: Record<string, unknown>[] = await db`
+        SELECT count(*) AS total
+        FROM preparr_reconciliation_history
+        WHERE instance = ${instance}
+      `
+
+      return {
+        records: rows.map((row) => ({ id: Number(row.id), record: parseRecord(row.record) })),
+        total: Number(count?.total ?? 0),
+      }
+    } catch (error) {
+      logger.error('Failed to read reconciliation history', { instance, error })
+      throw error
+    }
+  }
+
+  async getReconciliationRecord(
+    instance: string,
+    id: number,
+  ): Promise<{ id: number; record: Record<string, unknown> } | undefined> {
+    const db = await this.getReconciliationHistoryDb()
+
+    try {
+      const [row]: Record<string, unknown>[] = await db`
+        SELECT id, record
+        FROM preparr_reconciliation_history
+        WHERE instance = ${instance} AND id = ${id}
+      `
+
+      return row ? { id: Number(row.id), record: parseRecord(row.record) } : undefined
+    } catch (error) {
+      logger.error('Failed to read reconciliation history', { instance, id, error })
+      throw error
+    }
+  }
+
+  /**
+   * Append audit entries of an instance. Entries are never trimmed.
+   */
+  async addAuditEntries(instance: string, entries: Array<{ timestamp: string }>): Promise<void> {
+    const db = await this.getAuditLogDb()
+
+    try {
+      for (const entry of entries) {
+        await db`
+          INSERT INTO preparr_audit_log (instance, recorded_at, entry)
+          VALUES (${instance}, ${entry.timestamp}, ${JSON.stringify(entry)}::jsonb)
+        `
+      }
+    } catch (error) {
+      logger.error('Failed to store audit entries', { instance, error })
+      throw error
+    }
+  }
+
+  private async getAuditLogDb(): Promise<SQL> {
+    this.connect()
+
+    if (!this.db) {
+      throw new Error('Application database connection not established')
+    }
+
+    if (!this.auditLogTableReady) {
+      await this.db`
+        CREATE TABLE IF NOT EXISTS preparr_audit_log (
+          id BIGSERIAL PRIMARY KEY,
+          instance TEXT NOT NULL,
+          recorded_at TIMESTAMPTZ NOT NULL,
+          entry JSONB NOT NULL
+        )
+      `
+      await this.db`
+        CREATE INDEX IF NOT EXISTS preparr_audit_log_instance
+        ON preparr_audit_log (instance, recorded_at)
+      `
+      this.auditLogTableReady = true
+    }
+
+    return this.db
+  }
+
+  private async getReconciliationHistoryDb(): Promise<SQL> {
+    this.connect()
+
+    if (!this.db) {
+      throw new Error('Application database connection not established')
+    }
+
+    if (!this.reconciliationHistoryTableReady) {
+      await this.db`
+        CREATE TABLE IF NOT EXISTS preparr_reconciliation_history (
+          id BIGSERIAL PRIMARY KEY,
+          instance TEXT NOT NULL,
+          started_at TIMESTAMPTZ NOT NULL,
+          record JSONB NOT NULL
+        )
+      `
+      await this.db`
+        CREATE INDEX IF NOT EXISTS preparr_reconciliation_history_instance
+        ON preparr_reconciliation_history (instance, id)
+      `
+      this.reconciliationHistoryTableReady = true
+    }
+
+    return this.db
+  }
+
+  private async getAppliedSecretsDb(): Promise<SQL> {
+    this.connect()
+
+    if (!this.db) {
+      throw new Error('Application database connection not established')
+    }
+
+    if (!this.appliedSecretsTableReady) {
+      await this.db`
+        CREATE TABLE IF NOT EXISTS preparr_applied_secrets (
+          instance TEXT NOT NULL,
+          resource TEXT NOT NULL,
+          identifier TEXT NOT NULL,
+          field TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          PRIMARY KEY (instance, resource, identifier, field)
+        )
+      `
+      this.appliedSecretsTableReady = true
+    }
+
+    return this.db
+  }
+
+  private async getManagedResourcesDb(): Promise<SQL> {
+    this.connect()
+
+    if (!this.db) {
+      throw new Error('Application database connection not established')
+    }
+
+    if (!this.managedResourcesTableReady) {
+      await this.db`
+        CREATE TABLE IF NOT EXISTS preparr_managed_resources (
+          instance TEXT NOT NULL,
+          resource TEXT NOT NULL,
+          identifier TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          PRIMARY KEY (instance, resource, identifier)
+        )
+      `
+      this.managedResourcesTableReady = true
+    }
+
+    return this.db
+  }
+
   async initializeServarrDatabases(servarrType: string): Promise<void> {
     logger.info('Initializing Servarr PostgreSQL databases...', { type: servarrType })
 
@@ -344,10 +686,49 @@ export class PostgresClient {
     logger.info('PostgreSQL initialization completed')
   }
 
+  /**
+   * Take the session advisory lock named `name`, or confirm it is still held. The lock lives on
+   * a dedicated connection and is released when that connection closes or the process dies.
+   */
+  async tryAdvisoryLock(name: string): Promise<boolean> {
+    if (!this.lockDb) {
+      this.lockDb = new SQL({ url: this.getConnectionString('postgres'), max: 1 })
+    }
+
+    // Advisory locks are re-entrant, so a lock this session holds is looked up instead of taken
+    // again. A bigint key shows up in pg_locks split into its high and low 32 bits.
+    const [row] = await this.lockDb`
+      WITH lock AS (SELECT hashtext(${name})::bigint AS key)
+      SELECT CASE
+        WHEN EXISTS (
+          SELECT 1 FROM pg_locks, lock
+          WHERE locktype = 'advisory' AND pid = pg_backend_pid() AND granted AND objsubid = 1
+            AND classid::bigint = (key >> 32) & 4294967295
+            AND objid::bigint = key & 4294967295
+        ) THEN true
+        ELSE (SELECT pg_try_advisory_lock(key) FROM lock)
+      END AS locked
+    `
+    return row?.locked === true
+  }
+
+  releaseAdvisoryLocks(): void {
+    if (this.lockDb) {
+      this.lockDb.close()
+      this.lockDb = null
+      logger.debug('PostgreSQL advisory locks released')
+    }
+  }
+
   close(): void {
+    this.releaseAdvisoryLocks()
     if (this.db) {
       this.db.close()
       this.db = null
+      this.managedResourcesTableReady = false
+      this.reconciliationHistoryTableReady = false
+      this.auditLogTableReady = false
+      this.appliedSecretsTableReady = false
     }
     if (this.adminDb) {
       this.adminDb.close()
@@ -357,6 +738,44 @@ export class PostgresClient {
   }
 }
 
+/**
+ * Run every query of `sql` in a client span. Statements passed to `unsafe` can hold passwords,
+ * so only the text of parameterized queries is recorded.
+ */
+function traceQueries(sql: SQL, database: string, config: PostgresConfig): SQL {
+  const traceQuery = <T>(operation: string, text: string | undefined, run: () => T) =>
+    withSpan(`${operation} ${database}`, async () => await run(), {
+      kind: 'client',
+      attributes: {
+        'db.system.name': 'postgresql',
+        'db.namespace': database,
+        'db.operation.name': operation,
+        'db.query.text': text,
+        'server.address': config.host,
+        'server.port': config.port,
+      },
+    })
+
+  return new Proxy(sql, {
+    apply: (target, thisArg, args: [TemplateStringsArray, ...unknown[]]) => {
+      // Rebuild the statement with the placeholders Postgres sees
+      const text = args[0].reduce((statement, part, index) => `${statement}$${index}${part}`)
+      return traceQuery(operationOf(text), text.trim(), () => Reflect.apply(target, thisArg, args))
+    },
+    get: (target, property) => {
+      if (property === 'unsafe') {
+        return (query: string, ...rest: unknown[]) =>
+          traceQuery(operationOf(query), undefined, () => target.unsafe(query, ...(rest as [])))
+      }
+      const value: unknown = Reflect.get(target, property)
+      return typeof value === 'function' ? value.bind(target) : value
+    },
+  })
+}
+
+const operationOf = (statement: string): string =>
+  statement.trim().split(/\s+/, 1)[0]?.toUpperCase() || 'QUERY'
+
 const syncLevelMap: Application['syncLevel'][] = ['disabled', 'addOnly', 'fullSync']
 
 const normalizeSyncLevel = (value: unknown): Application['syncLevel'] => {
@@ -379,3 +798,8 @@ const normalizeSyncLevel = (value: unknown): Application['syncLevel'] => {
 
   return 'addOnly'
 }
+
+const parseRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'string'
+    ? (JSON.parse(value) as Record<string, unknown>)
+    : (value as Record<string, unknown>)
@@ -2,6 +2,7 @@ import { pbkdf2Sync, randomBytes } from 'node:crypto'
 import { spawn, write } from 'bun'
 import type { QBittorrentConfig, ServiceIntegration } from '@/config/schema'
 import { logger } from '@/utils/logger'
+import { tracedFetch } from '@/utils/tracing'
 
 export class QBittorrentManager {
   private config: ServiceIntegration['qbittorrent']
@@ -97,7 +98,7 @@ WebUI\\Password_PBKDF2="${passwordHash}"
     }
 
     try {
-      const response = await fetch(`${this.config.url}/api/v2/app/version`)
+      const response = await tracedFetch(`${this.config.url}/api/v2/app/version`)
       return response.status === 403 || response.status === 401 || response.status === 200
     } catch (error) {
       logger.debug('qBittorrent connection test failed', { error })
@@ -115,7 +116,7 @@ WebUI\\Password_PBKDF2="${passwordHash}"
       formData.append('username', this.config.username)
       formData.append('password', this.config.password)
 
-      const response = await fetch(`${this.config.url}/api/v2/auth/login`, {
+      const response = await tracedFetch(`${this.config.url}/api/v2/auth/login`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -173,7 +174,7 @@ WebUI\\Password_PBKDF2="${passwordHash}"
         formData.append('category', category)
         formData.append('savePath', `/downloads/${category}`)
 
-        const response = await fetch(`${this.config?.url}/api/v2/torrents/createCategory`, {
+        const response = await tracedFetch(`${this.config?.url}/api/v2/torrents/createCategory`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
@@ -198,7 +199,7 @@ WebUI\\Password_PBKDF2="${passwordHash}"
       const formData = new URLSearchParams()
       formData.append('json', JSON.stringify({ save_path: path }))
 
-      const response = await fetch(`${this.config?.url}/api/v2/app/setPreferences`, {
+      const response = await tracedFetch(`${this.config?.url}/api/v2/app/setPreferences`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
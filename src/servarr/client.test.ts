@@ -1,4 +1,5 @@
-import { afterEach, describe, expect, test } from 'bun:test'
+import type { Mock } from 'bun:test'
+import { afterEach, describe, expect, mock, test } from 'bun:test'
 import { readFileSync, rmSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
@@ -77,4 +78,234 @@ describe('ServarrManager config.xml generation', () => {
     expect(configXml).toContain('<PostgresLogDb>sonarr_log</PostgresLogDb>')
     expect(configXml).toContain('<LogDbEnabled>True</LogDbEnabled>')
   })
+  test('writes host settings from app.host', async () => {
+    const configPath = join(tmpdir(), `servarr-config-${Date.now()}.xml`)
+    const manager = new ServarrManager(
+      {
+        type: 'sonarr',
+        url: 'http://sonarr:8989/sonarr',
+        apiKey: '0123456789abcdef0123456789abcdef',
+        adminUser: 'admin',
+        adminPassword: 'adminpass',
+        authenticationMethod: 'forms',
+      },
+      { configPath },
+    )
+
+    await manager.writeConfigurationOnly(undefined, {
+      urlBase: 'sonarr/',
+      instanceName: 'Sonarr & Friends',
+      authenticationRequired: 'disabledForLocalAddresses',
+      logLevel: 'debug',
+    })
+
+    const configXml = readFileSync(configPath, 'utf8')
+    rmSync(configPath)
+
+    expect(configXml).toContain('<UrlBase>/sonarr</UrlBase>')
+    expect(configXml).toContain('<InstanceName>Sonarr &amp; Friends</InstanceName>')
+    expect(configXml).toContain(
+      '<AuthenticationRequired>DisabledForLocalAddresses</AuthenticationRequired>',
+    )
+    expect(configXml).toContain('<LogLevel>debug</LogLevel>')
+    expect(configXml).toContain('<EnableSsl>False</EnableSsl>')
+  })
+})
+
+describe('ServarrManager quality profiles', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  const existingProfile = {
+    id: 6,
+    name: 'HD-1080p',
+    cutoff: 7,
+    upgradeAllowed: true,
+    items: [
+      { quality: { id: 1, name: 'SDTV' }, items: [], allowed: false },
+      {
+        id: 1001,
+        name: 'WEB 1080p',
+        items: [
+          { quality: { id: 3, name: 'WEBDL-1080p' }, items: [], allowed: false },
+          { quality: { id: 15, name: 'WEBRip-1080p' }, items: [], allowed: false },
+        ],
+        allowed: false,
+      },
+      { quality: { id: 7, name: 'Bluray-1080p' }, items: [], allowed: true },
+    ],
+    formatItems: [],
+    minFormatScore: 0,
+    cutoffFormatScore: 0,
+  }
+
+  const managerWithApi = () => {
+    const fetchMock = mock((input: RequestInfo | URL, _init?: RequestInit) => {
+      const path = new URL(input.toString()).pathname
+      const responses: Record<string, unknown> = {
+        '/api/v3/qualityprofile': [existingProfile],
+        '/api/v3/qualityprofile/6': existingProfile,
+      }
+      const body = responses[path] ?? []
+      return Promise.resolve(new Response(JSON.stringify(body)))
+    }) as Mock<typeof fetch>
+    globalThis.fetch = fetchMock as typeof fetch
+
+    const manager = new ServarrManager({
+      type: 'sonarr',
+      url: 'http://sonarr:8989',
+      apiKey: '0123456789abcdef0123456789abcdef',
+      adminUser: 'admin',
+      adminPassword: 'adminpass',
+      authenticationMethod: 'forms',
+    })
+    Object.assign(manager, { isInitialized: true, apiKey: '0123456789abcdef0123456789abcdef' })
+    return { manager, fetchMock }
+  }
+
+  test('keeps quality groups and the config order when updating a profile', async () => {
+    const { manager, fetchMock } = managerWithApi()
+
+    await manager.updateQualityProfile(6, {
+      name: 'HD-1080p',
+      cutoff: 'WEB 1080p',
+      items: [
+        { quality: { id: 7, name: 'Bluray-1080p' }, allowed: true },
+        { quality: { id: 1001, name: 'WEB 1080p' }, allowed: true },
+      ],
+      formatItems: [],
+      minFormatScore: 0,
+      cutoffFormatScore: 0,
+      upgradeAllowed: true,
+    })
+
+    const [, init] = fetchMock.mock.calls.find(([, init]) => init?.method === 'PUT') ?? []
+    const payload = JSON.parse(String(init?.body))
+
+    expect(payload.cutoff).toBe(1001)
+    expect(payload.items).toEqual([
+      { quality: { id: 1, name: 'SDTV' }, items: [], allowed: false },
+      { quality: { id: 7, name: 'Bluray-1080p' }, items: [], allowed: true },
+      {
+        id: 1001,
+        name: 'WEB 1080p',
+        items: [
+          { quality: { id: 3, name: 'WEBDL-1080p' }, items: [], allowed: true },
+          { quality: { id: 15, name: 'WEBRip-1080p' }, items: [], allowed: true },
+        ],
+        allowed: true,
+      },
+    ])
+  })
+
+  test('reports a group as one item with its name', async () => {
+    const { manager } = managerWithApi()
+
+    const [profile] = await manager.getQualityProfiles()
+
+    expect(profile?.cutoff).toBe('Bluray-1080p')
+    expect(profile?.items.map((item) => [item.quality.name, item.allowed])).toEqual([
+      ['SDTV', false],
+      ['WEB 1080p', false],
+      ['Bluray-1080p', true],
+    ])
+  })
+})
+
+describe('ServarrManager API requests', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test('sends Sonarr and Radarr requests to API v3 and the other apps to API v1', async () => {
+    const fetchMock = mock((_input: RequestInfo | URL, _init?: RequestInit) =>
+      Promise.resolve(new Response('[]')),
+    ) as Mock<typeof fetch>
+    globalThis.fetch = fetchMock as typeof fetch
+
+    const versions = {
+      sonarr: 'v3',
+      radarr: 'v3',
+      lidarr: 'v1',
+      readarr: 'v1',
+      prowlarr: 'v1',
+    } as const
+    for (const [type, version] of Object.entries(versions)) {
+      const manager = new ServarrManager({
+        type: type as keyof typeof versions,
+        url: 'http://servarr:8989',
+        apiKey: '0123456789abcdef0123456789abcdef',
+        adminUser: 'admin',
+        adminPassword: 'adminpass',
+        authenticationMethod: 'forms',
+      })
+      Object.assign(manager, { isInitialized: true, apiKey: '0123456789abcdef0123456789abcdef' })
+
+      await manager.getTags()
+
+      expect(fetchMock.mock.calls.at(-1)?.[0]).toBe(`http://servarr:8989/api/${version}/tag`)
+    }
+  })
+})
+
+describe('ServarrManager delay profiles', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test('changes the order through the reorder endpoint', async () => {
+    const profiles = [
+      { id: 1, order: 2147483647, tags: [] },
+      { id: 4, order: 1, tags: [1] },
+      { id: 5, order: 2, tags: [2] },
+      { id: 6, order: 3, tags: [3] },
+    ]
+    const fetchMock = mock((input: RequestInfo | URL, _init?: RequestInit) => {
+      const path = new URL(input.toString()).pathname
+      const body = path === '/api/v3/delayprofile/6' ? profiles[3] : profiles
+      return Promise.resolve(new Response(JSON.stringify(body)))
+    }) as Mock<typeof fetch>
+    globalThis.fetch = fetchMock as typeof fetch
+
+    const manager = new ServarrManager({
+      type: 'sonarr',
+      url: 'http://sonarr:8989',
+      apiKey: '0123456789abcdef0123456789abcdef',
+      adminUser: 'admin',
+      adminPassword: 'adminpass',
+      authenticationMethod: 'forms',
+    })
+    Object.assign(manager, { isInitialized: true, apiKey: '0123456789abcdef0123456789abcdef' })
+
+    await manager.updateDelayProfile(6, {
+      enableUsenet: true,
+      enableTorrent: true,
+      preferredProtocol: 'usenet',
+      usenetDelay: 0,
+      torrentDelay: 0,
+      bypassIfHighestQuality: false,
+      bypassIfAboveCustomFormatScore: false,
+      minimumCustomFormatScore: 0,
+      order: 2,
+      tags: [3],
+    })
+
+    const requests = fetchMock.mock.calls.map(([input, init]) => [init?.method, input.toString()])
+    expect(requests).toContainEqual([
+      'PUT',
+      'http://sonarr:8989/api/v3/delayprofile/reorder/6?afterId=4',
+    ])
+    const [, update] =
+      fetchMock.mock.calls.find(
+        ([input, init]) => init?.method === 'PUT' && input.toString().endsWith('/delayprofile/6'),
+      ) ?? []
+    expect(JSON.parse(String(update?.body)).order).toBe(3)
+  })
 })
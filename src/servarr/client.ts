@@ -1,33 +1,68 @@
 import type { Sonarr } from 'tsarr'
-import type {
-  Application,
-  CustomFormat,
-  DownloadClient,
-  Indexer,
-  MediaManagementConfig,
-  NamingConfig,
-  PostgresConfig,
-  QualityDefinition,
-  ReleaseProfile,
-  RootFolder,
-  ServarrConfig,
+import {
+  type Application,
+  type CustomFormat,
+  type DelayProfile,
+  type DownloadClient,
+  type HostConfig,
+  hostConfigKeys,
+  type ImportList,
+  type ImportListExclusion,
+  type Indexer,
+  type MediaManagementConfig,
+  type NamingConfig,
+  type Notification,
+  notificationEventKeys,
+  type PostgresConfig,
+  type QualityDefinition,
+  type QualityProfile,
+  type ReleaseProfile,
+  type RemotePathMapping,
+  type RootFolder,
+  type ServarrConfig,
+  type TagReference,
 } from '@/config/schema'
 import { logger } from '@/utils/logger'
 import { withRetry } from '@/utils/retry'
+import { tracedFetch } from '@/utils/tracing'
 import { ServarrApiClient } from './api-client'
-import { ConfigXmlWriter } from './config-writer'
+import { ConfigXmlWriter, normalizeUrlBase } from './config-writer'
 import type {
   ClientCapabilities,
   ClientWithApplications,
   ClientWithDownloadClients,
   ClientWithIndexers,
   ClientWithRootFolders,
+  DelayProfileResource,
   DownloadClientResource,
+  HostConfigResource,
+  ImportListResource,
   IndexerResource,
+  NotificationResource,
+  QualityProfileQualityItemResource,
+  QualityProfileResource,
+  RemotePathMappingResource,
   ServarrClientType,
+  ServarrTag,
+  TagResource,
 } from './types'
 import { ServarrUserManager } from './user-manager'
 
+// Servarr returns privacy fields such as API keys and passwords with this placeholder
+export const MASKED_FIELD_VALUE = '********'
+
+// Prowlarr names the indexers it syncs to an application after itself
+export const isProwlarrIndexer = (indexer: { name: string }): boolean =>
+  indexer.name.endsWith('(Prowlarr)')
+
+// Library endpoint per Servarr type, listing the series, movies, artists or authors
+const libraryEndpoints: Partial<Record<string, string>> = {
+  sonarr: '/series',
+  radarr: '/movie',
+  lidarr: '/artist',
+  readarr: '/author',
+}
+
 export class ServarrManager {
   private client: ServarrClientType | null = null
   private config: ServarrConfig
@@ -36,6 +71,8 @@ export class ServarrManager {
   private configPath: string
   private capabilities: ClientCapabilities
   private logDatabaseEnabled: boolean
+  private tagLabelsById = new Map<number, string>()
+  private qualityProfileNamesById = new Map<number, string>()
 
   // Delegate modules
   private configWriter: ConfigXmlWriter
@@ -68,6 +105,11 @@ export class ServarrManager {
       hasNamingConfig: type !== 'prowlarr' && type !== 'qbittorrent',
       hasMediaManagement: type !== 'prowlarr' && type !== 'qbittorrent',
       hasQualityDefinitions: type !== 'prowlarr' && type !== 'qbittorrent',
+      hasTags: type !== 'qbittorrent',
+      hasNotifications: type !== 'qbittorrent',
+      hasDelayProfiles: type !== 'prowlarr' && type !== 'qbittorrent',
+      hasImportLists: type !== 'prowlarr' && type !== 'qbittorrent',
+      hasRemotePathMappings: type !== 'prowlarr' && type !== 'qbittorrent',
     }
   }
 
@@ -92,14 +134,14 @@ export class ServarrManager {
     return result.data
   }
 
-  private mapToTsarrIndexer(indexer: Indexer): Partial<IndexerResource> {
+  private mapToTsarrIndexer(indexer: Indexer, tagIds: number[]): Partial<IndexerResource> {
     const tsarrIndexer: Partial<IndexerResource> = {
       name: indexer.name,
       implementation: indexer.implementation,
       implementationName: indexer.implementationName,
       configContract: indexer.configContract,
       infoLink: indexer.infoLink ?? null,
-      tags: indexer.tags,
+      tags: tagIds,
       fields: indexer.fields?.map((field) => ({
         name: field.name,
         value: field.value as string | number | boolean | number[],
@@ -155,7 +197,10 @@ export class ServarrManager {
     }
   }
 
-  private mapToTsarrApplication(application: Application): Record<string, unknown> {
+  private mapToTsarrApplication(
+    application: Application,
+    tagIds: number[],
+  ): Record<string, unknown> {
     const mapped = {
       name: application.name,
       implementation: application.implementation,
@@ -167,7 +212,7 @@ export class ServarrManager {
       })),
       enable: application.enable,
       syncLevel: application.syncLevel,
-      tags: application.tags,
+      tags: tagIds,
     }
 
     logger.info('Mapping application for Prowlarr', {
@@ -212,7 +257,7 @@ export class ServarrManager {
     return await this.apiClient.detectServarrType()
   }
 
-  async writeConfigurationOnly(servarrConfigApiKey?: string): Promise<void> {
+  async writeConfigurationOnly(servarrConfigApiKey?: string, host?: HostConfig): Promise<void> {
     logger.info('Writing Servarr configuration only (init mode)...')
 
     if (this.config.type === 'auto') {
@@ -223,14 +268,23 @@ export class ServarrManager {
 
     const apiKey = servarrConfigApiKey || this.config.apiKey || ''
     this.apiKey = apiKey
-    await this.configWriter.writeConfigXml(apiKey, servarrConfigApiKey)
+    await this.configWriter.writeConfigXml(apiKey, servarrConfigApiKey, host)
     logger.info('Configuration writing completed', { type: this.config.type })
   }
 
-  async initializeSidecarMode(): Promise<void> {
-    logger.info('Initializing ServarrManager for sidecar mode...', { type: this.config.type })
+  /**
+   * Connect to a running Servarr instance. With `readOnly`, no initial user is created and
+   * the configured API key is used when config.xml is not mounted (e.g. plan runs in CI).
+   */
+  async initializeSidecarMode(options?: { readOnly?: boolean }): Promise<void> {
+    logger.info('Initializing ServarrManager for sidecar mode...', {
+      type: this.config.type,
+      readOnly: options?.readOnly ?? false,
+    })
 
-    const existingApiKey = await this.configWriter.readExistingApiKey()
+    const existingApiKey =
+      (await this.configWriter.readExistingApiKey()) ??
+      (options?.readOnly ? (this.config.apiKey ?? null) : null)
     if (!existingApiKey) {
       throw new Error('No API key found in config.xml - init container may have failed')
     }
@@ -263,7 +317,7 @@ export class ServarrManager {
     this.client = this.apiClient.createClient(this.apiKey)
     this.isInitialized = true
 
-    if (this.config.adminPassword) {
+    if (this.config.adminPassword && !options?.readOnly) {
       await this.userManager.createInitialUser()
     }
 
@@ -591,6 +645,7 @@ export class ServarrManager {
       if (!indexers) return []
 
       return indexers.map((indexer) => ({
+        id: indexer.id,
         name: indexer.name || '',
         implementation: indexer.implementation || '',
         implementationName: indexer.implementationName || '',
@@ -602,8 +657,11 @@ export class ServarrManager {
             name: field.name || '',
             value: field.value as string | number | boolean | number[],
           })) ?? [],
-        enable: indexer.enableRss ?? false,
+        // Prowlarr indexers have a single enable flag and an app profile, which are not part of
+        // the shared resource type
+        enable: (indexer as { enable?: boolean }).enable ?? indexer.enableRss ?? false,
         priority: indexer.priority ?? 0,
+        appProfileId: (indexer as { appProfileId?: number }).appProfileId,
       }))
     } catch (error) {
       logger.error('Failed to get indexers', { error })
@@ -635,7 +693,7 @@ export class ServarrManager {
         throw new Error('Indexers not supported by this client')
       }
 
-      const tsarrIndexer = this.mapToTsarrIndexer(indexer)
+      const tsarrIndexer = this.mapToTsarrIndexer(indexer, await this.resolveTagIds(indexer.tags))
       logger.info('About to add indexer to Prowlarr', {
         name: indexer.name,
         indexerData: JSON.stringify(tsarrIndexer, null, 2),
@@ -651,6 +709,56 @@ export class ServarrManager {
     }
   }
 
+  /**
+   * Update an existing indexer in place so it keeps its ID, which Prowlarr history and
+   * application sync refer to. Fields not present in the config keep their current values.
+   */
+  async updateIndexer(id: number, indexer: Indexer): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.client) {
+      throw new Error('Client not initialized')
+    }
+
+    logger.info('Updating indexer...', { id, name: indexer.name })
+
+    try {
+      if (!this.hasIndexers(this.client)) {
+        throw new Error('Indexers not supported by this client')
+      }
+
+      const result = await this.client.getIndexers()
+      const existing = this.handleTsarrResponse(result)?.find((i) => i.id === id)
+
+      if (!existing) {
+        throw new Error(`Indexer with ID ${id} not found`)
+      }
+
+      const desired = this.mapToTsarrIndexer(indexer, await this.resolveTagIds(indexer.tags))
+      const desiredValues = new Map(indexer.fields.map((field) => [field.name, field.value]))
+      const fields = (existing.fields ?? []).map((field) =>
+        field.name && desiredValues.has(field.name)
+          ? { ...field, value: desiredValues.get(field.name) }
+          : field,
+      )
+
+      const updateResult = await this.client.updateIndexer(id, {
+        ...existing,
+        ...desired,
+        id,
+        fields,
+      })
+      this.handleTsarrResponse(updateResult)
+
+      logger.info('Indexer updated successfully', { id, name: indexer.name })
+    } catch (error) {
+      logger.error('Failed to update indexer', { id, name: indexer.name, error })
+      throw error
+    }
+  }
+
   async configureIndexers(indexers: Indexer[]): Promise<void> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
@@ -684,7 +792,9 @@ export class ServarrManager {
 
       for (const indexer of indexers) {
         try {
-          const testResult = await this.client?.testIndexer(this.mapToTsarrIndexer(indexer))
+          const testResult = await this.client?.testIndexer(
+            this.mapToTsarrIndexer(indexer, await this.resolveTagIds(indexer.tags)),
+          )
 
           if (testResult?.data) {
             logger.info('Indexer test successful', { name: indexer.name })
@@ -1019,7 +1129,10 @@ export class ServarrManager {
         hasAddApplicationMethod: 'addApplication' in this.client,
       })
 
-      const mappedApp = this.mapToTsarrApplication(application)
+      const mappedApp = this.mapToTsarrApplication(
+        application,
+        await this.resolveTagIds(application.tags),
+      )
 
       logger.info('Calling tsarr addApplication', {
         appName: mappedApp.name,
@@ -1150,8 +1263,10 @@ export class ServarrManager {
       throw new Error('API key not available')
     }
 
-    const url = `${this.config.url}/api/v3${endpoint}`
-    const response = await fetch(url, {
+    // Sonarr and Radarr serve API v3, Prowlarr, Lidarr and Readarr API v1
+    const apiVersion = this.config.type === 'sonarr' || this.config.type === 'radarr' ? 'v3' : 'v1'
+    const url = `${this.config.url}/api/${apiVersion}${endpoint}`
+    const response = await tracedFetch(url, {
       method: options.method || 'GET',
       headers: {
         'X-Api-Key': this.apiKey,
@@ -1177,362 +1292,1622 @@ export class ServarrManager {
   }
 
   // ============================================
-  // Custom Formats (Radarr/Sonarr v4+)
+  // Tags
   // ============================================
 
-  async getCustomFormats(): Promise<CustomFormat[]> {
+  async getTags(): Promise<ServarrTag[]> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasCustomFormats) {
-      logger.debug('Custom formats not supported for this Servarr type')
+    if (!this.capabilities.hasTags) {
+      logger.debug('Tags not supported for this Servarr type')
       return []
     }
 
     try {
-      const formats = await this.fetchApi<CustomFormat[]>('/customformat')
-      return formats || []
+      const tags = await this.fetchApi<TagResource[]>('/tag')
+      return this.cacheTags(tags || [])
     } catch (error) {
-      logger.error('Failed to get custom formats', { error })
+      logger.error('Failed to get tags', { error })
       throw error
     }
   }
 
-  async addCustomFormat(customFormat: CustomFormat): Promise<CustomFormat> {
+  /**
+   * Like getTags, but also reports whether each tag is still referenced by any resource.
+   */
+  async getTagDetails(): Promise<ServarrTag[]> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasCustomFormats) {
-      throw new Error('Custom formats not supported for this Servarr type')
+    if (!this.capabilities.hasTags) {
+      logger.debug('Tags not supported for this Servarr type')
+      return []
     }
 
-    logger.info('Adding custom format...', { name: customFormat.name })
-
     try {
-      const result = await this.fetchApi<CustomFormat>('/customformat', {
-        method: 'POST',
-        body: customFormat,
-      })
+      const details = await this.fetchApi<(TagResource & Record<string, unknown>)[]>('/tag/detail')
+      const tags = this.cacheTags(details || [])
+      const usedIds = new Set(
+        (details || [])
+          .filter((detail) =>
+            Object.entries(detail).some(
+              ([key, value]) => key.endsWith('Ids') && Array.isArray(value) && value.length > 0,
+            ),
+          )
+          .map((detail) => detail.id),
+      )
 
-      logger.info('Custom format added successfully', { name: customFormat.name, id: result.id })
-      return result
+      return tags.map((tag) => ({ ...tag, inUse: usedIds.has(tag.id) }))
     } catch (error) {
-      logger.error('Failed to add custom format', { name: customFormat.name, error })
+      logger.error('Failed to get tag details', { error })
       throw error
     }
   }
 
-  async updateCustomFormat(id: number, customFormat: CustomFormat): Promise<CustomFormat> {
+  async addTag(label: string): Promise<ServarrTag> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasCustomFormats) {
-      throw new Error('Custom formats not supported for this Servarr type')
+    if (!this.capabilities.hasTags) {
+      throw new Error('Tags not supported for this Servarr type')
     }
 
-    logger.info('Updating custom format...', { id, name: customFormat.name })
+    logger.info('Adding tag...', { label })
 
     try {
-      const result = await this.fetchApi<CustomFormat>(`/customformat/${id}`, {
-        method: 'PUT',
-        body: { ...customFormat, id },
+      const result = await this.fetchApi<TagResource>('/tag', {
+        method: 'POST',
+        body: { label },
       })
+      const [tag] = this.cacheTags([result])
+      if (!tag) {
+        throw new Error(`No tag returned for label ${label}`)
+      }
 
-      logger.info('Custom format updated successfully', { name: customFormat.name, id })
-      return result
+      logger.info('Tag added successfully', { label, id: tag.id })
+      return tag
     } catch (error) {
-      logger.error('Failed to update custom format', { id, name: customFormat.name, error })
+      logger.error('Failed to add tag', { label, error })
       throw error
     }
   }
 
-  async deleteCustomFormat(id: number): Promise<void> {
+  async deleteTag(id: number): Promise<void> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasCustomFormats) {
-      throw new Error('Custom formats not supported for this Servarr type')
+    if (!this.capabilities.hasTags) {
+      throw new Error('Tags not supported for this Servarr type')
     }
 
-    logger.info('Deleting custom format...', { id })
+    logger.info('Deleting tag...', { id })
 
     try {
-      await this.fetchApi(`/customformat/${id}`, { method: 'DELETE' })
-      logger.info('Custom format deleted successfully', { id })
+      await this.fetchApi(`/tag/${id}`, { method: 'DELETE' })
+      this.tagLabelsById.delete(id)
+      logger.info('Tag deleted successfully', { id })
     } catch (error) {
-      logger.error('Failed to delete custom format', { id, error })
+      logger.error('Failed to delete tag', { id, error })
       throw error
     }
   }
 
+  /**
+   * Resolve tag references from the config to tag IDs. Labels are matched case-insensitively
+   * because Servarr stores them in lowercase; unknown labels are an error rather than being
+   * silently dropped.
+   */
+  async resolveTagIds(tags: TagReference[]): Promise<number[]> {
+    const labels = tags.filter((tag): tag is string => typeof tag === 'string')
+    const known = new Set(this.tagLabelsById.values())
+    if (labels.some((label) => !known.has(label.toLowerCase()))) {
+      await this.getTags()
+    }
+
+    const idsByLabel = new Map([...this.tagLabelsById].map(([id, label]) => [label, id]))
+    return tags.map((tag) => {
+      if (typeof tag === 'number') {
+        return tag
+      }
+      const id = idsByLabel.get(tag.toLowerCase())
+      if (id === undefined) {
+        throw new Error(`Unknown tag "${tag}". Add it to app.tags or create it in the UI first`)
+      }
+      return id
+    })
+  }
+
+  /**
+   * Normalize tag references for comparison: IDs are replaced by their label when known, and
+   * the result is sorted so order in the config does not matter. Call getTags first so the
+   * label lookup is current.
+   */
+  tagKeys(tags: TagReference[]): string[] {
+    return tags
+      .map((tag) =>
+        typeof tag === 'string' ? tag.toLowerCase() : (this.tagLabelsById.get(tag) ?? `#${tag}`),
+      )
+      .sort()
+  }
+
+  private cacheTags(resources: TagResource[]): ServarrTag[] {
+    const tags: ServarrTag[] = []
+    for (const resource of resources) {
+      if (resource.id === undefined || !resource.label) continue
+      const label = resource.label.toLowerCase()
+      this.tagLabelsById.set(resource.id, label)
+      tags.push({ id: resource.id, label })
+    }
+    return tags
+  }
+
   // ============================================
-  // Release Profiles (Sonarr only)
+  // Notifications (Connect)
   // ============================================
 
-  async getReleaseProfiles(): Promise<ReleaseProfile[]> {
+  async getNotifications(): Promise<Notification[]> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasReleaseProfiles) {
-      logger.debug('Release profiles not supported for this Servarr type')
+    if (!this.capabilities.hasNotifications) {
+      logger.debug('Notifications not supported for this Servarr type')
       return []
     }
 
     try {
-      const profiles = await this.fetchApi<ReleaseProfile[]>('/releaseprofile')
-      return profiles || []
+      const notifications = await this.fetchApi<NotificationResource[]>('/notification')
+      return (notifications || []).map((notification) =>
+        this.mapFromNotificationResource(notification),
+      )
     } catch (error) {
-      logger.error('Failed to get release profiles', { error })
+      logger.error('Failed to get notifications', { error })
       throw error
     }
   }
 
-  async addReleaseProfile(releaseProfile: ReleaseProfile): Promise<ReleaseProfile> {
+  async addNotification(notification: Notification): Promise<Notification> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasReleaseProfiles) {
-      throw new Error('Release profiles not supported for this Servarr type')
+    if (!this.capabilities.hasNotifications) {
+      throw new Error('Notifications not supported for this Servarr type')
     }
 
-    logger.info('Adding release profile...', { name: releaseProfile.name })
+    logger.info('Adding notification...', {
+      name: notification.name,
+      implementation: notification.implementation,
+    })
 
     try {
-      const result = await this.fetchApi<ReleaseProfile>('/releaseprofile', {
+      const result = await this.fetchApi<NotificationResource>('/notification', {
         method: 'POST',
-        body: releaseProfile,
+        body: await this.buildNotificationPayload(notification),
       })
 
-      logger.info('Release profile added successfully', {
-        name: releaseProfile.name,
-        id: result.id,
-      })
-      return result
+      logger.info('Notification added successfully', { name: notification.name, id: result.id })
+      return this.mapFromNotificationResource(result)
     } catch (error) {
-      logger.error('Failed to add release profile', { name: releaseProfile.name, error })
+      logger.error('Failed to add notification', { name: notification.name, error })
       throw error
     }
   }
 
-  async updateReleaseProfile(id: number, releaseProfile: ReleaseProfile): Promise<ReleaseProfile> {
+  /**
+   * Update a notification in place. Fields and event toggles that are not in the config keep
+   * their current values.
+   */
+  async updateNotification(id: number, notification: Notification): Promise<Notification> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasReleaseProfiles) {
-      throw new Error('Release profiles not supported for this Servarr type')
+    if (!this.capabilities.hasNotifications) {
+      throw new Error('Notifications not supported for this Servarr type')
     }
 
-    logger.info('Updating release profile...', { id, name: releaseProfile.name })
+    logger.info('Updating notification...', { id, name: notification.name })
 
     try {
-      const result = await this.fetchApi<ReleaseProfile>(`/releaseprofile/${id}`, {
+      const existing = await this.fetchApi<NotificationResource>(`/notification/${id}`)
+      const payload = await this.buildNotificationPayload(notification)
+      const desiredValues = new Map(notification.fields.map((field) => [field.name, field.value]))
+      const fields = (existing.fields ?? []).map((field) =>
+        field.name && desiredValues.has(field.name)
+          ? { ...field, value: desiredValues.get(field.name) }
+          : field,
+      )
+
+      const result = await this.fetchApi<NotificationResource>(`/notification/${id}`, {
         method: 'PUT',
-        body: { ...releaseProfile, id },
+        body: { ...existing, ...payload, id, fields },
       })
 
-      logger.info('Release profile updated successfully', { name: releaseProfile.name, id })
-      return result
+      logger.info('Notification updated successfully', { name: notification.name, id })
+      return this.mapFromNotificationResource(result)
     } catch (error) {
-      logger.error('Failed to update release profile', { id, name: releaseProfile.name, error })
+      logger.error('Failed to update notification', { id, name: notification.name, error })
       throw error
     }
   }
 
-  async deleteReleaseProfile(id: number): Promise<void> {
+  async deleteNotification(id: number): Promise<void> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasReleaseProfiles) {
-      throw new Error('Release profiles not supported for this Servarr type')
+    if (!this.capabilities.hasNotifications) {
+      throw new Error('Notifications not supported for this Servarr type')
     }
 
-    logger.info('Deleting release profile...', { id })
+    logger.info('Deleting notification...', { id })
 
     try {
-      await this.fetchApi(`/releaseprofile/${id}`, { method: 'DELETE' })
-      logger.info('Release profile deleted successfully', { id })
+      await this.fetchApi(`/notification/${id}`, { method: 'DELETE' })
+      logger.info('Notification deleted successfully', { id })
     } catch (error) {
-      logger.error('Failed to delete release profile', { id, error })
+      logger.error('Failed to delete notification', { id, error })
       throw error
     }
   }
 
+  private mapFromNotificationResource(resource: NotificationResource): Notification {
+    const events = resource as Record<string, unknown>
+    const notification: Notification = {
+      id: resource.id,
+      name: resource.name || '',
+      implementation: resource.implementation || '',
+      implementationName: resource.implementationName || '',
+      configContract: resource.configContract || '',
+      fields:
+        resource.fields?.map((field) => ({
+          name: field.name || '',
+          value: field.value as string | number | boolean | number[],
+        })) ?? [],
+      tags: resource.tags ?? [],
+    }
+
+    // Only keep the toggles this Servarr type knows about
+    for (const key of notificationEventKeys) {
+      if (typeof events[key] === 'boolean') {
+        notification[key] = events[key]
+      }
+    }
+
+    return notification
+  }
+
+  private async buildNotificationPayload(
+    notification: Notification,
+  ): Promise<Record<string, unknown>> {
+    const { id: _id, ...rest } = notification
+    return { ...rest, tags: await this.resolveTagIds(notification.tags) }
+  }
+
   // ============================================
-  // Naming Configuration
+  // Custom Formats (Radarr/Sonarr v4+)
   // ============================================
 
-  async getNamingConfig(): Promise<NamingConfig | null> {
+  async getCustomFormats(): Promise<CustomFormat[]> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasNamingConfig) {
-      logger.debug('Naming config not supported for this Servarr type')
-      return null
+    if (!this.capabilities.hasCustomFormats) {
+      logger.debug('Custom formats not supported for this Servarr type')
+      return []
     }
 
     try {
-      const config = await this.fetchApi<NamingConfig>('/config/naming')
-      return config
+      const formats = await this.fetchApi<CustomFormat[]>('/customformat')
+      return formats || []
     } catch (error) {
-      logger.error('Failed to get naming config', { error })
+      logger.error('Failed to get custom formats', { error })
       throw error
     }
   }
 
-  async updateNamingConfig(namingConfig: Partial<NamingConfig>): Promise<NamingConfig> {
+  async addCustomFormat(customFormat: CustomFormat): Promise<CustomFormat> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasNamingConfig) {
-      throw new Error('Naming config not supported for this Servarr type')
+    if (!this.capabilities.hasCustomFormats) {
+      throw new Error('Custom formats not supported for this Servarr type')
     }
 
-    logger.info('Updating naming config...')
+    logger.info('Adding custom format...', { name: customFormat.name })
 
     try {
-      const current = await this.getNamingConfig()
-      const merged = { ...current, ...namingConfig, id: 1 }
-
-      const result = await this.fetchApi<NamingConfig>('/config/naming/1', {
-        method: 'PUT',
-        body: merged,
+      const result = await this.fetchApi<CustomFormat>('/customformat', {
+        method: 'POST',
+        body: customFormat,
       })
 
-      logger.info('Naming config updated successfully')
+      logger.info('Custom format added successfully', { name: customFormat.name, id: result.id })
       return result
     } catch (error) {
-      logger.error('Failed to update naming config', { error })
+      logger.error('Failed to add custom format', { name: customFormat.name, error })
       throw error
     }
   }
 
-  // ============================================
-  // Media Management Configuration
-  // ============================================
-
-  async getMediaManagementConfig(): Promise<MediaManagementConfig | null> {
+  async updateCustomFormat(id: number, customFormat: CustomFormat): Promise<CustomFormat> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasMediaManagement) {
-      logger.debug('Media management config not supported for this Servarr type')
-      return null
+    if (!this.capabilities.hasCustomFormats) {
+      throw new Error('Custom formats not supported for this Servarr type')
     }
 
+    logger.info('Updating custom format...', { id, name: customFormat.name })
+
     try {
-      const config = await this.fetchApi<MediaManagementConfig>('/config/mediamanagement')
-      return config
+      const result = await this.fetchApi<CustomFormat>(`/customformat/${id}`, {
+        method: 'PUT',
+        body: { ...customFormat, id },
+      })
+
+      logger.info('Custom format updated successfully', { name: customFormat.name, id })
+      return result
     } catch (error) {
-      logger.error('Failed to get media management config', { error })
+      logger.error('Failed to update custom format', { id, name: customFormat.name, error })
       throw error
     }
   }
 
-  async updateMediaManagementConfig(
-    mediaConfig: Partial<MediaManagementConfig>,
-  ): Promise<MediaManagementConfig> {
+  async deleteCustomFormat(id: number): Promise<void> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasMediaManagement) {
-      throw new Error('Media management config not supported for this Servarr type')
+    if (!this.capabilities.hasCustomFormats) {
+      throw new Error('Custom formats not supported for this Servarr type')
     }
 
-    logger.info('Updating media management config...')
+    logger.info('Deleting custom format...', { id })
 
     try {
-      const current = await this.getMediaManagementConfig()
-      const merged = { ...current, ...mediaConfig, id: 1 }
-
-      const result = await this.fetchApi<MediaManagementConfig>('/config/mediamanagement/1', {
-        method: 'PUT',
-        body: merged,
-      })
-
-      logger.info('Media management config updated successfully')
-      return result
+      await this.fetchApi(`/customformat/${id}`, { method: 'DELETE' })
+      logger.info('Custom format deleted successfully', { id })
     } catch (error) {
-      logger.error('Failed to update media management config', { error })
+      logger.error('Failed to delete custom format', { id, error })
       throw error
     }
   }
 
   // ============================================
-  // Quality Definitions
+  // Quality Profiles
   // ============================================
 
-  async getQualityDefinitions(): Promise<QualityDefinition[]> {
+  async getQualityProfiles(): Promise<QualityProfile[]> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasQualityDefinitions) {
-      logger.debug('Quality definitions not supported for this Servarr type')
+    if (!this.capabilities.hasQualityProfiles) {
+      logger.debug('Quality profiles not supported for this Servarr type')
       return []
     }
 
     try {
-      interface ApiQualityDefinition {
-        id: number
-        quality: { id: number; name: string }
-        title: string
-        minSize: number
-        maxSize: number
-        preferredSize: number
-      }
-
-      const definitions = await this.fetchApi<ApiQualityDefinition[]>('/qualitydefinition')
+      const profiles = await this.fetchApi<QualityProfileResource[]>('/qualityprofile')
+      const formatNames = await this.getCustomFormatNamesById()
 
-      return (definitions || []).map((def) => ({
-        quality: def.quality?.name || '',
-        title: def.title,
-        minSize: def.minSize,
-        maxSize: def.maxSize,
-        preferredSize: def.preferredSize,
-      }))
+      return (profiles || []).map((profile) =>
+        this.mapFromQualityProfileResource(profile, formatNames),
+      )
     } catch (error) {
-      logger.error('Failed to get quality definitions', { error })
+      logger.error('Failed to get quality profiles', { error })
       throw error
     }
   }
 
-  async updateQualityDefinition(
-    qualityName: string,
-    updates: Partial<QualityDefinition>,
-  ): Promise<void> {
+  async addQualityProfile(qualityProfile: QualityProfile): Promise<QualityProfile> {
     if (!this.isInitialized || !this.apiKey) {
       throw new Error('ServarrManager not initialized')
     }
 
-    if (!this.capabilities.hasQualityDefinitions) {
-      throw new Error('Quality definitions not supported for this Servarr type')
+    if (!this.capabilities.hasQualityProfiles) {
+      throw new Error('Quality profiles not supported for this Servarr type')
     }
 
-    logger.info('Updating quality definition...', { qualityName })
+    logger.info('Adding quality profile...', { name: qualityProfile.name })
 
     try {
-      interface ApiQualityDefinition {
-        id: number
-        quality: { id: number; name: string }
-        title: string
-        minSize: number
-        maxSize: number
-        preferredSize: number
-      }
+      // The schema endpoint returns a template containing every quality known to the instance
+      const template = await this.fetchApi<QualityProfileResource>('/qualityprofile/schema')
+      const payload = await this.buildQualityProfilePayload(qualityProfile, template)
 
-      const definitions = await this.fetchApi<ApiQualityDefinition[]>('/qualitydefinition')
+      const result = await this.fetchApi<QualityProfileResource>('/qualityprofile', {
+        method: 'POST',
+        body: payload,
+      })
+
+      logger.info('Quality profile added successfully', {
+        name: qualityProfile.name,
+        id: result.id,
+      })
+      return { ...qualityProfile, id: result.id }
+    } catch (error) {
+      logger.error('Failed to add quality profile', { name: qualityProfile.name, error })
+      throw error
+    }
+  }
+
+  async updateQualityProfile(id: number, qualityProfile: QualityProfile): Promise<QualityProfile> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasQualityProfiles) {
+      throw new Error('Quality profiles not supported for this Servarr type')
+    }
+
+    logger.info('Updating quality profile...', { id, name: qualityProfile.name })
+
+    try {
+      const existing = await this.fetchApi<QualityProfileResource>(`/qualityprofile/${id}`)
+      const payload = await this.buildQualityProfilePayload(qualityProfile, existing)
+
+      await this.fetchApi<QualityProfileResource>(`/qualityprofile/${id}`, {
+        method: 'PUT',
+        body: { ...payload, id },
+      })
+
+      logger.info('Quality profile updated successfully', { name: qualityProfile.name, id })
+      return { ...qualityProfile, id }
+    } catch (error) {
+      logger.error('Failed to update quality profile', { id, name: qualityProfile.name, error })
+      throw error
+    }
+  }
+
+  async deleteQualityProfile(id: number): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasQualityProfiles) {
+      throw new Error('Quality profiles not supported for this Servarr type')
+    }
+
+    logger.info('Deleting quality profile...', { id })
+
+    try {
+      await this.fetchApi(`/qualityprofile/${id}`, { method: 'DELETE' })
+      logger.info('Quality profile deleted successfully', { id })
+    } catch (error) {
+      logger.error('Failed to delete quality profile', { id, error })
+      throw error
+    }
+  }
+
+  private async getCustomFormatNamesById(): Promise<Map<number, string>> {
+    const formats = await this.getCustomFormats()
+    return new Map(
+      formats
+        .filter((format): format is CustomFormat & { id: number } => format.id !== undefined)
+        .map((format) => [format.id, format.name]),
+    )
+  }
+
+  /**
+   * The top-level entries of a profile: single qualities and quality groups, in the order
+   * Servarr ranks them (lowest priority first). Groups are reported by their group name.
+   */
+  private topLevelQualityItems(
+    items: QualityProfileQualityItemResource[] | null | undefined,
+  ): { id: number; name: string; allowed: boolean }[] {
+    return (items ?? []).flatMap((item) => {
+      const id = item.quality?.id ?? item.id
+      if (id === undefined) return []
+      return [{ id, name: item.quality?.name ?? item.name ?? '', allowed: item.allowed ?? false }]
+    })
+  }
+
+  private mapFromQualityProfileResource(
+    profile: QualityProfileResource,
+    formatNames: Map<number, string>,
+  ): QualityProfile {
+    const items = this.topLevelQualityItems(profile.items)
+
+    // Report the cutoff by name so it can be compared against configs that reference either
+    // an ID or a name; it always points at a top-level entry, which may be a group
+    const cutoff = items.find((item) => item.id === profile.cutoff)?.name ?? profile.cutoff ?? 0
+
+    return {
+      id: profile.id,
+      name: profile.name ?? '',
+      cutoff,
+      items: items.map((item) => ({
+        quality: { id: item.id, name: item.name },
+        allowed: item.allowed,
+      })),
+      formatItems: (profile.formatItems ?? [])
+        .filter((item) => item.format !== undefined && (item.score ?? 0) !== 0)
+        .map((item) => ({
+          format: item.name || formatNames.get(item.format as number) || String(item.format),
+          score: item.score ?? 0,
+        })),
+      minFormatScore: profile.minFormatScore ?? 0,
+      cutoffFormatScore: profile.cutoffFormatScore ?? 0,
+      upgradeAllowed: profile.upgradeAllowed ?? true,
+    }
+  }
+
+  /**
+   * Build the API payload for a quality profile on top of a base resource (the schema
+   * template for new profiles, or the existing profile for updates).
+   *
+   * Each config item names a quality or a quality group of the base, by name or ID. A named
+   * group is kept with its members, while a group whose members are listed one by one is split
+   * up. Listed items are ranked in config order, lowest priority first, above the entries the
+   * config leaves out, which are disallowed. The cutoff is resolved by quality or group name,
+   * and custom format names in formatItems are resolved to their IDs.
+   */
+  private async buildQualityProfilePayload(
+    qualityProfile: QualityProfile,
+    base: QualityProfileResource,
+  ): Promise<QualityProfileResource> {
+    type Entry = QualityProfileQualityItemResource
+    const baseItems = base.items ?? []
+    const nameOf = (entry: Entry) => (entry.quality?.name ?? entry.name ?? '').toLowerCase()
+    const idOf = (entry: Entry) => entry.quality?.id ?? entry.id
+
+    const groupOf = new Map<Entry, Entry>()
+    for (const entry of baseItems) {
+      for (const member of entry.quality ? [] : (entry.items ?? [])) {
+        groupOf.set(member, entry)
+      }
+    }
+
+    // Top-level qualities and groups, and the qualities inside groups
+    const candidates = baseItems.flatMap((entry) => [entry, ...(entry.items ?? [])])
+    const findByName = (name: string) =>
+      candidates.find((entry) => nameOf(entry) === name.toLowerCase())
+    const findById = (id: number) => candidates.find((entry) => idOf(entry) === id)
+
+    const listed = qualityProfile.items.map((item) => ({
+      allowed: item.allowed,
+      name: item.quality.name,
+      entry: findByName(item.quality.name) ?? findById(item.quality.id),
+    }))
+
+    const unknownQualities = listed.filter((item) => !item.entry)
+    if (unknownQualities.length > 0) {
+      throw new Error(
+        `Unknown qualities in profile ${qualityProfile.name}: ${unknownQualities.map((item) => item.name).join(', ')}`,
+      )
+    }
+
+    const listedEntries = new Set(listed.map((item) => item.entry))
+    const splitGroups = new Set<Entry>()
+    for (const item of listed) {
+      const group = item.entry && groupOf.get(item.entry)
+      if (!group) continue
+      if (listedEntries.has(group)) {
+        throw new Error(
+          `Quality ${item.name} in profile ${qualityProfile.name} is listed both on its own and in group ${group.name}`,
+        )
+      }
+      splitGroups.add(group)
+    }
+
+    const toItem = (entry: Entry, allowed: boolean): Entry => ({
+      ...entry,
+      items: (entry.items ?? []).map((member) => toItem(member, allowed)),
+      allowed,
+    })
+
+    // Servarr expects every quality on every profile; the ones left out keep their base order
+    const unlisted = baseItems
+      .flatMap((entry) => (splitGroups.has(entry) ? (entry.items ?? []) : [entry]))
+      .filter((entry) => !listedEntries.has(entry))
+
+    const items = [
+      ...unlisted.map((entry) => toItem(entry, false)),
+      ...listed.flatMap((item) => (item.entry ? [toItem(item.entry, item.allowed)] : [])),
+    ]
+
+    // The cutoff must be a top-level entry, so a quality inside a kept group resolves to it
+    const cutoffEntry =
+      typeof qualityProfile.cutoff === 'string'
+        ? findByName(qualityProfile.cutoff)
+        : findById(qualityProfile.cutoff)
+    const cutoffGroup = cutoffEntry && groupOf.get(cutoffEntry)
+    const cutoffTarget = cutoffGroup && !splitGroups.has(cutoffGroup) ? cutoffGroup : cutoffEntry
+
+    let cutoff: number | undefined
+    if (typeof qualityProfile.cutoff === 'string') {
+      cutoff = cutoffTarget && idOf(cutoffTarget)
+      if (cutoff === undefined) {
+        throw new Error(
+          `Cutoff quality not found for profile ${qualityProfile.name}: ${qualityProfile.cutoff}`,
+        )
+      }
+    } else {
+      cutoff = (cutoffTarget && idOf(cutoffTarget)) ?? qualityProfile.cutoff
+    }
+
+    const formats = this.capabilities.hasCustomFormats ? await this.getCustomFormats() : []
+    const formatIdsByName = new Map(
+      formats.map((format) => [format.name.toLowerCase(), format.id as number]),
+    )
+
+    const scores = new Map<number, number>()
+    for (const formatItem of qualityProfile.formatItems) {
+      const formatId = formatIdsByName.get(formatItem.format.toLowerCase())
+      if (formatId === undefined) {
+        throw new Error(
+          `Custom format not found for profile ${qualityProfile.name}: ${formatItem.format}`,
+        )
+      }
+      scores.set(formatId, formatItem.score)
+    }
+
+    return {
+      ...base,
+      name: qualityProfile.name,
+      upgradeAllowed: qualityProfile.upgradeAllowed,
+      cutoff,
+      items,
+      minFormatScore: qualityProfile.minFormatScore,
+      cutoffFormatScore: qualityProfile.cutoffFormatScore,
+      formatItems: formats.map((format) => ({
+        format: format.id as number,
+        name: format.name,
+        score: scores.get(format.id as number) ?? 0,
+      })),
+    }
+  }
+
+  // ============================================
+  // Release Profiles (Sonarr only)
+  // ============================================
+
+  async getReleaseProfiles(): Promise<ReleaseProfile[]> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasReleaseProfiles) {
+      logger.debug('Release profiles not supported for this Servarr type')
+      return []
+    }
+
+    try {
+      const profiles = await this.fetchApi<ReleaseProfile[]>('/releaseprofile')
+      return profiles || []
+    } catch (error) {
+      logger.error('Failed to get release profiles', { error })
+      throw error
+    }
+  }
+
+  async addReleaseProfile(releaseProfile: ReleaseProfile): Promise<ReleaseProfile> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasReleaseProfiles) {
+      throw new Error('Release profiles not supported for this Servarr type')
+    }
+
+    logger.info('Adding release profile...', { name: releaseProfile.name })
+
+    try {
+      const result = await this.fetchApi<ReleaseProfile>('/releaseprofile', {
+        method: 'POST',
+        body: { ...releaseProfile, tags: await this.resolveTagIds(releaseProfile.tags) },
+      })
+
+      logger.info('Release profile added successfully', {
+        name: releaseProfile.name,
+        id: result.id,
+      })
+      return result
+    } catch (error) {
+      logger.error('Failed to add release profile', { name: releaseProfile.name, error })
+      throw error
+    }
+  }
+
+  async updateReleaseProfile(id: number, releaseProfile: ReleaseProfile): Promise<ReleaseProfile> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasReleaseProfiles) {
+      throw new Error('Release profiles not supported for this Servarr type')
+    }
+
+    logger.info('Updating release profile...', { id, name: releaseProfile.name })
+
+    try {
+      const result = await this.fetchApi<ReleaseProfile>(`/releaseprofile/${id}`, {
+        method: 'PUT',
+        body: { ...releaseProfile, id, tags: await this.resolveTagIds(releaseProfile.tags) },
+      })
+
+      logger.info('Release profile updated successfully', { name: releaseProfile.name, id })
+      return result
+    } catch (error) {
+      logger.error('Failed to update release profile', { id, name: releaseProfile.name, error })
+      throw error
+    }
+  }
+
+  async deleteReleaseProfile(id: number): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasReleaseProfiles) {
+      throw new Error('Release profiles not supported for this Servarr type')
+    }
+
+    logger.info('Deleting release profile...', { id })
+
+    try {
+      await this.fetchApi(`/releaseprofile/${id}`, { method: 'DELETE' })
+      logger.info('Release profile deleted successfully', { id })
+    } catch (error) {
+      logger.error('Failed to delete release profile', { id, error })
+      throw error
+    }
+  }
+
+  // ============================================
+  // Delay Profiles
+  // ============================================
+
+  async getDelayProfiles(): Promise<DelayProfile[]> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasDelayProfiles) {
+      logger.debug('Delay profiles not supported for this Servarr type')
+      return []
+    }
+
+    try {
+      const profiles = await this.fetchApi<DelayProfileResource[]>('/delayprofile')
+      return (profiles || []).map((profile) => ({
+        id: profile.id,
+        enableUsenet: profile.enableUsenet ?? true,
+        enableTorrent: profile.enableTorrent ?? true,
+        preferredProtocol: profile.preferredProtocol === 'torrent' ? 'torrent' : 'usenet',
+        usenetDelay: profile.usenetDelay ?? 0,
+        torrentDelay: profile.torrentDelay ?? 0,
+        bypassIfHighestQuality: profile.bypassIfHighestQuality ?? false,
+        bypassIfAboveCustomFormatScore: profile.bypassIfAboveCustomFormatScore ?? false,
+        minimumCustomFormatScore: profile.minimumCustomFormatScore ?? 0,
+        order: profile.order,
+        tags: profile.tags ?? [],
+      }))
+    } catch (error) {
+      logger.error('Failed to get delay profiles', { error })
+      throw error
+    }
+  }
+
+  async addDelayProfile(delayProfile: DelayProfile): Promise<DelayProfile> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasDelayProfiles) {
+      throw new Error('Delay profiles not supported for this Servarr type')
+    }
+
+    logger.info('Adding delay profile...', { tags: delayProfile.tags })
+
+    try {
+      const { id: _id, ...profile } = delayProfile
+      const result = await this.fetchApi<DelayProfile>('/delayprofile', {
+        method: 'POST',
+        body: { ...profile, tags: await this.resolveTagIds(delayProfile.tags) },
+      })
+
+      // New profiles are added before the default profile, whatever order is sent
+      if (delayProfile.order !== undefined && result.id !== undefined) {
+        await this.reorderDelayProfile(result.id, delayProfile.order)
+      }
+
+      logger.info('Delay profile added successfully', { tags: delayProfile.tags, id: result.id })
+      return result
+    } catch (error) {
+      logger.error('Failed to add delay profile', { tags: delayProfile.tags, error })
+      throw error
+    }
+  }
+
+  async updateDelayProfile(id: number, delayProfile: DelayProfile): Promise<DelayProfile> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasDelayProfiles) {
+      throw new Error('Delay profiles not supported for this Servarr type')
+    }
+
+    logger.info('Updating delay profile...', { id, tags: delayProfile.tags })
+
+    try {
+      const existing = await this.fetchApi<DelayProfileResource>(`/delayprofile/${id}`)
+      const result = await this.fetchApi<DelayProfile>(`/delayprofile/${id}`, {
+        method: 'PUT',
+        body: {
+          ...delayProfile,
+          id,
+          order: existing.order,
+          tags: await this.resolveTagIds(delayProfile.tags),
+        },
+      })
+
+      if (delayProfile.order !== undefined && delayProfile.order !== existing.order) {
+        await this.reorderDelayProfile(id, delayProfile.order)
+      }
+
+      logger.info('Delay profile updated successfully', { id, tags: delayProfile.tags })
+      return result
+    } catch (error) {
+      logger.error('Failed to update delay profile', { id, tags: delayProfile.tags, error })
+      throw error
+    }
+  }
+
+  /**
+   * Move a tagged delay profile to `position` among the tagged profiles, where 1 is evaluated
+   * first. Servarr ignores `order` on create and update and only changes it through the reorder
+   * endpoint, which places a profile after another one. The default profile always stays last.
+   */
+  async reorderDelayProfile(id: number, position: number): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasDelayProfiles) {
+      throw new Error('Delay profiles not supported for this Servarr type')
+    }
+
+    logger.info('Reordering delay profile...', { id, position })
+
+    try {
+      const profiles = await this.fetchApi<DelayProfileResource[]>('/delayprofile')
+      const others = (profiles || [])
+        .filter((profile) => profile.id !== id && (profile.tags ?? []).length > 0)
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      const after = others[Math.min(position, others.length + 1) - 2]
+      const query = after?.id !== undefined ? `?afterId=${after.id}` : ''
+
+      await this.fetchApi(`/delayprofile/reorder/${id}${query}`, { method: 'PUT' })
+      logger.info('Delay profile reordered successfully', { id, position })
+    } catch (error) {
+      logger.error('Failed to reorder delay profile', { id, position, error })
+      throw error
+    }
+  }
+
+  async deleteDelayProfile(id: number): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasDelayProfiles) {
+      throw new Error('Delay profiles not supported for this Servarr type')
+    }
+
+    logger.info('Deleting delay profile...', { id })
+
+    try {
+      await this.fetchApi(`/delayprofile/${id}`, { method: 'DELETE' })
+      logger.info('Delay profile deleted successfully', { id })
+    } catch (error) {
+      logger.error('Failed to delete delay profile', { id, error })
+      throw error
+    }
+  }
+
+  // ============================================
+  // Import Lists
+  // ============================================
+
+  async getImportLists(): Promise<ImportList[]> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasImportLists) {
+      logger.debug('Import lists not supported for this Servarr type')
+      return []
+    }
+
+    try {
+      const [lists, profiles] = await Promise.all([
+        this.fetchApi<ImportListResource[]>('/importlist'),
+        this.fetchApi<QualityProfileResource[]>('/qualityprofile'),
+      ])
+      this.cacheQualityProfileNames(profiles || [])
+
+      return (lists || []).map((list) => this.mapFromImportListResource(list))
+    } catch (error) {
+      logger.error('Failed to get import lists', { error })
+      throw error
+    }
+  }
+
+  async addImportList(importList: ImportList): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasImportLists) {
+      throw new Error('Import lists not supported for this Servarr type')
+    }
+
+    logger.info('Adding import list...', {
+      name: importList.name,
+      implementation: importList.implementation,
+    })
+
+    try {
+      const payload = await this.buildImportListPayload(importList)
+      const result = await this.fetchApi<ImportListResource>('/importlist', {
+        method: 'POST',
+        // Radarr has a separate switch for whether the list is synced at all
+        body: this.config.type === 'radarr' ? { enabled: true, ...payload } : payload,
+      })
+
+      logger.info('Import list added successfully', { name: importList.name, id: result.id })
+    } catch (error) {
+      logger.error('Failed to add import list', { name: importList.name, error })
+      throw error
+    }
+  }
+
+  /**
+   * Update an import list in place. Fields that are not in the config keep their current values.
+   */
+  async updateImportList(id: number, importList: ImportList): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasImportLists) {
+      throw new Error('Import lists not supported for this Servarr type')
+    }
+
+    logger.info('Updating import list...', { id, name: importList.name })
+
+    try {
+      const existing = await this.fetchApi<ImportListResource>(`/importlist/${id}`)
+      const payload = await this.buildImportListPayload(importList)
+      const desiredValues = new Map(importList.fields.map((field) => [field.name, field.value]))
+      const fields = (existing.fields ?? []).map((field) =>
+        field.name && desiredValues.has(field.name)
+          ? { ...field, value: desiredValues.get(field.name) }
+          : field,
+      )
+
+      await this.fetchApi(`/importlist/${id}`, {
+        method: 'PUT',
+        body: { ...existing, ...payload, id, fields },
+      })
+
+      logger.info('Import list updated successfully', { name: importList.name, id })
+    } catch (error) {
+      logger.error('Failed to update import list', { id, name: importList.name, error })
+      throw error
+    }
+  }
+
+  async deleteImportList(id: number): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasImportLists) {
+      throw new Error('Import lists not supported for this Servarr type')
+    }
+
+    logger.info('Deleting import list...', { id })
+
+    try {
+      await this.fetchApi(`/importlist/${id}`, { method: 'DELETE' })
+      logger.info('Import list deleted successfully', { id })
+    } catch (error) {
+      logger.error('Failed to delete import list', { id, error })
+      throw error
+    }
+  }
+
+  async getImportListExclusions(): Promise<ImportListExclusion[]> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasImportLists) {
+      logger.debug('Import list exclusions not supported for this Servarr type')
+      return []
+    }
+
+    const names = this.getImportListExclusionFieldNames()
+
+    try {
+      const exclusions = await this.fetchApi<Record<string, unknown>[]>(names.endpoint)
+      return (exclusions || []).map((exclusion) => ({
+        id: exclusion.id as number | undefined,
+        externalId: exclusion[names.externalId] as number | string,
+        title: (exclusion[names.title] as string | null) ?? '',
+        ...(names.year && typeof exclusion[names.year] === 'number'
+          ? { year: exclusion[names.year] as number }
+          : {}),
+      }))
+    } catch (error) {
+      logger.error('Failed to get import list exclusions', { error })
+      throw error
+    }
+  }
+
+  async addImportListExclusion(exclusion: ImportListExclusion): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasImportLists) {
+      throw new Error('Import list exclusions not supported for this Servarr type')
+    }
+
+    logger.info('Adding import list exclusion...', {
+      externalId: exclusion.externalId,
+      title: exclusion.title,
+    })
+
+    const names = this.getImportListExclusionFieldNames()
+    const numericId = this.config.type === 'sonarr' || this.config.type === 'radarr'
+
+    try {
+      await this.fetchApi(names.endpoint, {
+        method: 'POST',
+        body: {
+          [names.externalId]: numericId
+            ? Number(exclusion.externalId)
+            : String(exclusion.externalId),
+          [names.title]: exclusion.title,
+          ...(names.year && exclusion.year !== undefined && { [names.year]: exclusion.year }),
+        },
+      })
+
+      logger.info('Import list exclusion added successfully', { title: exclusion.title })
+    } catch (error) {
+      logger.error('Failed to add import list exclusion', { title: exclusion.title, error })
+      throw error
+    }
+  }
+
+  async deleteImportListExclusion(id: number): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasImportLists) {
+      throw new Error('Import list exclusions not supported for this Servarr type')
+    }
+
+    logger.info('Deleting import list exclusion...', { id })
+
+    try {
+      await this.fetchApi(`${this.getImportListExclusionFieldNames().endpoint}/${id}`, {
+        method: 'DELETE',
+      })
+      logger.info('Import list exclusion deleted successfully', { id })
+    } catch (error) {
+      logger.error('Failed to delete import list exclusion', { id, error })
+      throw error
+    }
+  }
+
+  /**
+   * Resolve a quality profile reference from the config to its ID. Names are matched
+   * case-insensitively; unknown names are an error.
+   */
+  async resolveQualityProfileId(qualityProfile: number | string): Promise<number> {
+    if (typeof qualityProfile === 'number') {
+      return qualityProfile
+    }
+
+    const findId = () =>
+      [...this.qualityProfileNamesById].find(
+        ([, name]) => name.toLowerCase() === qualityProfile.toLowerCase(),
+      )?.[0]
+
+    if (findId() === undefined) {
+      const profiles = await this.fetchApi<QualityProfileResource[]>('/qualityprofile')
+      this.cacheQualityProfileNames(profiles || [])
+    }
+
+    const id = findId()
+    if (id === undefined) {
+      throw new Error(`Unknown quality profile "${qualityProfile}"`)
+    }
+    return id
+  }
+
+  /**
+   * Normalize a quality profile reference for comparison, replacing IDs by their name when
+   * known. getImportLists keeps the name lookup current.
+   */
+  qualityProfileKey(qualityProfile: number | string): string {
+    if (typeof qualityProfile === 'string') {
+      return qualityProfile.toLowerCase()
+    }
+    return this.qualityProfileNamesById.get(qualityProfile)?.toLowerCase() ?? `#${qualityProfile}`
+  }
+
+  private cacheQualityProfileNames(profiles: QualityProfileResource[]): void {
+    for (const profile of profiles) {
+      if (profile.id !== undefined && profile.name) {
+        this.qualityProfileNamesById.set(profile.id, profile.name)
+      }
+    }
+  }
+
+  // API names of the shared import list options for the current Servarr type
+  private getImportListOptionNames(): {
+    enableAutomaticAdd: string
+    searchOnAdd: string
+    monitor: string
+  } {
+    switch (this.config.type) {
+      case 'radarr':
+        return { enableAutomaticAdd: 'enableAuto', searchOnAdd: 'searchOnAdd', monitor: 'monitor' }
+      case 'sonarr':
+        return {
+          enableAutomaticAdd: 'enableAutomaticAdd',
+          searchOnAdd: 'searchForMissingEpisodes',
+          monitor: 'shouldMonitor',
+        }
+      default:
+        return {
+          enableAutomaticAdd: 'enableAutomaticAdd',
+          searchOnAdd: 'shouldSearch',
+          monitor: 'shouldMonitor',
+        }
+    }
+  }
+
+  // Endpoint and API field names of import list exclusions for the current Servarr type
+  private getImportListExclusionFieldNames(): {
+    endpoint: string
+    externalId: string
+    title: string
+    year?: string
+  } {
+    switch (this.config.type) {
+      case 'radarr':
+        return {
+          endpoint: '/exclusions',
+          externalId: 'tmdbId',
+          title: 'movieTitle',
+          year: 'movieYear',
+        }
+      case 'lidarr':
+        return { endpoint: '/importlistexclusion', externalId: 'foreignId', title: 'artistName' }
+      case 'readarr':
+        return { endpoint: '/importlistexclusion', externalId: 'foreignId', title: 'authorName' }
+      default:
+        return { endpoint: '/importlistexclusion', externalId: 'tvdbId', title: 'title' }
+    }
+  }
+
+  private mapFromImportListResource(resource: ImportListResource): ImportList {
+    const names = this.getImportListOptionNames()
+    const qualityProfileId = resource.qualityProfileId ?? 0
+    const importList: ImportList = {
+      id: resource.id,
+      name: resource.name || '',
+      implementation: resource.implementation || '',
+      implementationName: resource.implementationName || '',
+      configContract: resource.configContract || '',
+      fields:
+        resource.fields?.map((field) => ({
+          name: field.name || '',
+          value: field.value as string | number | boolean | number[],
+        })) ?? [],
+      tags: resource.tags ?? [],
+      enableAutomaticAdd: (resource[names.enableAutomaticAdd] as boolean | undefined) ?? false,
+      searchOnAdd: (resource[names.searchOnAdd] as boolean | undefined) ?? false,
+      rootFolderPath: resource.rootFolderPath ?? '',
+      qualityProfile: this.qualityProfileNamesById.get(qualityProfileId) ?? qualityProfileId,
+      monitor: resource[names.monitor] as string | undefined,
+    }
+
+    // App-specific options are only present on the matching Servarr type
+    if (resource.seriesType !== undefined) importList.seriesType = resource.seriesType
+    if (resource.seasonFolder !== undefined) importList.seasonFolder = resource.seasonFolder
+    if (resource.minimumAvailability !== undefined) {
+      importList.minimumAvailability =
+        resource.minimumAvailability as ImportList['minimumAvailability']
+    }
+    if (typeof resource.metadataProfileId === 'number') {
+      importList.metadataProfileId = resource.metadataProfileId
+    }
+
+    return importList
+  }
+
+  private async buildImportListPayload(importList: ImportList): Promise<Record<string, unknown>> {
+    const names = this.getImportListOptionNames()
+    const {
+      id: _id,
+      qualityProfile,
+      enableAutomaticAdd,
+      searchOnAdd,
+      monitor,
+      ...rest
+    } = importList
+
+    const rootFolders = await this.getRootFolders()
+    const normalizePath = (path: string) => path.replace(/\/+$/, '')
+    if (
+      !rootFolders.some((f) => normalizePath(f.path) === normalizePath(importList.rootFolderPath))
+    ) {
+      throw new Error(
+        `Unknown root folder "${importList.rootFolderPath}". Add it to app.rootFolders first`,
+      )
+    }
+
+    return {
+      ...rest,
+      tags: await this.resolveTagIds(importList.tags),
+      qualityProfileId: await this.resolveQualityProfileId(qualityProfile),
+      [names.enableAutomaticAdd]: enableAutomaticAdd,
+      [names.searchOnAdd]: searchOnAdd,
+      ...(monitor !== undefined && { [names.monitor]: monitor }),
+    }
+  }
+
+  // ============================================
+  // Remote Path Mappings
+  // ============================================
+
+  async getRemotePathMappings(): Promise<RemotePathMapping[]> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasRemotePathMappings) {
+      logger.debug('Remote path mappings not supported for this Servarr type')
+      return []
+    }
+
+    try {
+      const mappings = await this.fetchApi<RemotePathMappingResource[]>('/remotepathmapping')
+      return (mappings || []).map((mapping) => ({
+        id: mapping.id,
+        host: mapping.host ?? '',
+        remotePath: mapping.remotePath ?? '',
+        localPath: mapping.localPath ?? '',
+      }))
+    } catch (error) {
+      logger.error('Failed to get remote path mappings', { error })
+      throw error
+    }
+  }
+
+  async addRemotePathMapping(mapping: RemotePathMapping): Promise<RemotePathMapping> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasRemotePathMappings) {
+      throw new Error('Remote path mappings not supported for this Servarr type')
+    }
+
+    logger.info('Adding remote path mapping...', {
+      host: mapping.host,
+      remotePath: mapping.remotePath,
+    })
+
+    try {
+      const { id: _id, ...payload } = mapping
+      const result = await this.fetchApi<RemotePathMapping>('/remotepathmapping', {
+        method: 'POST',
+        body: payload,
+      })
+
+      logger.info('Remote path mapping added successfully', { host: mapping.host, id: result.id })
+      return result
+    } catch (error) {
+      logger.error('Failed to add remote path mapping', { host: mapping.host, error })
+      throw error
+    }
+  }
+
+  async updateRemotePathMapping(
+    id: number,
+    mapping: RemotePathMapping,
+  ): Promise<RemotePathMapping> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasRemotePathMappings) {
+      throw new Error('Remote path mappings not supported for this Servarr type')
+    }
+
+    logger.info('Updating remote path mapping...', { id, host: mapping.host })
+
+    try {
+      const result = await this.fetchApi<RemotePathMapping>(`/remotepathmapping/${id}`, {
+        method: 'PUT',
+        body: { ...mapping, id },
+      })
+
+      logger.info('Remote path mapping updated successfully', { id, host: mapping.host })
+      return result
+    } catch (error) {
+      logger.error('Failed to update remote path mapping', { id, host: mapping.host, error })
+      throw error
+    }
+  }
+
+  async deleteRemotePathMapping(id: number): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasRemotePathMappings) {
+      throw new Error('Remote path mappings not supported for this Servarr type')
+    }
+
+    logger.info('Deleting remote path mapping...', { id })
+
+    try {
+      await this.fetchApi(`/remotepathmapping/${id}`, { method: 'DELETE' })
+      logger.info('Remote path mapping deleted successfully', { id })
+    } catch (error) {
+      logger.error('Failed to delete remote path mapping', { id, error })
+      throw error
+    }
+  }
+
+  // ============================================
+  // Naming Configuration
+  // ============================================
+
+  async getNamingConfig(): Promise<NamingConfig | null> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasNamingConfig) {
+      logger.debug('Naming config not supported for this Servarr type')
+      return null
+    }
+
+    try {
+      const config = await this.fetchApi<NamingConfig>('/config/naming')
+      return config
+    } catch (error) {
+      logger.error('Failed to get naming config', { error })
+      throw error
+    }
+  }
+
+  async updateNamingConfig(namingConfig: Partial<NamingConfig>): Promise<NamingConfig> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasNamingConfig) {
+      throw new Error('Naming config not supported for this Servarr type')
+    }
+
+    logger.info('Updating naming config...')
+
+    try {
+      const current = await this.getNamingConfig()
+      const merged = { ...current, ...namingConfig, id: 1 }
+
+      const result = await this.fetchApi<NamingConfig>('/config/naming/1', {
+        method: 'PUT',
+        body: merged,
+      })
+
+      logger.info('Naming config updated successfully')
+      return result
+    } catch (error) {
+      logger.error('Failed to update naming config', { error })
+      throw error
+    }
+  }
+
+  // ============================================
+  // General (Host) Settings
+  // ============================================
+
+  async getHostConfig(): Promise<HostConfig> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    try {
+      const config = await this.fetchApi<HostConfigResource>('/config/host')
+      // Only the managed settings are returned; unset (null) values are left out
+      return Object.fromEntries(
+        hostConfigKeys
+          .filter((key) => config[key] !== null && config[key] !== undefined)
+          .map((key) => [key, config[key]]),
+      ) as HostConfig
+    } catch (error) {
+      logger.error('Failed to get host config', { error })
+      throw error
+    }
+  }
+
+  async updateHostConfig(hostConfig: HostConfig): Promise<HostConfig> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    logger.info('Updating host config...')
+
+    try {
+      const current = await this.fetchApi<HostConfigResource>('/config/host')
+      const id = current.id ?? 1
+      // The endpoint validates the whole resource, including the admin credentials, so the
+      // current values are sent back with only the configured settings replaced
+      const merged = {
+        ...current,
+        ...hostConfig,
+        id,
+        passwordConfirmation: current.password ?? null,
+      }
+      if (hostConfig.urlBase !== undefined) {
+        merged.urlBase = normalizeUrlBase(hostConfig.urlBase)
+      }
+
+      const result = await this.fetchApi<HostConfigResource>(`/config/host/${id}`, {
+        method: 'PUT',
+        body: merged,
+      })
+
+      logger.info('Host config updated successfully')
+      return result as HostConfig
+    } catch (error) {
+      logger.error('Failed to update host config', { error })
+      throw error
+    }
+  }
+
+  // ============================================
+  // Media Management Configuration
+  // ============================================
+
+  async getMediaManagementConfig(): Promise<MediaManagementConfig | null> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasMediaManagement) {
+      logger.debug('Media management config not supported for this Servarr type')
+      return null
+    }
+
+    try {
+      const config = await this.fetchApi<MediaManagementConfig>('/config/mediamanagement')
+      return config
+    } catch (error) {
+      logger.error('Failed to get media management config', { error })
+      throw error
+    }
+  }
+
+  async updateMediaManagementConfig(
+    mediaConfig: Partial<MediaManagementConfig>,
+  ): Promise<MediaManagementConfig> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasMediaManagement) {
+      throw new Error('Media management config not supported for this Servarr type')
+    }
+
+    logger.info('Updating media management config...')
+
+    try {
+      const current = await this.getMediaManagementConfig()
+      const merged = { ...current, ...mediaConfig, id: 1 }
+
+      const result = await this.fetchApi<MediaManagementConfig>('/config/mediamanagement/1', {
+        method: 'PUT',
+        body: merged,
+      })
+
+      logger.info('Media management config updated successfully')
+      return result
+    } catch (error) {
+      logger.error('Failed to update media management config', { error })
+      throw error
+    }
+  }
+
+  // ============================================
+  // Quality Definitions
+  // ============================================
+
+  async getQualityDefinitions(): Promise<QualityDefinition[]> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasQualityDefinitions) {
+      logger.debug('Quality definitions not supported for this Servarr type')
+      return []
+    }
+
+    try {
+      interface ApiQualityDefinition {
+        id: number
+        quality: { id: number; name: string }
+        title: string
+        minSize: number
+        maxSize: number
+        preferredSize: number
+      }
+
+      const definitions = await this.fetchApi<ApiQualityDefinition[]>('/qualitydefinition')
+
+      return (definitions || []).map((def) => ({
+        quality: def.quality?.name || '',
+        title: def.title,
+        minSize: def.minSize,
+        maxSize: def.maxSize,
+        preferredSize: def.preferredSize,
+      }))
+    } catch (error) {
+      logger.error('Failed to get quality definitions', { error })
+      throw error
+    }
+  }
+
+  async updateQualityDefinition(
+    qualityName: string,
+    updates: Partial<QualityDefinition>,
+  ): Promise<void> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    if (!this.capabilities.hasQualityDefinitions) {
+      throw new Error('Quality definitions not supported for this Servarr type')
+    }
+
+    logger.info('Updating quality definition...', { qualityName })
+
+    try {
+      interface ApiQualityDefinition {
+        id: number
+        quality: { id: number; name: string }
+        title: string
+        minSize: number
+        maxSize: number
+        preferredSize: number
+      }
+
+      const definitions = await this.fetchApi<ApiQualityDefinition[]>('/qualitydefinition')
       const definition = definitions?.find(
         (def) => def.quality?.name?.toLowerCase() === qualityName.toLowerCase(),
       )
@@ -1577,4 +2952,37 @@ export class ServarrManager {
 
     logger.info('Quality definitions updated successfully', { count: definitions.length })
   }
+
+  // ============================================
+  // Library
+  // ============================================
+
+  /**
+   * Paths and quality profiles used by the library, so root folders and quality profiles that
+   * are still in use are not deleted.
+   */
+  async getLibraryUsage(): Promise<{ paths: string[]; qualityProfileIds: number[] }> {
+    if (!this.isInitialized || !this.apiKey) {
+      throw new Error('ServarrManager not initialized')
+    }
+
+    const endpoint = libraryEndpoints[this.config.type]
+    if (!endpoint) {
+      return { paths: [], qualityProfileIds: [] }
+    }
+
+    try {
+      const items =
+        await this.fetchApi<Array<{ path?: string; qualityProfileId?: number }>>(endpoint)
+      return {
+        paths: (items || []).flatMap((item) => (item.path ? [item.path] : [])),
+        qualityProfileIds: (items || []).flatMap((item) =>
+          item.qualityProfileId !== undefined ? [item.qualityProfileId] : [],
+        ),
+      }
+    } catch (error) {
+      logger.error('Failed to get library usage', { error })
+      throw error
+    }
+  }
 }
@@ -1,7 +1,22 @@
 import { file, write } from 'bun'
-import type { ServarrConfig } from '@/config/schema'
+import { readEnv } from '@/config/loaders/env'
+import type { HostConfig, ServarrConfig } from '@/config/schema'
 import { logger } from '@/utils/logger'
 
+/** Servarr stores the URL base with a leading slash and without a trailing one, or empty. */
+export const normalizeUrlBase = (urlBase: string): string => {
+  const trimmed = urlBase.trim().replace(/^\/+|\/+$/g, '')
+  return trimmed ? `/${trimmed}` : ''
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
 export class ConfigXmlWriter {
   private config: ServarrConfig
   private configPath: string
@@ -37,7 +52,15 @@ export class ConfigXmlWriter {
     return null
   }
 
-  async writeConfigXml(apiKey: string, servarrConfigApiKey?: string): Promise<boolean> {
+  /**
+   * Write config.xml. Settings from `app.host` that live in config.xml are written too, so a
+   * restarted init container does not undo what the sidecar applied through the API.
+   */
+  async writeConfigXml(
+    apiKey: string,
+    servarrConfigApiKey?: string,
+    host?: HostConfig,
+  ): Promise<boolean> {
     // Priority for API key:
     // 1. API key from loaded servarr configuration (JSON file)
     // 2. API key from servarr config (environment)
@@ -94,27 +117,35 @@ export class ConfigXmlWriter {
   <PostgresLogDb>${databases.log}</PostgresLogDb>`
       : ''
     const logDbEnabled = this.logDatabaseEnabled ? 'True' : 'False'
+    const authenticationRequired =
+      host?.authenticationRequired === 'disabledForLocalAddresses'
+        ? 'DisabledForLocalAddresses'
+        : 'Enabled'
+    const instanceName =
+      host?.instanceName ||
+      process.env.SERVARR_INSTANCE_NAME ||
+      this.config.type.charAt(0).toUpperCase() + this.config.type.slice(1)
 
     const configXml = `<Config>
   <BindAddress>*</BindAddress>
   <Port>${port}</Port>
-  <SslPort>${port + 1000}</SslPort>
-  <EnableSsl>False</EnableSsl>
+  <SslPort>${host?.sslPort ?? port + 1000}</SslPort>
+  <EnableSsl>${host?.enableSsl ? 'True' : 'False'}</EnableSsl>
   <LaunchBrowser>False</LaunchBrowser>
   <ApiKey>${selectedApiKey}</ApiKey>
   <AuthenticationMethod>${authenticationMethod}</AuthenticationMethod>
-  <AuthenticationRequired>Enabled</AuthenticationRequired>
+  <AuthenticationRequired>${authenticationRequired}</AuthenticationRequired>
   <Branch>main</Branch>
-  <LogLevel>info</LogLevel>
+  <LogLevel>${host?.logLevel ?? 'info'}</LogLevel>
   <LogDbEnabled>${logDbEnabled}</LogDbEnabled>
-  <SslCertPath></SslCertPath>
-  <SslCertPassword></SslCertPassword>
-  <UrlBase></UrlBase>
-  <InstanceName>${process.env.SERVARR_INSTANCE_NAME || this.config.type.charAt(0).toUpperCase() + this.config.type.slice(1)}</InstanceName>
+  <SslCertPath>${escapeXml(host?.sslCertPath ?? '')}</SslCertPath>
+  <SslCertPassword>${escapeXml(host?.sslCertPassword ?? '')}</SslCertPassword>
+  <UrlBase>${escapeXml(normalizeUrlBase(host?.urlBase ?? ''))}</UrlBase>
+  <InstanceName>${escapeXml(instanceName)}</InstanceName>
   <UpdateMechanism>Docker</UpdateMechanism>
-  <AnalyticsEnabled>False</AnalyticsEnabled>
+  <AnalyticsEnabled>${host?.analyticsEnabled ? 'True' : 'False'}</AnalyticsEnabled>
   <PostgresUser>${this.config.type}</PostgresUser>
-  <PostgresPassword>${process.env.POSTGRES_PASSWORD}</PostgresPassword>
+  <PostgresPassword>${readEnv('POSTGRES_PASSWORD')}</PostgresPassword>
   <PostgresPort>${process.env.POSTGRES_PORT || 5432}</PostgresPort>
   <PostgresHost>${process.env.POSTGRES_HOST || 'postgres'}</PostgresHost>
   <PostgresMainDb>${databases.main}</PostgresMainDb>${postgresLogDb}
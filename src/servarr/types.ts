@@ -16,6 +16,15 @@ export type ServarrClientType =
 
 export type IndexerResource = Sonarr.IndexerResource
 export type DownloadClientResource = Sonarr.DownloadClientResource
+export type QualityProfileResource = Sonarr.QualityProfileResource
+export type TagResource = Sonarr.TagResource
+export type NotificationResource = Sonarr.NotificationResource
+export type DelayProfileResource = Sonarr.DelayProfileResource
+// Import list options differ per Servarr type, so only the shared part is typed
+export type ImportListResource = Sonarr.ImportListResource & Record<string, unknown>
+export type HostConfigResource = Sonarr.HostConfigResource
+export type RemotePathMappingResource = Sonarr.RemotePathMappingResource
+export type QualityProfileQualityItemResource = Sonarr.QualityProfileQualityItemResource
 
 export type ClientWithRootFolders = {
   getRootFolders(): Promise<{
@@ -34,6 +43,10 @@ export type ClientWithIndexers = {
   addIndexer(
     indexer: Partial<Sonarr.IndexerResource>,
   ): Promise<{ data?: Sonarr.IndexerResource; error?: unknown; response: Response }>
+  updateIndexer(
+    id: number,
+    indexer: Sonarr.IndexerResource,
+  ): Promise<{ data?: Sonarr.IndexerResource; error?: unknown; response: Response }>
   deleteIndexer(id: number): Promise<{ data?: unknown; error?: unknown; response: Response }>
 }
 
@@ -74,6 +87,18 @@ export interface ClientCapabilities {
   hasNamingConfig: boolean
   hasMediaManagement: boolean
   hasQualityDefinitions: boolean
+  hasTags: boolean
+  hasNotifications: boolean
+  hasDelayProfiles: boolean
+  hasImportLists: boolean
+  hasRemotePathMappings: boolean
+}
+
+export interface ServarrTag {
+  id: number
+  label: string
+  // Whether any resource (series, movies, indexers, profiles, ...) still references the tag
+  inUse?: boolean
 }
 
 export interface DatabaseUser {
@@ -1,4 +1,5 @@
 import { SQL } from 'bun'
+import { readEnv } from '@/config/loaders/env'
 import type { PostgresConfig, ServarrConfig } from '@/config/schema'
 import { logger } from '@/utils/logger'
 import type { ClientWithHostConfig, DatabaseUser, ServarrClientType } from './types'
@@ -16,7 +17,7 @@ export class ServarrUserManager {
     const mainDbName = database || `${this.config.type}_main`
     const host = process.env.POSTGRES_HOST || 'postgres'
     const port = process.env.POSTGRES_PORT || '5432'
-    const password = process.env.POSTGRES_PASSWORD || ''
+    const password = readEnv('POSTGRES_PASSWORD') || ''
     const connectionString = `postgres://${this.config.type}:${password}@${host}:${port}/${mainDbName}`
 
     logger.debug('Creating database connection', {
@@ -27,7 +27,8 @@ interface BazarrLanguageProfileState {
 export class BazarrLanguageProfilesStep extends BazarrStep {
   readonly name = 'bazarr-language-profiles'
   readonly description = 'Configure Bazarr language profiles'
-  readonly dependencies: string[] = ['bazarr-languages']
+  // Creating the first profile restarts Bazarr, so no other settings step may run alongside it
+  readonly dependencies: string[] = ['bazarr-languages', 'bazarr-providers']
   readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
 
   private getProfilesConfig(context: StepContext): BazarrLanguageProfile[] {
@@ -12,7 +12,8 @@ import { logger } from '@/utils/logger'
 export class BazarrLanguagesStep extends BazarrStep {
   readonly name = 'bazarr-languages'
   readonly description = 'Configure Bazarr subtitle languages'
-  readonly dependencies: string[] = ['bazarr-connectivity']
+  // Bazarr settings are all saved through one form, so settings steps run one after another
+  readonly dependencies: string[] = ['bazarr-connectivity', 'bazarr-integration']
   readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
 
   private getLanguagesConfig(context: StepContext): BazarrLanguage[] {
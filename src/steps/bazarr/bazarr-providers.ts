@@ -12,7 +12,8 @@ import { logger } from '@/utils/logger'
 export class BazarrProvidersStep extends BazarrStep {
   readonly name = 'bazarr-providers'
   readonly description = 'Configure Bazarr subtitle providers'
-  readonly dependencies: string[] = ['bazarr-connectivity']
+  // Runs after the other settings steps so their form posts do not overlap
+  readonly dependencies: string[] = ['bazarr-connectivity', 'bazarr-languages']
   readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
 
   private getProvidersConfig(context: StepContext): BazarrProvider[] {
@@ -17,7 +17,8 @@ interface BazarrSubtitleDefaultsState {
 export class BazarrSubtitleDefaultsStep extends BazarrStep {
   readonly name = 'bazarr-subtitle-defaults'
   readonly description = 'Configure Bazarr subtitle defaults'
-  readonly dependencies: string[] = ['bazarr-connectivity']
+  // Waits for language profiles, which may restart Bazarr
+  readonly dependencies: string[] = ['bazarr-connectivity', 'bazarr-language-profiles']
   readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
 
   private getDefaultsConfig(context: StepContext): BazarrSubtitleDefaults | undefined {
@@ -17,14 +17,21 @@ import { UserCreationStep } from './infrastructure/user-creation'
 import { QBittorrentConfigStep } from './integrations/qbittorrent-config'
 import { ApplicationsStep } from './servarr/applications'
 import { CustomFormatsStep } from './servarr/custom-formats'
+import { DelayProfilesStep } from './servarr/delay-profiles'
 import { DownloadClientsStep } from './servarr/download-clients'
+import { HostConfigStep } from './servarr/host-config'
+import { ImportListExclusionsStep } from './servarr/import-list-exclusions'
+import { ImportListsStep } from './servarr/import-lists'
 import { IndexersStep } from './servarr/indexers'
 import { MediaManagementStep } from './servarr/media-management'
 import { NamingConfigStep } from './servarr/naming-config'
+import { NotificationsStep } from './servarr/notifications'
 import { QualityDefinitionsStep } from './servarr/quality-definitions'
 import { QualityProfilesStep } from './servarr/quality-profiles'
 import { ReleaseProfilesStep } from './servarr/release-profiles'
+import { RemotePathMappingsStep } from './servarr/remote-path-mappings'
 import { RootFoldersStep } from './servarr/root-folders'
+import { TagsStep } from './servarr/tags'
 import { ConfigLoadingStep } from './validation/config-loading'
 
 export const allSteps: ConfigurationStep[] = [
@@ -43,16 +50,23 @@ export const allSteps: ConfigurationStep[] = [
   // Validation
   new ConfigLoadingStep(),
   // Servarr configuration (sidecar mode)
+  new HostConfigStep(),
+  new TagsStep(),
   new RootFoldersStep(),
   new IndexersStep(),
   new DownloadClientsStep(),
+  new RemotePathMappingsStep(),
   new CustomFormatsStep(),
   new QualityProfilesStep(),
   new QualityDefinitionsStep(),
   new NamingConfigStep(),
   new MediaManagementStep(),
   new ReleaseProfilesStep(),
+  new DelayProfilesStep(),
+  new ImportListsStep(),
+  new ImportListExclusionsStep(),
   new ApplicationsStep(),
+  new NotificationsStep(),
   // Integrations
   new QBittorrentConfigStep(),
   // Bazarr
@@ -1,6 +1,7 @@
 import crypto from 'node:crypto'
 import path from 'node:path'
 import { file, spawn, write } from 'bun'
+import { readEnv } from '@/config/loaders/env'
 import {
   type ChangeRecord,
   ConfigurationStep,
@@ -168,7 +169,7 @@ export class QBittorrentInitStep extends ConfigurationStep {
   private async createQBittorrentConfig(context: StepContext): Promise<void> {
     // Read credentials directly from environment variables since config might not be loaded yet
     const username = process.env.QBITTORRENT_USER || 'admin'
-    const password = process.env.QBITTORRENT_PASSWORD || 'adminpass'
+    const password = readEnv('QBITTORRENT_PASSWORD') || 'adminpass'
     const { downloadsPath, tempPath } = this.getDownloadPaths()
 
     logger.info('Creating qBittorrent configuration', { username })
@@ -26,7 +26,7 @@ export class ServarrConfigFileStep extends ServarrStep {
       // Check if config.xml exists and has an API key
       // Get API key from loaded configuration if available
       const apiKey = context.config.app?.apiKey
-      await this.client.writeConfigurationOnly(apiKey)
+      await this.client.writeConfigurationOnly(apiKey, context.config.app?.host)
       return {
         configExists: true,
         hasApiKey: !!apiKey || !!context.apiKey,
@@ -89,7 +89,7 @@ export class ServarrConfigFileStep extends ServarrStep {
         if (change.type === 'create' || change.type === 'update') {
           // Write the configuration file with API key from loaded config
           const apiKey = context.config.app?.apiKey
-          await this.client.writeConfigurationOnly(apiKey)
+          await this.client.writeConfigurationOnly(apiKey, context.config.app?.host)
 
           results.push({
             ...change,
@@ -124,7 +124,7 @@ export class ServarrConfigFileStep extends ServarrStep {
     try {
       // Try to read the config file to verify it exists and is valid
       const apiKey = context.config.app?.apiKey
-      await this.client.writeConfigurationOnly(apiKey)
+      await this.client.writeConfigurationOnly(apiKey, context.config.app?.host)
       // If writeConfigurationOnly doesn't throw and returns a boolean, the config is valid
       return true
     } catch (error) {
@@ -12,7 +12,7 @@ import { logger } from '@/utils/logger'
 export class ApplicationsStep extends ServarrStep {
   readonly name = 'applications'
   readonly description = 'Configure Servarr applications (Prowlarr)'
-  readonly dependencies: string[] = ['servarr-connectivity']
+  readonly dependencies: string[] = ['servarr-connectivity', 'tags']
   readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
 
   validatePrerequisites(context: StepContext): boolean {
@@ -206,18 +206,8 @@ export class ApplicationsStep extends ServarrStep {
     }
   }
 
-  async verifySuccess(context: StepContext): Promise<boolean> {
-    try {
-      const current = await this.readCurrentState(context)
-      const desired = this.getDesiredState(context)
-      const currentNames = current.map((a) => a.name).sort()
-      const desiredNames = desired.map((a) => a.name).sort()
-
-      return JSON.stringify(currentNames) === JSON.stringify(desiredNames)
-    } catch (error) {
-      logger.debug('Applications verification failed', { error })
-      return false
-    }
+  verifySuccess(context: StepContext): Promise<boolean> {
+    return this.desiredResourcesExist(context)
   }
 }
 const secretFieldNames = new Set(['apiKey', 'apikey', 'api_key'])
@@ -195,17 +195,7 @@ export class CustomFormatsStep extends ServarrStep {
     }
   }
 
-  async verifySuccess(context: StepContext): Promise<boolean> {
-    try {
-      const current = await this.readCurrentState(context)
-      const desired = this.getDesiredState(context)
-      const currentNames = current.map((cf) => cf.name).sort()
-      const desiredNames = desired.map((cf) => cf.name).sort()
-
-      return JSON.stringify(currentNames) === JSON.stringify(desiredNames)
-    } catch (error) {
-      logger.debug('Custom formats verification failed', { error })
-      return false
-    }
+  verifySuccess(context: StepContext): Promise<boolean> {
+    return this.desiredResourcesExist(context)
   }
 }
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test'
+import type { DelayProfile, TagReference } from '@/config/schema'
+import type { StepContext } from '@/core/step'
+import { DelayProfilesStep } from './delay-profiles'
+
+const context = {} as StepContext
+
+const tagLabels = new Map([
+  [1, 'anime'],
+  [2, '4k'],
+])
+const client = {
+  tagKeys: (tags: TagReference[]) =>
+    tags.map((tag) => (typeof tag === 'number' ? (tagLabels.get(tag) ?? `#${tag}`) : tag)).sort(),
+}
+
+const profile = (overrides: Partial<DelayProfile> = {}): DelayProfile => ({
+  enableUsenet: true,
+  enableTorrent: true,
+  preferredProtocol: 'usenet',
+  usenetDelay: 0,
+  torrentDelay: 60,
+  bypassIfHighestQuality: true,
+  bypassIfAboveCustomFormatScore: false,
+  minimumCustomFormatScore: 0,
+  tags: [],
+  ...overrides,
+})
+
+describe('DelayProfilesStep.compareAndPlan', () => {
+  const step = Object.assign(new DelayProfilesStep(), { client })
+
+  test('updates the default profile and matches tagged profiles by label', () => {
+    const current = [
+      profile({ id: 1, torrentDelay: 0, order: 2147483647 }),
+      profile({ id: 4, tags: [1], order: 1 }),
+    ]
+    const desired = [profile(), profile({ tags: ['anime'] })]
+
+    const changes = step.compareAndPlan(current, desired, context)
+
+    expect(changes).toEqual([
+      {
+        type: 'update',
+        resource: 'delay-profile',
+        identifier: 'default',
+        details: { id: 1, changedFields: ['torrentDelay'] },
+      },
+    ])
+  })
+
+  test('never deletes the default profile and removes unlisted tagged profiles', () => {
+    const current = [profile({ id: 1 }), profile({ id: 5, tags: [2] })]
+
+    const changes = step.compareAndPlan(current, [profile({ tags: ['anime'] })], context)
+
+    expect(changes.map((c) => [c.type, c.identifier, c.details?.id])).toEqual([
+      ['create', 'anime', undefined],
+      ['delete', '4k', 5],
+    ])
+  })
+
+  test('plans order changes and treats an order past the last profile as last', () => {
+    const current = [
+      profile({ id: 1, order: 2147483647 }),
+      profile({ id: 4, tags: [1], order: 1 }),
+      profile({ id: 5, tags: [2], order: 2 }),
+    ]
+    const desired = [
+      profile({ order: 1 }),
+      profile({ tags: ['anime'], order: 9 }),
+      profile({ tags: ['4k'], order: 1 }),
+    ]
+
+    const changes = step.compareAndPlan(current, desired, context)
+
+    expect(changes.map((c) => [c.identifier, c.details?.changedFields])).toEqual([
+      ['anime', ['order']],
+      ['4k', ['order']],
+    ])
+    expect(step.compareAndPlan(current, [profile({ tags: ['4k'], order: 9 })], context)).toEqual([
+      expect.objectContaining({ type: 'delete', identifier: 'anime' }),
+    ])
+  })
+})
+
+describe('DelayProfilesStep.plan', () => {
+  test('fails instead of planning creates when the profiles cannot be read', async () => {
+    const step = Object.assign(new DelayProfilesStep(), {
+      client: {
+        isReady: () => true,
+        getCapabilities: () => ({ hasDelayProfiles: true }),
+        getTags: () => Promise.resolve([]),
+        getDelayProfiles: () => Promise.reject(new Error('Sonarr unreachable')),
+      },
+    })
+    const planContext = {
+      servarrClient: step.client,
+      config: { app: { delayProfiles: [profile()] } },
+    } as unknown as StepContext
+
+    const result = await step.plan(planContext)
+
+    expect(result.success).toBe(false)
+    expect(result.changes).toEqual([])
+    expect(result.errors.map((error) => error.message)).toEqual(['Sonarr unreachable'])
+  })
+})
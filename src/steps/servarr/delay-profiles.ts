@@ -0,0 +1,256 @@
+import type { DelayProfile } from '@/config/schema'
+import {
+  type ChangeRecord,
+  ServarrStep,
+  type StepContext,
+  type StepResult,
+  type Warning,
+} from '@/core/step'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+// Identifier of the built-in delay profile, which is the only one without tags
+const DEFAULT_PROFILE_KEY = 'default'
+
+export class DelayProfilesStep extends ServarrStep {
+  readonly name = 'delay-profiles'
+  readonly description = 'Configure Servarr delay profiles'
+  readonly dependencies: string[] = ['servarr-connectivity', 'tags']
+  readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
+
+  validatePrerequisites(context: StepContext): boolean {
+    // Check if Servarr is ready
+    if (!this.client.isReady()) {
+      return false
+    }
+
+    // Not supported for Prowlarr
+    const capabilities = this.client.getCapabilities()
+    if (!capabilities.hasDelayProfiles) {
+      logger.debug('Delay profiles not supported for this Servarr type')
+      return false
+    }
+
+    const config = context.config.app
+
+    // Skip if no delay profiles defined
+    if (!config?.delayProfiles || config.delayProfiles.length === 0) {
+      logger.debug('No delay profiles defined in config, skipping')
+      return false
+    }
+
+    return true
+  }
+
+  async readCurrentState(_context: StepContext): Promise<DelayProfile[]> {
+    // Profiles are matched by tag, so labels must be known before comparing. A failed read fails
+    // the step: read as an empty list, it would plan to create the default profile, which always
+    // exists and cannot be created.
+    await this.client.getTags()
+    return await this.client.getDelayProfiles()
+  }
+
+  protected getDesiredState(context: StepContext): DelayProfile[] {
+    const config = context.config.app
+    logger.debug('Getting desired delay profile state', {
+      hasConfig: !!config,
+      hasDelayProfiles: !!config?.delayProfiles,
+      delayProfileCount: config?.delayProfiles?.length || 0,
+    })
+
+    if (!config?.delayProfiles) {
+      return []
+    }
+
+    return config.delayProfiles
+  }
+
+  compareAndPlan(
+    current: DelayProfile[],
+    desired: DelayProfile[],
+    _context: StepContext,
+  ): ChangeRecord[] {
+    const changes: ChangeRecord[] = []
+    const currentByKey = new Map(current.map((dp) => [this.profileKey(dp), dp]))
+    const desiredKeys = new Set(desired.map((dp) => this.profileKey(dp)))
+
+    // Find delay profiles to add or update
+    for (const delayProfile of desired) {
+      const key = this.profileKey(delayProfile)
+      const existing = currentByKey.get(key)
+
+      if (!existing) {
+        changes.push({
+          type: 'create',
+          resource: 'delay-profile',
+          identifier: key,
+          details: {
+            tags: delayProfile.tags,
+            preferredProtocol: delayProfile.preferredProtocol,
+            usenetDelay: delayProfile.usenetDelay,
+            torrentDelay: delayProfile.torrentDelay,
+          },
+        })
+        continue
+      }
+
+      const changedFields = this.getChangedFields(existing, delayProfile, current)
+      if (changedFields.length > 0) {
+        changes.push({
+          type: 'update',
+          resource: 'delay-profile',
+          identifier: key,
+          details: {
+            id: existing.id,
+            changedFields,
+          },
+        })
+      }
+    }
+
+    // Find delay profiles to remove. The default profile cannot be deleted and is left alone
+    // when it is not in the config.
+    for (const delayProfile of current) {
+      const key = this.profileKey(delayProfile)
+      if (key !== DEFAULT_PROFILE_KEY && !desiredKeys.has(key)) {
+        changes.push({
+          type: 'delete',
+          resource: 'delay-profile',
+          identifier: key,
+          details: {
+            id: delayProfile.id,
+          },
+        })
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * `order` is a position among the tagged profiles, which Servarr numbers from 1 without gaps,
+   * so an order past the last profile means last. The default profile is always evaluated last.
+   */
+  private getChangedFields(
+    current: DelayProfile,
+    desired: DelayProfile,
+    currentProfiles: DelayProfile[],
+  ): string[] {
+    const fields = [
+      'enableUsenet',
+      'enableTorrent',
+      'preferredProtocol',
+      'usenetDelay',
+      'torrentDelay',
+      'bypassIfHighestQuality',
+      'bypassIfAboveCustomFormatScore',
+      'minimumCustomFormatScore',
+    ] as const
+    const changedFields: string[] = fields.filter((field) => current[field] !== desired[field])
+
+    const taggedCount = currentProfiles.filter(
+      (dp) => this.profileKey(dp) !== DEFAULT_PROFILE_KEY,
+    ).length
+    if (
+      desired.order !== undefined &&
+      this.profileKey(current) !== DEFAULT_PROFILE_KEY &&
+      current.order !== Math.min(Math.max(desired.order, 1), taggedCount)
+    ) {
+      changedFields.push('order')
+    }
+
+    return changedFields
+  }
+
+  /**
+   * Delay profiles have no name; each one applies to a set of tags, and the default profile
+   * to everything without a more specific match.
+   */
+  private profileKey(delayProfile: DelayProfile): string {
+    return this.client.tagKeys(delayProfile.tags).join(',') || DEFAULT_PROFILE_KEY
+  }
+
+  protected override auditKey(delayProfile: DelayProfile): string {
+    return this.profileKey(delayProfile)
+  }
+
+  async executeChanges(changes: ChangeRecord[], context: StepContext): Promise<StepResult> {
+    const results: ChangeRecord[] = []
+    const errors: Error[] = []
+    const warnings: Warning[] = []
+
+    const desiredProfiles = this.getDesiredState(context)
+
+    for (const change of changes) {
+      try {
+        if (change.type === 'create') {
+          const desiredProfile = desiredProfiles.find(
+            (dp) => this.profileKey(dp) === change.identifier,
+          )
+          if (!desiredProfile) {
+            throw new Error(`Could not find delay profile ${change.identifier} in desired state`)
+          }
+
+          await this.client.addDelayProfile(desiredProfile)
+          results.push({ ...change, type: 'create' })
+          logger.info('Delay profile added successfully', { tags: change.identifier })
+        } else if (change.type === 'update') {
+          const desiredProfile = desiredProfiles.find(
+            (dp) => this.profileKey(dp) === change.identifier,
+          )
+          const id = change.details?.id as number | undefined
+
+          if (!desiredProfile || !id) {
+            throw new Error(`Could not find delay profile ${change.identifier} for update`)
+          }
+
+          await this.client.updateDelayProfile(id, desiredProfile)
+          results.push({ ...change, type: 'update' })
+          logger.info('Delay profile updated successfully', {
+            tags: change.identifier,
+            changedFields: change.details?.changedFields,
+          })
+        } else if (change.type === 'delete') {
+          const id = change.details?.id as number | undefined
+          if (!id) {
+            throw new Error(`No ID found for delay profile ${change.identifier}`)
+          }
+
+          await this.client.deleteDelayProfile(id)
+          results.push({ ...change, type: 'delete' })
+          logger.info('Delay profile deleted successfully', { tags: change.identifier })
+        }
+      } catch (error) {
+        const stepError = toError(error)
+        errors.push(stepError)
+        logger.error('Failed to manage delay profile', {
+          error: stepError.message,
+          change: change.identifier,
+        })
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      changes: results,
+      errors,
+      warnings,
+    }
+  }
+
+  async verifySuccess(context: StepContext): Promise<boolean> {
+    try {
+      const current = await this.readCurrentState(context)
+      const desired = this.getDesiredState(context)
+      const currentByKey = new Map(current.map((dp) => [this.profileKey(dp), dp]))
+
+      return desired.every((delayProfile) => {
+        const existing = currentByKey.get(this.profileKey(delayProfile))
+        return !!existing && this.getChangedFields(existing, delayProfile, current).length === 0
+      })
+    } catch (error) {
+      logger.debug('Delay profiles verification failed', { error })
+      return false
+    }
+  }
+}
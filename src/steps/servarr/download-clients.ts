@@ -59,8 +59,6 @@ export class DownloadClientsStep extends ServarrStep {
       }
     }
     const hp = parseHostPort(svcQbt.url)
-    const looksLikePlaceholder = (v: unknown): boolean =>
-      typeof v === 'string' && /^\$\{[^}]+\}$/.test(v)
 
     return desired.map((client) => {
       if (client.implementation?.toLowerCase() !== 'qbittorrent') return client
@@ -71,13 +69,9 @@ export class DownloadClientsStep extends ServarrStep {
         else fields.push({ name, value })
       }
       const u = fields.find((f) => f.name === 'username')
-      if (!u || looksLikePlaceholder(u.value)) {
-        if (svcQbt.username) upsert('username', svcQbt.username)
-      }
+      if (!u && svcQbt.username) upsert('username', svcQbt.username)
       const p = fields.find((f) => f.name === 'password')
-      if (!p || looksLikePlaceholder(p.value)) {
-        if (svcQbt.password) upsert('password', svcQbt.password)
-      }
+      if (!p && svcQbt.password) upsert('password', svcQbt.password)
       const h = fields.find((f) => f.name === 'host')
       if (!h && hp.host) upsert('host', hp.host)
       const prt = fields.find((f) => f.name === 'port')
@@ -327,16 +321,9 @@ export class DownloadClientsStep extends ServarrStep {
     try {
       const current = await this.readCurrentState(context)
       const desired = this.getDesiredState(context)
-      const currentNames = current.map((c) => c.name).sort()
-      const desiredNames = desired.map((c) => c.name).sort()
-
-      // Check if all desired clients exist
-      const allExist = JSON.stringify(currentNames) === JSON.stringify(desiredNames)
-      if (!allExist) {
-        return false
-      }
 
-      // Check if all clients are configured correctly
+      // Check if all desired clients exist and are configured correctly. Clients kept by the
+      // prune policy may remain alongside them.
       const currentMap = new Map(current.map((c) => [c.name, c]))
       const desiredMap = new Map(desired.map((c) => [c.name, c]))
 
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test'
+import { AppliedSecrets } from '@/core/secrets'
+import type { StepContext } from '@/core/step'
+import type { PostgresClient } from '@/postgres/client'
+import { MASKED_FIELD_VALUE } from '@/servarr/client'
+import { HostConfigStep } from './host-config'
+
+const context = {} as StepContext
+
+describe('HostConfigStep.compareAndPlan', () => {
+  const step = new HostConfigStep()
+
+  test('normalizes the URL base and ignores settings not in the config', () => {
+    const current = { urlBase: '/sonarr', logLevel: 'debug' as const, proxyEnabled: false }
+
+    expect(step.compareAndPlan(current, { urlBase: 'sonarr/' }, context)).toEqual([])
+  })
+
+  test('reports changed settings and skips masked passwords', () => {
+    const current = {
+      urlBase: '',
+      logLevel: 'info' as const,
+      proxyEnabled: true,
+      proxyPassword: MASKED_FIELD_VALUE,
+    }
+    const desired = {
+      urlBase: '/sonarr',
+      logLevel: 'info' as const,
+      proxyEnabled: true,
+      proxyPassword: 'secret',
+      backupRetention: 14,
+    }
+
+    const changes = step.compareAndPlan(current, desired, context)
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]?.details?.changedFields).toEqual(['urlBase', 'backupRetention'])
+  })
+
+  test('reports a changed masked password against the value last written', async () => {
+    const rows: Array<{ resource: string; identifier: string; field: string; hash: string }> = []
+    const postgres = {
+      getAppliedSecrets: () => Promise.resolve(rows),
+      setAppliedSecret: (_instance: string, row: (typeof rows)[number]) => {
+        rows.push(row)
+        return Promise.resolve()
+      },
+    } as unknown as PostgresClient
+    const secrets = new AppliedSecrets(postgres, 'sonarr', () => 'servarr-api-key')
+    await secrets.load()
+    await secrets.record('host-config', 'host', [{ name: 'proxyPassword', value: 'old' }])
+    const current = { proxyEnabled: true, proxyPassword: MASKED_FIELD_VALUE }
+
+    const rotated = step.compareAndPlan(current, { ...current, proxyPassword: 'new' }, {
+      secrets,
+    } as StepContext)
+    const unchanged = step.compareAndPlan(current, { ...current, proxyPassword: 'old' }, {
+      secrets,
+    } as StepContext)
+
+    expect(rotated[0]?.details?.changedFields).toEqual(['proxyPassword'])
+    expect(unchanged).toEqual([])
+  })
+})
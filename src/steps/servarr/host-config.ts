@@ -0,0 +1,190 @@
+import { type HostConfig, hostConfigKeys } from '@/config/schema'
+import { fieldChanged } from '@/core/secrets'
+import {
+  type ChangeRecord,
+  ServarrStep,
+  type StepContext,
+  type StepResult,
+  Warning,
+} from '@/core/step'
+import { normalizeUrlBase } from '@/servarr/config-writer'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+// Settings Servarr only picks up after a restart
+const RESTART_REQUIRED_FIELDS: (keyof HostConfig)[] = [
+  'urlBase',
+  'enableSsl',
+  'sslPort',
+  'sslCertPath',
+  'sslCertPassword',
+]
+
+export class HostConfigStep extends ServarrStep<HostConfig | null> {
+  readonly name = 'host-config'
+  readonly description = 'Configure Servarr general settings (URL base, auth, proxy, logging)'
+  readonly dependencies: string[] = ['servarr-connectivity']
+  readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
+
+  validatePrerequisites(context: StepContext): boolean {
+    if (!this.client.isReady()) {
+      return false
+    }
+
+    // Skip if no host config defined
+    if (!context.config.app?.host) {
+      logger.debug('No host config defined, skipping')
+      return false
+    }
+
+    return true
+  }
+
+  async readCurrentState(context: StepContext): Promise<HostConfig | null> {
+    try {
+      await context.secrets?.load()
+      return await this.client.getHostConfig()
+    } catch (error) {
+      logger.warn('Failed to read current host config', { error })
+      return null
+    }
+  }
+
+  protected getDesiredState(context: StepContext): HostConfig | null {
+    return context.config.app?.host || null
+  }
+
+  compareAndPlan(
+    current: HostConfig | null,
+    desired: HostConfig | null,
+    context: StepContext,
+  ): ChangeRecord[] {
+    if (!desired) {
+      return []
+    }
+
+    const changedFields = this.getChangedFields(current, desired, context)
+    if (changedFields.length === 0) {
+      return []
+    }
+
+    logger.debug('Host config changes detected', { changedFields })
+    return [
+      {
+        type: 'update',
+        resource: 'host-config',
+        identifier: 'host',
+        details: {
+          changedFields,
+          fieldCount: changedFields.length,
+        },
+      },
+    ]
+  }
+
+  /**
+   * Only settings present in the config are compared. Passwords Servarr returns masked are
+   * compared against a hash of the value PrepArr last wrote.
+   */
+  private getChangedFields(
+    current: HostConfig | null,
+    desired: HostConfig,
+    context: StepContext,
+  ): string[] {
+    return hostConfigKeys.filter((key) => {
+      const desiredValue = desired[key]
+      if (desiredValue === undefined) {
+        return false
+      }
+
+      const currentValue = current?.[key]
+      if (key === 'urlBase') {
+        return (
+          normalizeUrlBase(String(currentValue ?? '')) !== normalizeUrlBase(String(desiredValue))
+        )
+      }
+      const field = { name: key, value: desiredValue }
+      return fieldChanged(context.secrets, 'host-config', 'host', field, currentValue)
+    })
+  }
+
+  /**
+   * Remember the settings written, so a later change of a masked password is noticed.
+   */
+  protected override async recordChanges(
+    changes: ChangeRecord[],
+    context: StepContext,
+  ): Promise<void> {
+    await super.recordChanges(changes, context)
+
+    const desired = this.getDesiredState(context)
+    await context.secrets?.recordChanges(changes, () =>
+      desired
+        ? hostConfigKeys.flatMap((key) =>
+            desired[key] === undefined ? [] : [{ name: key, value: desired[key] }],
+          )
+        : undefined,
+    )
+  }
+
+  async executeChanges(changes: ChangeRecord[], context: StepContext): Promise<StepResult> {
+    const results: ChangeRecord[] = []
+    const errors: Error[] = []
+    const warnings: Warning[] = []
+
+    const desired = this.getDesiredState(context)
+
+    for (const change of changes) {
+      try {
+        if (change.type === 'update' && desired) {
+          await this.client.updateHostConfig(desired)
+          results.push({ ...change, type: 'update' })
+          logger.info('Host config updated successfully', {
+            changedFields: change.details?.changedFields,
+          })
+
+          const changedFields = (change.details?.changedFields as string[] | undefined) ?? []
+          const restartFields = changedFields.filter((field) =>
+            RESTART_REQUIRED_FIELDS.includes(field as keyof HostConfig),
+          )
+          if (restartFields.length > 0) {
+            warnings.push(
+              new Warning('Servarr must be restarted to apply the updated host settings', {
+                fields: restartFields,
+              }),
+            )
+          }
+        }
+      } catch (error) {
+        const stepError = toError(error)
+        errors.push(stepError)
+        logger.error('Failed to update host config', {
+          error: stepError.message,
+        })
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      changes: results,
+      errors,
+      warnings,
+    }
+  }
+
+  async verifySuccess(context: StepContext): Promise<boolean> {
+    try {
+      const current = await this.readCurrentState(context)
+      const desired = this.getDesiredState(context)
+
+      if (!desired || !current) {
+        return !desired // Success if no desired state
+      }
+
+      return this.getChangedFields(current, desired, context).length === 0
+    } catch (error) {
+      logger.debug('Host config verification failed', { error })
+      return false
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test'
+import type { ImportListExclusion } from '@/config/schema'
+import type { StepContext } from '@/core/step'
+import { ImportListExclusionsStep } from './import-list-exclusions'
+
+const context = {} as StepContext
+
+const exclusion = (overrides: Partial<ImportListExclusion> = {}): ImportListExclusion => ({
+  externalId: 81189,
+  title: 'Breaking Bad',
+  ...overrides,
+})
+
+describe('ImportListExclusionsStep.compareAndPlan', () => {
+  const step = new ImportListExclusionsStep()
+
+  test('plans a create for missing exclusions and a delete for unlisted ones', () => {
+    const current = [exclusion({ id: 7, externalId: 121361, title: 'Game of Thrones' })]
+
+    const changes = step.compareAndPlan(current, [exclusion()], context)
+
+    expect(changes).toEqual([
+      {
+        type: 'create',
+        resource: 'import-list-exclusion',
+        identifier: 'Breaking Bad',
+        details: { externalId: 81189, title: 'Breaking Bad' },
+      },
+      {
+        type: 'delete',
+        resource: 'import-list-exclusion',
+        identifier: 'Game of Thrones',
+        details: { externalId: 121361, id: 7 },
+      },
+    ])
+  })
+
+  test('matches exclusions by external ID only', () => {
+    const current = [exclusion({ id: 7, externalId: '81189', title: 'Breaking Bad (2008)' })]
+
+    expect(step.compareAndPlan(current, [exclusion()], context)).toEqual([])
+  })
+})
@@ -0,0 +1,153 @@
+import type { ImportListExclusion } from '@/config/schema'
+import {
+  type ChangeRecord,
+  ServarrStep,
+  type StepContext,
+  type StepResult,
+  type Warning,
+} from '@/core/step'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+export class ImportListExclusionsStep extends ServarrStep {
+  readonly name = 'import-list-exclusions'
+  readonly description = 'Configure Servarr import list exclusions'
+  readonly dependencies: string[] = ['servarr-connectivity']
+  readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
+
+  validatePrerequisites(context: StepContext): boolean {
+    if (!this.client.isReady()) {
+      return false
+    }
+
+    // Not supported for Prowlarr
+    const capabilities = this.client.getCapabilities()
+    if (!capabilities.hasImportLists) {
+      logger.debug('Import list exclusions not supported for this Servarr type')
+      return false
+    }
+
+    const config = context.config.app
+
+    // Skip if no exclusions defined, so exclusions added from the UI are left alone
+    if (!config?.importListExclusions || config.importListExclusions.length === 0) {
+      logger.debug('No import list exclusions defined in config, skipping')
+      return false
+    }
+
+    return true
+  }
+
+  async readCurrentState(_context: StepContext): Promise<ImportListExclusion[]> {
+    try {
+      return await this.client.getImportListExclusions()
+    } catch (error) {
+      logger.warn('Failed to read current import list exclusions', { error })
+      return []
+    }
+  }
+
+  protected getDesiredState(context: StepContext): ImportListExclusion[] {
+    return context.config.app?.importListExclusions ?? []
+  }
+
+  compareAndPlan(
+    current: ImportListExclusion[],
+    desired: ImportListExclusion[],
+    _context: StepContext,
+  ): ChangeRecord[] {
+    const changes: ChangeRecord[] = []
+    // External IDs are numeric for Sonarr/Radarr and strings for Lidarr/Readarr
+    const currentIds = new Set(current.map((e) => String(e.externalId)))
+    const desiredIds = new Set(desired.map((e) => String(e.externalId)))
+
+    // Find exclusions to add
+    for (const exclusion of desired) {
+      if (!currentIds.has(String(exclusion.externalId))) {
+        changes.push({
+          type: 'create',
+          resource: 'import-list-exclusion',
+          identifier: exclusion.title,
+          details: { externalId: exclusion.externalId, title: exclusion.title },
+        })
+      }
+    }
+
+    // Find exclusions to remove
+    for (const exclusion of current) {
+      if (!desiredIds.has(String(exclusion.externalId))) {
+        changes.push({
+          type: 'delete',
+          resource: 'import-list-exclusion',
+          identifier: exclusion.title,
+          details: { externalId: exclusion.externalId, id: exclusion.id },
+        })
+      }
+    }
+
+    return changes
+  }
+
+  async executeChanges(changes: ChangeRecord[], context: StepContext): Promise<StepResult> {
+    const results: ChangeRecord[] = []
+    const errors: Error[] = []
+    const warnings: Warning[] = []
+
+    const desiredExclusions = this.getDesiredState(context)
+
+    for (const change of changes) {
+      try {
+        const externalId = String(change.details?.externalId)
+
+        if (change.type === 'create') {
+          const exclusion = desiredExclusions.find((e) => String(e.externalId) === externalId)
+          if (!exclusion) {
+            throw new Error(`Could not find exclusion ${change.identifier} in desired state`)
+          }
+
+          await this.client.addImportListExclusion(exclusion)
+          results.push({ ...change, type: 'create' })
+          logger.info('Import list exclusion added successfully', { title: exclusion.title })
+        } else if (change.type === 'delete') {
+          const id = change.details?.id as number | undefined
+          if (!id) {
+            throw new Error(`No ID found for import list exclusion ${change.identifier}`)
+          }
+
+          await this.client.deleteImportListExclusion(id)
+          results.push({ ...change, type: 'delete' })
+          logger.info('Import list exclusion deleted successfully', { title: change.identifier })
+        }
+      } catch (error) {
+        const stepError = toError(error)
+        errors.push(stepError)
+        logger.error('Failed to manage import list exclusion', {
+          error: stepError.message,
+          change: change.identifier,
+          details: change.details,
+        })
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      changes: results,
+      errors,
+      warnings,
+    }
+  }
+
+  async verifySuccess(context: StepContext): Promise<boolean> {
+    try {
+      const current = await this.readCurrentState(context)
+      const desired = this.getDesiredState(context)
+      const currentIds = new Set(current.map((e) => String(e.externalId)))
+
+      // Exclusions kept by the prune policy may remain alongside the desired ones
+      return desired.every((e) => currentIds.has(String(e.externalId)))
+    } catch (error) {
+      logger.debug('Import list exclusions verification failed', { error })
+      return false
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test'
+import type { ImportList, TagReference } from '@/config/schema'
+import { AppliedSecrets } from '@/core/secrets'
+import type { StepContext } from '@/core/step'
+import type { PostgresClient } from '@/postgres/client'
+import { MASKED_FIELD_VALUE } from '@/servarr/client'
+import { ImportListsStep } from './import-lists'
+
+const context = {} as StepContext
+
+const tagLabels = new Map([[1, 'anime']])
+const qualityProfileNames = new Map([[4, 'hd-1080p']])
+const client = {
+  tagKeys: (tags: TagReference[]) =>
+    tags.map((tag) => (typeof tag === 'number' ? (tagLabels.get(tag) ?? `#${tag}`) : tag)).sort(),
+  qualityProfileKey: (ref: number | string) =>
+    typeof ref === 'number' ? (qualityProfileNames.get(ref) ?? `#${ref}`) : ref.toLowerCase(),
+}
+
+const importList = (overrides: Partial<ImportList> = {}): ImportList => ({
+  name: 'Trakt Trending',
+  implementation: 'TraktListImport',
+  implementationName: 'Trakt List',
+  configContract: 'TraktListSettings',
+  fields: [
+    { name: 'listName', value: 'trending' },
+    { name: 'accessToken', value: 'token' },
+  ],
+  tags: [],
+  enableAutomaticAdd: true,
+  searchOnAdd: false,
+  rootFolderPath: '/tv',
+  qualityProfile: 'HD-1080p',
+  ...overrides,
+})
+
+describe('ImportListsStep.compareAndPlan', () => {
+  const step = Object.assign(new ImportListsStep(), { client })
+
+  test('matches quality profiles, tags and root folders by name and skips masked fields', () => {
+    const current = [
+      importList({
+        id: 3,
+        qualityProfile: 4,
+        tags: [1],
+        rootFolderPath: '/tv/',
+        monitor: 'all',
+        fields: [
+          { name: 'listName', value: 'trending' },
+          { name: 'accessToken', value: MASKED_FIELD_VALUE },
+        ],
+      }),
+    ]
+    const desired = [importList({ tags: ['anime'] })]
+
+    expect(step.compareAndPlan(current, desired, context)).toEqual([])
+  })
+
+  test('plans updates for changed settings and deletes unlisted lists', () => {
+    const current = [
+      importList({ id: 3, qualityProfile: 4, searchOnAdd: true, monitor: 'all' }),
+      importList({ id: 7, name: 'Old List' }),
+    ]
+    const desired = [importList({ monitor: 'future' })]
+
+    const changes = step.compareAndPlan(current, desired, context)
+
+    expect(changes).toEqual([
+      {
+        type: 'update',
+        resource: 'import-list',
+        identifier: 'Trakt Trending',
+        details: { name: 'Trakt Trending', id: 3, changedFields: ['searchOnAdd', 'monitor'] },
+      },
+      {
+        type: 'delete',
+        resource: 'import-list',
+        identifier: 'Old List',
+        details: { name: 'Old List', id: 7 },
+      },
+    ])
+  })
+
+  test('plans an update when only a masked token was rotated', async () => {
+    const rows: Array<{ resource: string; identifier: string; field: string; hash: string }> = []
+    const postgres = {
+      getAppliedSecrets: () => Promise.resolve(rows),
+      setAppliedSecret: (_instance: string, row: (typeof rows)[number]) => {
+        rows.push(row)
+        return Promise.resolve()
+      },
+    } as unknown as PostgresClient
+    const secrets = new AppliedSecrets(postgres, 'sonarr', () => 'servarr-api-key')
+    await secrets.load()
+    await secrets.record('import-list', 'Trakt Trending', [{ name: 'accessToken', value: 'old' }])
+    const current = importList({
+      id: 3,
+      fields: [
+        { name: 'listName', value: 'trending' },
+        { name: 'accessToken', value: MASKED_FIELD_VALUE },
+      ],
+    })
+
+    const changes = step.compareAndPlan([current], [importList()], { secrets } as StepContext)
+
+    expect(changes.map((c) => [c.type, c.details?.changedFields])).toEqual([
+      ['update', ['fields.accessToken']],
+    ])
+  })
+})
@@ -0,0 +1,283 @@
+import type { ImportList } from '@/config/schema'
+import { fieldChanged } from '@/core/secrets'
+import {
+  type ChangeRecord,
+  ServarrStep,
+  type StepContext,
+  type StepResult,
+  type Warning,
+} from '@/core/step'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+export class ImportListsStep extends ServarrStep {
+  readonly name = 'import-lists'
+  readonly description = 'Configure Servarr import lists'
+  // Import lists reference tags, a root folder and a quality profile, which must exist first
+  readonly dependencies: string[] = [
+    'servarr-connectivity',
+    'tags',
+    'root-folders',
+    'quality-profiles',
+  ]
+  readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
+
+  validatePrerequisites(context: StepContext): boolean {
+    if (!this.client.isReady()) {
+      return false
+    }
+
+    // Not supported for Prowlarr
+    const capabilities = this.client.getCapabilities()
+    if (!capabilities.hasImportLists) {
+      logger.debug('Import lists not supported for this Servarr type')
+      return false
+    }
+
+    const config = context.config.app
+
+    // Skip if no import lists defined
+    if (!config?.importLists || config.importLists.length === 0) {
+      logger.debug('No import lists defined in config, skipping')
+      return false
+    }
+
+    return true
+  }
+
+  async readCurrentState(context: StepContext): Promise<ImportList[]> {
+    try {
+      // Load tag labels so tags referenced by label compare equal to the IDs Servarr returns
+      await this.client.getTags()
+      await context.secrets?.load()
+      return await this.client.getImportLists()
+    } catch (error) {
+      logger.warn('Failed to read current import lists', { error })
+      return []
+    }
+  }
+
+  protected getDesiredState(context: StepContext): ImportList[] {
+    const config = context.config.app
+    logger.debug('Getting desired import list state', {
+      hasConfig: !!config,
+      importListCount: config?.importLists?.length || 0,
+    })
+
+    return config?.importLists ?? []
+  }
+
+  compareAndPlan(
+    current: ImportList[],
+    desired: ImportList[],
+    context: StepContext,
+  ): ChangeRecord[] {
+    const changes: ChangeRecord[] = []
+    const currentByName = new Map(current.map((l) => [l.name, l]))
+    const desiredNames = new Set(desired.map((l) => l.name))
+
+    // Find import lists to add or update
+    for (const importList of desired) {
+      const existing = currentByName.get(importList.name)
+
+      if (!existing) {
+        changes.push({
+          type: 'create',
+          resource: 'import-list',
+          identifier: importList.name,
+          details: {
+            name: importList.name,
+            implementation: importList.implementation,
+            rootFolderPath: importList.rootFolderPath,
+            qualityProfile: importList.qualityProfile,
+          },
+        })
+        continue
+      }
+
+      const changedFields = this.getChangedFields(existing, importList, context)
+      if (changedFields.length > 0) {
+        changes.push({
+          type: 'update',
+          resource: 'import-list',
+          identifier: importList.name,
+          details: {
+            name: importList.name,
+            id: existing.id,
+            changedFields,
+          },
+        })
+      }
+    }
+
+    // Find import lists to remove
+    for (const importList of current) {
+      if (!desiredNames.has(importList.name)) {
+        changes.push({
+          type: 'delete',
+          resource: 'import-list',
+          identifier: importList.name,
+          details: {
+            name: importList.name,
+            id: importList.id,
+          },
+        })
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * Compare a live import list against the desired one. Optional settings and fields are only
+   * compared when they are in the config. Masked secrets are compared against a hash of the
+   * value PrepArr last wrote.
+   */
+  private getChangedFields(
+    current: ImportList,
+    desired: ImportList,
+    context: StepContext,
+  ): string[] {
+    const changedFields: string[] = []
+    const normalizePath = (path: string) => path.replace(/\/+$/, '')
+
+    if (current.implementation !== desired.implementation) changedFields.push('implementation')
+    if (current.enableAutomaticAdd !== desired.enableAutomaticAdd) {
+      changedFields.push('enableAutomaticAdd')
+    }
+    if (current.searchOnAdd !== desired.searchOnAdd) changedFields.push('searchOnAdd')
+    if (normalizePath(current.rootFolderPath) !== normalizePath(desired.rootFolderPath)) {
+      changedFields.push('rootFolderPath')
+    }
+    if (
+      this.client.qualityProfileKey(current.qualityProfile) !==
+      this.client.qualityProfileKey(desired.qualityProfile)
+    ) {
+      changedFields.push('qualityProfile')
+    }
+
+    const optionalFields = [
+      'monitor',
+      'seriesType',
+      'seasonFolder',
+      'minimumAvailability',
+      'metadataProfileId',
+    ] as const
+    for (const field of optionalFields) {
+      if (desired[field] !== undefined && current[field] !== desired[field]) {
+        changedFields.push(field)
+      }
+    }
+
+    if (
+      JSON.stringify(this.client.tagKeys(current.tags)) !==
+      JSON.stringify(this.client.tagKeys(desired.tags))
+    ) {
+      changedFields.push('tags')
+    }
+
+    const currentValues = new Map(current.fields.map((field) => [field.name, field.value]))
+    for (const field of desired.fields) {
+      const currentValue = currentValues.get(field.name)
+      if (fieldChanged(context.secrets, 'import-list', desired.name, field, currentValue)) {
+        changedFields.push(`fields.${field.name}`)
+      }
+    }
+
+    return changedFields
+  }
+
+  /**
+   * Remember the fields written to created and updated import lists, so a later change of a
+   * masked field is noticed.
+   */
+  protected override async recordChanges(
+    changes: ChangeRecord[],
+    context: StepContext,
+  ): Promise<void> {
+    await super.recordChanges(changes, context)
+
+    const desiredLists = this.getDesiredState(context)
+    await context.secrets?.recordChanges(
+      changes,
+      (name) => desiredLists.find((l) => l.name === name)?.fields,
+    )
+  }
+
+  async executeChanges(changes: ChangeRecord[], context: StepContext): Promise<StepResult> {
+    const results: ChangeRecord[] = []
+    const errors: Error[] = []
+    const warnings: Warning[] = []
+
+    const desiredLists = this.getDesiredState(context)
+
+    for (const change of changes) {
+      try {
+        if (change.type === 'create') {
+          const desired = desiredLists.find((l) => l.name === change.identifier)
+          if (!desired) {
+            throw new Error(`Could not find import list ${change.identifier} in desired state`)
+          }
+
+          await this.client.addImportList(desired)
+          results.push({ ...change, type: 'create' })
+          logger.info('Import list added successfully', { name: desired.name })
+        } else if (change.type === 'update') {
+          const desired = desiredLists.find((l) => l.name === change.identifier)
+          const id = change.details?.id as number | undefined
+
+          if (!desired || !id) {
+            throw new Error(`Could not find import list ${change.identifier} for update`)
+          }
+
+          await this.client.updateImportList(id, desired)
+          results.push({ ...change, type: 'update' })
+          logger.info('Import list updated successfully', {
+            name: desired.name,
+            changedFields: change.details?.changedFields,
+          })
+        } else if (change.type === 'delete') {
+          const id = change.details?.id as number | undefined
+          if (!id) {
+            throw new Error(`No ID found for import list ${change.identifier}`)
+          }
+
+          await this.client.deleteImportList(id)
+          results.push({ ...change, type: 'delete' })
+          logger.info('Import list deleted successfully', { name: change.identifier })
+        }
+      } catch (error) {
+        const stepError = toError(error)
+        errors.push(stepError)
+        logger.error('Failed to manage import list', {
+          error: stepError.message,
+          change: change.identifier,
+          details: change.details,
+        })
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      changes: results,
+      errors,
+      warnings,
+    }
+  }
+
+  async verifySuccess(context: StepContext): Promise<boolean> {
+    try {
+      const current = await this.readCurrentState(context)
+      const desired = this.getDesiredState(context)
+      const currentByName = new Map(current.map((l) => [l.name, l]))
+
+      return desired.every((importList) => {
+        const existing = currentByName.get(importList.name)
+        return !!existing && this.getChangedFields(existing, importList, context).length === 0
+      })
+    } catch (error) {
+      logger.debug('Import lists verification failed', { error })
+      return false
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, expect, test } from 'bun:test'
+import type { Indexer, TagReference } from '@/config/schema'
+import { AppliedSecrets } from '@/core/secrets'
+import type { ChangeRecord, StepContext } from '@/core/step'
+import type { PostgresClient } from '@/postgres/client'
+import { IndexersStep } from './indexers'
+
+const context = {} as StepContext
+
+const tagLabels = new Map([
+  [1, 'usenet'],
+  [2, 'anime'],
+])
+const client = {
+  tagKeys: (tags: TagReference[]) =>
+    tags.map((tag) => (typeof tag === 'number' ? (tagLabels.get(tag) ?? `#${tag}`) : tag)).sort(),
+}
+
+const indexer = (overrides: Partial<Indexer> = {}): Indexer => ({
+  name: 'NZBgeek',
+  implementation: 'Newznab',
+  implementationName: 'Newznab',
+  configContract: 'NewznabSettings',
+  tags: [1, 2],
+  fields: [
+    { name: 'baseUrl', value: 'https://api.nzbgeek.info' },
+    { name: 'apiKey', value: 'secret' },
+    { name: 'categories', value: [5030, 5040] },
+  ],
+  enable: true,
+  priority: 25,
+  ...overrides,
+})
+
+describe('IndexersStep.compareAndPlan', () => {
+  const step = Object.assign(new IndexersStep(), { client })
+
+  test('ignores fields that are not in the config and tag order', () => {
+    const current = indexer({
+      id: 3,
+      tags: [2, 1],
+      fields: [...indexer().fields, { name: 'animeCategories', value: [] }],
+    })
+
+    expect(step.compareAndPlan([current], [indexer()], context)).toEqual([])
+  })
+
+  test('treats tag labels and the matching IDs as equal', () => {
+    const current = indexer({ id: 3, tags: [2, 1] })
+
+    expect(
+      step.compareAndPlan([current], [indexer({ tags: ['anime', 'usenet'] })], context),
+    ).toEqual([])
+  })
+
+  test('plans an in-place update that keeps the indexer ID', () => {
+    const current = indexer({
+      id: 3,
+      enable: false,
+      priority: 10,
+      tags: [1],
+      fields: [
+        { name: 'baseUrl', value: 'https://api.nzbgeek.info' },
+        { name: 'apiKey', value: 'old-secret' },
+        { name: 'categories', value: [5030] },
+      ],
+    })
+
+    const changes = step.compareAndPlan([current], [indexer()], context)
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]?.type).toBe('update')
+    expect(changes[0]?.details?.id).toBe(3)
+    expect(changes[0]?.details?.changedFields).toEqual([
+      'enable',
+      'priority',
+      'tags',
+      'fields.apiKey',
+      'fields.categories',
+    ])
+  })
+
+  const masked = (overrides: Partial<Indexer> = {}) =>
+    indexer({
+      id: 3,
+      fields: indexer().fields.map((field) =>
+        field.name === 'apiKey' ? { ...field, value: '********' } : field,
+      ),
+      ...overrides,
+    })
+
+  const contextWithAppliedKey = async (apiKey: string) => {
+    const hashes: Array<{ resource: string; identifier: string; field: string; hash: string }> = []
+    const postgres = {
+      getAppliedSecrets: () => Promise.resolve(hashes),
+      setAppliedSecret: (_instance: string, secret: (typeof hashes)[number]) => {
+        hashes.push(secret)
+        return Promise.resolve()
+      },
+    } as unknown as PostgresClient
+    const secrets = new AppliedSecrets(postgres, 'sonarr', () => 'servarr-api-key')
+    await secrets.load()
+    await secrets.record('indexer', 'NZBgeek', [{ name: 'apiKey', value: apiKey }])
+    return { secrets } as StepContext
+  }
+
+  test('compares masked secret fields against the value last written', async () => {
+    const context = await contextWithAppliedKey('secret')
+
+    expect(step.compareAndPlan([masked()], [indexer()], context)).toEqual([])
+  })
+
+  test('plans an update when only the API key changed', async () => {
+    const context = await contextWithAppliedKey('old-secret')
+
+    const changes = step.compareAndPlan([masked()], [indexer()], context)
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]?.type).toBe('update')
+    expect(changes[0]?.details?.changedFields).toEqual(['fields.apiKey'])
+  })
+
+  test('remembers every written field, since Servarr masks fields regardless of their name', async () => {
+    const desired = indexer({ fields: [...indexer().fields, { name: 'rssKey', value: 'feed' }] })
+    const context = {
+      ...(await contextWithAppliedKey('secret')),
+      config: { app: { indexers: [desired] } },
+    } as unknown as StepContext
+    const recordChanges = (
+      step as unknown as {
+        recordChanges: (changes: ChangeRecord[], context: StepContext) => Promise<void>
+      }
+    ).recordChanges.bind(step)
+
+    await recordChanges([{ type: 'update', resource: 'indexer', identifier: 'NZBgeek' }], context)
+
+    const current = masked({ fields: [...masked().fields, { name: 'rssKey', value: '********' }] })
+    expect(step.compareAndPlan([current], [desired], context)).toEqual([])
+  })
+
+  test('leaves masked secret fields alone when the written values cannot be read', () => {
+    expect(step.compareAndPlan([masked()], [indexer()], context)).toEqual([])
+  })
+})
@@ -1,4 +1,5 @@
 import type { Indexer } from '@/config/schema'
+import { fieldChanged } from '@/core/secrets'
 import {
   type ChangeRecord,
   ServarrStep,
@@ -6,13 +7,14 @@ import {
   type StepResult,
   Warning,
 } from '@/core/step'
+import { isProwlarrIndexer } from '@/servarr/client'
 import { toError } from '@/utils/errors'
 import { logger } from '@/utils/logger'
 
 export class IndexersStep extends ServarrStep {
   readonly name = 'indexers'
   readonly description = 'Configure Servarr indexers'
-  readonly dependencies: string[] = ['servarr-connectivity']
+  readonly dependencies: string[] = ['servarr-connectivity', 'tags']
   readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
 
   validatePrerequisites(context: StepContext): boolean {
@@ -22,16 +24,8 @@ export class IndexersStep extends ServarrStep {
 
     const config = context.config.app
 
-    // Skip indexer management if Prowlarr sync is enabled
-    if (config?.prowlarrSync === true) {
-      logger.info(
-        'Prowlarr sync enabled, skipping indexer management (allowing Prowlarr to manage indexers)',
-      )
-      return false
-    }
-
-    // Skip indexer management if indexers field is not defined or empty in config
-    // This allows Prowlarr to manage indexers via sync instead (fallback for configs without prowlarrSync flag)
+    // Skip indexer management if indexers field is not defined or empty in config, leaving
+    // indexers to Prowlarr sync. With prowlarrSync, listed indexers are managed next to it.
     if (
       !config ||
       config.indexers === undefined ||
@@ -46,9 +40,17 @@ export class IndexersStep extends ServarrStep {
     return true
   }
 
-  async readCurrentState(_context: StepContext): Promise<Indexer[]> {
+  async readCurrentState(context: StepContext): Promise<Indexer[]> {
     try {
-      return await this.client.getIndexers()
+      // Load tag labels so tags referenced by label compare equal to the IDs Servarr returns
+      await this.client.getTags()
+      await context.secrets?.load()
+      const indexers = await this.client.getIndexers()
+      // With Prowlarr sync, indexers pushed by Prowlarr are left to it and only the listed
+      // ones are managed next to them
+      return context.config.app?.prowlarrSync
+        ? indexers.filter((indexer) => !isProwlarrIndexer(indexer))
+        : indexers
     } catch (error) {
       logger.warn('Failed to read current indexers', { error })
       return []
@@ -82,14 +84,16 @@ export class IndexersStep extends ServarrStep {
     return config.indexers
   }
 
-  compareAndPlan(current: Indexer[], desired: Indexer[], _context: StepContext): ChangeRecord[] {
+  compareAndPlan(current: Indexer[], desired: Indexer[], context: StepContext): ChangeRecord[] {
     const changes: ChangeRecord[] = []
-    const currentNames = current.map((i) => i.name)
-    const desiredNames = desired.map((i) => i.name)
+    const currentByName = new Map(current.map((i) => [i.name, i]))
+    const desiredNames = new Set(desired.map((i) => i.name))
 
-    // Find indexers to add
+    // Find indexers to add or update
     for (const indexer of desired) {
-      if (!currentNames.includes(indexer.name)) {
+      const existing = currentByName.get(indexer.name)
+
+      if (!existing) {
         changes.push({
           type: 'create',
           resource: 'indexer',
@@ -104,12 +108,27 @@ export class IndexersStep extends ServarrStep {
             fieldCount: indexer.fields?.length || 0,
           },
         })
+        continue
+      }
+
+      const changedFields = this.getChangedFields(existing, indexer, context)
+      if (changedFields.length > 0) {
+        changes.push({
+          type: 'update',
+          resource: 'indexer',
+          identifier: indexer.name,
+          details: {
+            name: indexer.name,
+            id: existing.id,
+            changedFields,
+          },
+        })
       }
     }
 
     // Find indexers to remove
     for (const indexer of current) {
-      if (!desiredNames.includes(indexer.name)) {
+      if (!desiredNames.has(indexer.name)) {
         changes.push({
           type: 'delete',
           resource: 'indexer',
@@ -125,6 +144,59 @@ export class IndexersStep extends ServarrStep {
     return changes
   }
 
+  /**
+   * Compare a live indexer against the desired one. Only fields listed in the config are
+   * compared, since the API returns every field of the implementation. Secret fields come
+   * back masked, so they are compared against a hash of the value PrepArr last wrote.
+   */
+  private getChangedFields(current: Indexer, desired: Indexer, context: StepContext): string[] {
+    const changedFields: string[] = []
+
+    if (current.enable !== desired.enable) changedFields.push('enable')
+    if (current.priority !== desired.priority) changedFields.push('priority')
+    if (
+      desired.appProfileId !== undefined &&
+      current.appProfileId !== undefined &&
+      current.appProfileId !== desired.appProfileId
+    ) {
+      changedFields.push('appProfileId')
+    }
+
+    const currentTags = this.client.tagKeys(current.tags)
+    const desiredTags = this.client.tagKeys(desired.tags)
+    if (JSON.stringify(currentTags) !== JSON.stringify(desiredTags)) {
+      changedFields.push('tags')
+    }
+
+    const currentValues = new Map(current.fields.map((field) => [field.name, field.value]))
+    for (const field of desired.fields) {
+      const currentValue = currentValues.get(field.name)
+      if (fieldChanged(context.secrets, 'indexer', desired.name, field, currentValue)) {
+        changedFields.push(`fields.${field.name}`)
+      }
+    }
+
+    return changedFields
+  }
+
+  /**
+   * Remember the fields written to created and updated indexers, so a later change of a masked
+   * field is noticed. Which fields Servarr masks is only known once they are read back, so every
+   * configured field is recorded.
+   */
+  protected override async recordChanges(
+    changes: ChangeRecord[],
+    context: StepContext,
+  ): Promise<void> {
+    await super.recordChanges(changes, context)
+
+    const desiredIndexers = this.getDesiredState(context)
+    await context.secrets?.recordChanges(
+      changes,
+      (name) => desiredIndexers.find((i) => i.name === name)?.fields,
+    )
+  }
+
   async executeChanges(changes: ChangeRecord[], context: StepContext): Promise<StepResult> {
     const results: ChangeRecord[] = []
     const errors: Error[] = []
@@ -161,6 +233,24 @@ export class IndexersStep extends ServarrStep {
             implementation: desiredIndexer.implementation,
             appProfileId: desiredIndexer.appProfileId,
           })
+        } else if (change.type === 'update') {
+          const desiredIndexer = desiredIndexers.find((i) => i.name === change.identifier)
+          const id = change.details?.id as number | undefined
+
+          if (!desiredIndexer || !id) {
+            throw new Error(`Could not find indexer ${change.identifier} for update`)
+          }
+
+          await this.client.updateIndexer(id, desiredIndexer)
+          results.push({
+            ...change,
+            type: 'update',
+          })
+
+          logger.info('Indexer updated successfully', {
+            name: desiredIndexer.name,
+            changedFields: change.details?.changedFields,
+          })
         } else if (change.type === 'delete') {
           await this.client.removeIndexer(change.identifier)
           results.push({
@@ -221,10 +311,12 @@ export class IndexersStep extends ServarrStep {
     try {
       const current = await this.readCurrentState(context)
       const desired = this.getDesiredState(context)
-      const currentNames = current.map((i) => i.name).sort()
-      const desiredNames = desired.map((i) => i.name).sort()
+      const currentByName = new Map(current.map((i) => [i.name, i]))
 
-      return JSON.stringify(currentNames) === JSON.stringify(desiredNames)
+      return desired.every((indexer) => {
+        const existing = currentByName.get(indexer.name)
+        return !!existing && this.getChangedFields(existing, indexer, context).length === 0
+      })
     } catch (error) {
       logger.debug('Indexers verification failed', { error })
       return false
@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test'
+import type { Notification, TagReference } from '@/config/schema'
+import { AppliedSecrets } from '@/core/secrets'
+import type { ChangeRecord, StepContext } from '@/core/step'
+import type { PostgresClient } from '@/postgres/client'
+import { NotificationsStep } from './notifications'
+
+const context = {} as StepContext
+
+const client = {
+  tagKeys: (tags: TagReference[]) => tags.map(String).sort(),
+}
+
+const webhook = (overrides: Partial<Notification> = {}): Notification => ({
+  name: 'Team webhook',
+  implementation: 'Webhook',
+  implementationName: 'Webhook',
+  configContract: 'WebhookSettings',
+  fields: [
+    { name: 'url', value: 'https://hooks.example.com/servarr' },
+    { name: 'password', value: 'secret' },
+  ],
+  tags: [],
+  onGrab: true,
+  onHealthIssue: true,
+  ...overrides,
+})
+
+describe('NotificationsStep.compareAndPlan', () => {
+  const step = Object.assign(new NotificationsStep(), { client })
+
+  test('ignores toggles and fields that are not in the config and masked secrets', () => {
+    const current = webhook({
+      id: 2,
+      fields: [
+        { name: 'url', value: 'https://hooks.example.com/servarr' },
+        { name: 'password', value: '********' },
+        { name: 'method', value: 1 },
+      ],
+      onDownload: true,
+      onRename: false,
+    })
+
+    expect(step.compareAndPlan([current], [webhook()], context)).toEqual([])
+  })
+
+  test('plans an update for changed toggles and fields and deletes unlisted notifications', () => {
+    const current = [
+      webhook({ id: 2, onGrab: false, fields: [{ name: 'url', value: 'https://old.example' }] }),
+      webhook({ id: 5, name: 'Old Discord', implementation: 'Discord' }),
+    ]
+
+    const changes = step.compareAndPlan(current, [webhook()], context)
+
+    expect(changes.map((c) => [c.type, c.identifier, c.details?.id])).toEqual([
+      ['update', 'Team webhook', 2],
+      ['delete', 'Old Discord', 5],
+    ])
+    expect(changes[0]?.details?.changedFields).toEqual(['onGrab', 'fields.url', 'fields.password'])
+  })
+
+  const contextWithAppliedPassword = async (password: string) => {
+    const rows: Array<{ resource: string; identifier: string; field: string; hash: string }> = []
+    const postgres = {
+      getAppliedSecrets: () => Promise.resolve(rows),
+      setAppliedSecret: (_instance: string, row: (typeof rows)[number]) => {
+        rows.push(row)
+        return Promise.resolve()
+      },
+      removeAppliedSecrets: (_instance: string, resource: string, identifier: string) => {
+        const kept = rows.filter((r) => r.resource !== resource || r.identifier !== identifier)
+        rows.splice(0, rows.length, ...kept)
+        return Promise.resolve()
+      },
+    } as unknown as PostgresClient
+    const secrets = new AppliedSecrets(postgres, 'sonarr', () => 'servarr-api-key')
+    await secrets.load()
+    await secrets.record('notification', 'Team webhook', [{ name: 'password', value: password }])
+    return { rows, context: { secrets, config: { app: { notifications: [webhook()] } } } }
+  }
+
+  const masked = webhook({
+    id: 2,
+    fields: [
+      { name: 'url', value: 'https://hooks.example.com/servarr' },
+      { name: 'password', value: '********' },
+    ],
+  })
+
+  test('plans an update when only a masked secret was rotated', async () => {
+    const { context } = await contextWithAppliedPassword('old-secret')
+
+    const changes = step.compareAndPlan([masked], [webhook()], context as unknown as StepContext)
+
+    expect(changes.map((c) => [c.type, c.details?.changedFields])).toEqual([
+      ['update', ['fields.password']],
+    ])
+  })
+
+  test('forgets the written secrets of deleted notifications', async () => {
+    const { rows, context } = await contextWithAppliedPassword('secret')
+    const recordChanges = (
+      step as unknown as {
+        recordChanges: (changes: ChangeRecord[], context: StepContext) => Promise<void>
+      }
+    ).recordChanges.bind(step)
+
+    await recordChanges(
+      [{ type: 'delete', resource: 'notification', identifier: 'Team webhook' }],
+      context as unknown as StepContext,
+    )
+
+    expect(rows).toEqual([])
+  })
+})
@@ -0,0 +1,256 @@
+import { type Notification, notificationEventKeys } from '@/config/schema'
+import { fieldChanged } from '@/core/secrets'
+import {
+  type ChangeRecord,
+  ServarrStep,
+  type StepContext,
+  type StepResult,
+  type Warning,
+} from '@/core/step'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+export class NotificationsStep extends ServarrStep {
+  readonly name = 'notifications'
+  readonly description = 'Configure Servarr notifications (Connect)'
+  readonly dependencies: string[] = ['servarr-connectivity', 'tags']
+  readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
+
+  validatePrerequisites(context: StepContext): boolean {
+    if (!this.client.isReady()) {
+      return false
+    }
+
+    const capabilities = this.client.getCapabilities()
+    if (!capabilities.hasNotifications) {
+      logger.debug('Notifications not supported for this Servarr type')
+      return false
+    }
+
+    const config = context.config.app
+
+    // Skip if no notifications defined, so connections added in the UI are left alone
+    if (!config?.notifications || config.notifications.length === 0) {
+      logger.debug('No notifications defined in config, skipping')
+      return false
+    }
+
+    return true
+  }
+
+  async readCurrentState(context: StepContext): Promise<Notification[]> {
+    try {
+      // Load tag labels so tags referenced by label compare equal to the IDs Servarr returns
+      await this.client.getTags()
+      await context.secrets?.load()
+      return await this.client.getNotifications()
+    } catch (error) {
+      logger.warn('Failed to read current notifications', { error })
+      return []
+    }
+  }
+
+  protected getDesiredState(context: StepContext): Notification[] {
+    const config = context.config.app
+    logger.debug('Getting desired notification state', {
+      hasConfig: !!config,
+      notificationCount: config?.notifications?.length || 0,
+    })
+
+    return config?.notifications ?? []
+  }
+
+  compareAndPlan(
+    current: Notification[],
+    desired: Notification[],
+    context: StepContext,
+  ): ChangeRecord[] {
+    const changes: ChangeRecord[] = []
+    const currentByName = new Map(current.map((n) => [n.name, n]))
+    const desiredNames = new Set(desired.map((n) => n.name))
+
+    // Find notifications to add or update
+    for (const notification of desired) {
+      const existing = currentByName.get(notification.name)
+
+      if (!existing) {
+        changes.push({
+          type: 'create',
+          resource: 'notification',
+          identifier: notification.name,
+          details: {
+            name: notification.name,
+            implementation: notification.implementation,
+            fieldCount: notification.fields.length,
+          },
+        })
+        continue
+      }
+
+      const changedFields = this.getChangedFields(existing, notification, context)
+      if (changedFields.length > 0) {
+        changes.push({
+          type: 'update',
+          resource: 'notification',
+          identifier: notification.name,
+          details: {
+            name: notification.name,
+            id: existing.id,
+            changedFields,
+          },
+        })
+      }
+    }
+
+    // Find notifications to remove
+    for (const notification of current) {
+      if (!desiredNames.has(notification.name)) {
+        changes.push({
+          type: 'delete',
+          resource: 'notification',
+          identifier: notification.name,
+          details: {
+            name: notification.name,
+            id: notification.id,
+            implementation: notification.implementation,
+          },
+        })
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * Compare a live notification against the desired one. Only fields and event toggles listed
+   * in the config are compared. Secret fields come back masked, so they are compared against a
+   * hash of the value PrepArr last wrote.
+   */
+  private getChangedFields(
+    current: Notification,
+    desired: Notification,
+    context: StepContext,
+  ): string[] {
+    const changedFields: string[] = []
+
+    if (current.implementation !== desired.implementation) changedFields.push('implementation')
+
+    for (const event of notificationEventKeys) {
+      const desiredValue = desired[event]
+      if (desiredValue !== undefined && (current[event] ?? false) !== desiredValue) {
+        changedFields.push(event)
+      }
+    }
+
+    if (
+      JSON.stringify(this.client.tagKeys(current.tags)) !==
+      JSON.stringify(this.client.tagKeys(desired.tags))
+    ) {
+      changedFields.push('tags')
+    }
+
+    const currentValues = new Map(current.fields.map((field) => [field.name, field.value]))
+    for (const field of desired.fields) {
+      const currentValue = currentValues.get(field.name)
+      if (fieldChanged(context.secrets, 'notification', desired.name, field, currentValue)) {
+        changedFields.push(`fields.${field.name}`)
+      }
+    }
+
+    return changedFields
+  }
+
+  /**
+   * Remember the fields written to created and updated notifications, so a later change of a
+   * masked field is noticed.
+   */
+  protected override async recordChanges(
+    changes: ChangeRecord[],
+    context: StepContext,
+  ): Promise<void> {
+    await super.recordChanges(changes, context)
+
+    const desiredNotifications = this.getDesiredState(context)
+    await context.secrets?.recordChanges(
+      changes,
+      (name) => desiredNotifications.find((n) => n.name === name)?.fields,
+    )
+  }
+
+  async executeChanges(changes: ChangeRecord[], context: StepContext): Promise<StepResult> {
+    const results: ChangeRecord[] = []
+    const errors: Error[] = []
+    const warnings: Warning[] = []
+
+    const desiredNotifications = this.getDesiredState(context)
+
+    for (const change of changes) {
+      try {
+        if (change.type === 'create') {
+          const desired = desiredNotifications.find((n) => n.name === change.identifier)
+          if (!desired) {
+            throw new Error(`Could not find notification ${change.identifier} in desired state`)
+          }
+
+          await this.client.addNotification(desired)
+          results.push({ ...change, type: 'create' })
+          logger.info('Notification added successfully', { name: desired.name })
+        } else if (change.type === 'update') {
+          const desired = desiredNotifications.find((n) => n.name === change.identifier)
+          const id = change.details?.id as number | undefined
+
+          if (!desired || !id) {
+            throw new Error(`Could not find notification ${change.identifier} for update`)
+          }
+
+          await this.client.updateNotification(id, desired)
+          results.push({ ...change, type: 'update' })
+          logger.info('Notification updated successfully', {
+            name: desired.name,
+            changedFields: change.details?.changedFields,
+          })
+        } else if (change.type === 'delete') {
+          const id = change.details?.id as number | undefined
+          if (!id) {
+            throw new Error(`No ID found for notification ${change.identifier}`)
+          }
+
+          await this.client.deleteNotification(id)
+          results.push({ ...change, type: 'delete' })
+          logger.info('Notification deleted successfully', { name: change.identifier })
+        }
+      } catch (error) {
+        const stepError = toError(error)
+        errors.push(stepError)
+        logger.error('Failed to manage notification', {
+          error: stepError.message,
+          change: change.identifier,
+          details: change.details,
+        })
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      changes: results,
+      errors,
+      warnings,
+    }
+  }
+
+  async verifySuccess(context: StepContext): Promise<boolean> {
+    try {
+      const current = await this.readCurrentState(context)
+      const desired = this.getDesiredState(context)
+      const currentByName = new Map(current.map((n) => [n.name, n]))
+
+      return desired.every((notification) => {
+        const existing = currentByName.get(notification.name)
+        return !!existing && this.getChangedFields(existing, notification, context).length === 0
+      })
+    } catch (error) {
+      logger.debug('Notifications verification failed', { error })
+      return false
+    }
+  }
+}
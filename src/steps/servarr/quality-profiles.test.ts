@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test'
+import type { QualityProfile } from '@/config/schema'
+import type { StepContext } from '@/core/step'
+import { QualityProfilesStep } from './quality-profiles'
+
+const context = {} as StepContext
+
+const profile = (overrides: Partial<QualityProfile> = {}): QualityProfile => ({
+  name: 'HD-1080p',
+  cutoff: 'Bluray-1080p',
+  items: [
+    { quality: { id: 3, name: 'WEBDL-1080p' }, allowed: true },
+    { quality: { id: 7, name: 'Bluray-1080p' }, allowed: true },
+  ],
+  formatItems: [{ format: 'x265', score: -100 }],
+  minFormatScore: 0,
+  cutoffFormatScore: 0,
+  upgradeAllowed: true,
+  ...overrides,
+})
+
+describe('QualityProfilesStep.compareAndPlan', () => {
+  const step = new QualityProfilesStep()
+
+  test('plans a create for missing profiles and a delete for unmanaged ones', () => {
+    const changes = step.compareAndPlan([profile({ id: 4, name: 'Any' })], [profile()], context)
+
+    expect(changes.map((c) => [c.type, c.identifier])).toEqual([
+      ['create', 'HD-1080p'],
+      ['delete', 'Any'],
+    ])
+    expect(changes[1]?.details?.id).toBe(4)
+  })
+
+  test('treats a numeric cutoff and a matching quality name as equal', () => {
+    const current = profile({
+      id: 5,
+      items: [
+        { quality: { id: 1, name: 'SDTV' }, allowed: false },
+        { quality: { id: 3, name: 'WEBDL-1080p' }, allowed: true },
+        { quality: { id: 7, name: 'Bluray-1080p' }, allowed: true },
+      ],
+      formatItems: [
+        { format: 'x265', score: -100 },
+        { format: 'HDR', score: 0 },
+      ],
+    })
+
+    expect(step.compareAndPlan([current], [profile({ cutoff: 7 })], context)).toEqual([])
+  })
+
+  test('detects drift in cutoff, allowed qualities and format scores', () => {
+    const current = profile({
+      id: 5,
+      cutoff: 'WEBDL-1080p',
+      items: [
+        { quality: { id: 3, name: 'WEBDL-1080p' }, allowed: true },
+        { quality: { id: 7, name: 'Bluray-1080p' }, allowed: false },
+      ],
+      formatItems: [{ format: 'x265', score: -50 }],
+    })
+
+    const changes = step.compareAndPlan([current], [profile()], context)
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]?.type).toBe('update')
+    expect(changes[0]?.details?.id).toBe(5)
+    expect(changes[0]?.details?.changedFields).toEqual(['cutoff', 'items', 'formatItems'])
+  })
+})
+
+describe('QualityProfilesStep prune safety', () => {
+  test('keeps a profile that library items are still assigned to', async () => {
+    const client = {
+      isReady: () => true,
+      getCapabilities: () => ({ hasQualityProfiles: true }),
+      getQualityProfiles: () => Promise.resolve([profile(), profile({ id: 4, name: 'Any' })]),
+      getLibraryUsage: () => Promise.resolve({ paths: ['/tv/Show'], qualityProfileIds: [4, 4] }),
+    }
+    const step = Object.assign(new QualityProfilesStep(), { client })
+
+    const result = await step.plan({
+      config: { app: { qualityProfiles: [profile()], prune: { default: 'all' } } },
+      servarrClient: client,
+    } as unknown as StepContext)
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        type: 'no-change',
+        identifier: 'Any',
+        prune: 'all',
+        details: expect.objectContaining({ retained: 'still used by 2 library items' }),
+      }),
+    ])
+  })
+})
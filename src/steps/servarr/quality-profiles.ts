@@ -16,25 +16,52 @@ export class QualityProfilesStep extends ServarrStep {
   readonly dependencies: string[] = ['servarr-connectivity', 'custom-formats']
   readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
 
-  validatePrerequisites(_context: StepContext): boolean {
-    return this.client.isReady()
+  validatePrerequisites(context: StepContext): boolean {
+    // Check if Servarr is ready
+    if (!this.client.isReady()) {
+      return false
+    }
+
+    // Not supported for Prowlarr
+    const capabilities = this.client.getCapabilities()
+    if (!capabilities.hasQualityProfiles) {
+      logger.debug('Quality profiles not supported for this Servarr type')
+      return false
+    }
+
+    const config = context.config.app
+
+    // Skip if no quality profiles defined, so built-in profiles are left alone
+    if (!config?.qualityProfiles || config.qualityProfiles.length === 0) {
+      logger.debug('No quality profiles defined in config, skipping')
+      return false
+    }
+
+    return true
   }
 
-  readCurrentState(_context: StepContext): Promise<QualityProfile[]> {
+  async readCurrentState(_context: StepContext): Promise<QualityProfile[]> {
     try {
-      // Note: This would need to be implemented in ServarrManager
-      // For now, return empty array as placeholder
-      logger.debug('Quality profiles reading not yet implemented')
-      return Promise.resolve([])
+      return await this.client.getQualityProfiles()
     } catch (error) {
       logger.warn('Failed to read current quality profiles', { error })
-      return Promise.resolve([])
+      return []
     }
   }
 
   protected getDesiredState(context: StepContext): QualityProfile[] {
-    // Get from loaded configuration
-    return (context.config.app?.qualityProfiles as QualityProfile[]) || []
+    const config = context.config.app
+    logger.debug('Getting desired quality profile state', {
+      hasConfig: !!config,
+      hasQualityProfiles: !!config?.qualityProfiles,
+      qualityProfileCount: config?.qualityProfiles?.length || 0,
+    })
+
+    if (!config?.qualityProfiles) {
+      return []
+    }
+
+    return config.qualityProfiles
   }
 
   compareAndPlan(
@@ -43,12 +70,14 @@ export class QualityProfilesStep extends ServarrStep {
     _context: StepContext,
   ): ChangeRecord[] {
     const changes: ChangeRecord[] = []
-    const currentNames = current.map((p) => p.name)
-    const desiredNames = desired.map((p) => p.name)
+    const currentByName = new Map(current.map((p) => [p.name, p]))
+    const desiredByName = new Map(desired.map((p) => [p.name, p]))
 
-    // Find quality profiles to add
+    // Find quality profiles to add or update
     for (const profile of desired) {
-      if (!currentNames.includes(profile.name)) {
+      const existing = currentByName.get(profile.name)
+
+      if (!existing) {
         changes.push({
           type: 'create',
           resource: 'quality-profile',
@@ -57,6 +86,22 @@ export class QualityProfilesStep extends ServarrStep {
             name: profile.name,
             cutoff: profile.cutoff,
             itemCount: profile.items.length,
+            formatItemCount: profile.formatItems?.length || 0,
+          },
+        })
+        continue
+      }
+
+      const changedFields = this.getChangedFields(existing, profile)
+      if (changedFields.length > 0) {
+        changes.push({
+          type: 'update',
+          resource: 'quality-profile',
+          identifier: profile.name,
+          details: {
+            name: profile.name,
+            id: existing.id,
+            changedFields,
           },
         })
       }
@@ -64,13 +109,14 @@ export class QualityProfilesStep extends ServarrStep {
 
     // Find quality profiles to remove
     for (const profile of current) {
-      if (!desiredNames.includes(profile.name)) {
+      if (!desiredByName.has(profile.name)) {
         changes.push({
           type: 'delete',
           resource: 'quality-profile',
           identifier: profile.name,
           details: {
             name: profile.name,
+            id: profile.id,
           },
         })
       }
@@ -79,47 +125,94 @@ export class QualityProfilesStep extends ServarrStep {
     return changes
   }
 
-  // biome-ignore lint/suspicious/useAwait: Method signature required by base class interface
+  /**
+   * A quality profile that library items are assigned to is never removed.
+   */
+  protected override async findDeleteBlocker(change: ChangeRecord): Promise<string | undefined> {
+    const id = change.details?.id as number | undefined
+
+    try {
+      const { qualityProfileIds } = await this.client.getLibraryUsage()
+      const inUse = qualityProfileIds.filter((profileId) => profileId === id).length
+      return inUse > 0 ? `still used by ${inUse} library items` : undefined
+    } catch (error) {
+      logger.warn('Failed to check quality profile usage', { name: change.identifier, error })
+      return 'usage could not be checked'
+    }
+  }
+
+  /**
+   * Compare a live profile against the desired one. Qualities and custom formats are compared
+   * by name so configs can reference either IDs or names, and zero format scores are ignored
+   * because Servarr lists every custom format on every profile.
+   */
+  private getChangedFields(current: QualityProfile, desired: QualityProfile): string[] {
+    const changedFields: string[] = []
+
+    if (current.upgradeAllowed !== desired.upgradeAllowed) changedFields.push('upgradeAllowed')
+    if (current.minFormatScore !== desired.minFormatScore) changedFields.push('minFormatScore')
+    if (current.cutoffFormatScore !== desired.cutoffFormatScore) {
+      changedFields.push('cutoffFormatScore')
+    }
+
+    if (resolveCutoffName(current) !== resolveCutoffName(desired)) {
+      changedFields.push('cutoff')
+    }
+
+    const currentAllowed = allowedQualityNames(current)
+    const desiredAllowed = allowedQualityNames(desired)
+    if (JSON.stringify(currentAllowed) !== JSON.stringify(desiredAllowed)) {
+      changedFields.push('items')
+    }
+
+    if (JSON.stringify(formatScores(current)) !== JSON.stringify(formatScores(desired))) {
+      changedFields.push('formatItems')
+    }
+
+    return changedFields
+  }
+
   async executeChanges(changes: ChangeRecord[], context: StepContext): Promise<StepResult> {
     const results: ChangeRecord[] = []
     const errors: Error[] = []
     const warnings: Warning[] = []
 
+    const desiredProfiles = this.getDesiredState(context)
+
     for (const change of changes) {
       try {
         if (change.type === 'create') {
-          // Get the full quality profile from desired state
-          const desiredProfiles = this.getDesiredState(context)
-          const profile = desiredProfiles.find((p) => p.name === change.identifier)
-
-          if (profile) {
-            // Note: This would need to be implemented in ServarrManager
-            // For now, just log the action
-            logger.info('Quality profile would be added', {
-              name: profile.name,
-              cutoff: profile.cutoff,
-              itemCount: profile.items.length,
-            })
-
-            results.push({
-              ...change,
-              type: 'create',
-            })
-          } else {
-            errors.push(
-              new Error(`Quality profile not found in desired state: ${change.identifier}`),
-            )
+          const desiredProfile = desiredProfiles.find((p) => p.name === change.identifier)
+          if (!desiredProfile) {
+            throw new Error(`Could not find quality profile ${change.identifier} in desired state`)
           }
-        } else if (change.type === 'delete') {
-          // Note: This would need to be implemented in ServarrManager
-          logger.info('Quality profile would be removed', {
-            name: change.identifier,
-          })
 
-          results.push({
-            ...change,
-            type: 'delete',
+          await this.client.addQualityProfile(desiredProfile)
+          results.push({ ...change, type: 'create' })
+          logger.info('Quality profile added successfully', { name: desiredProfile.name })
+        } else if (change.type === 'update') {
+          const desiredProfile = desiredProfiles.find((p) => p.name === change.identifier)
+          const id = change.details?.id as number | undefined
+
+          if (!desiredProfile || !id) {
+            throw new Error(`Could not find quality profile ${change.identifier} for update`)
+          }
+
+          await this.client.updateQualityProfile(id, desiredProfile)
+          results.push({ ...change, type: 'update' })
+          logger.info('Quality profile updated successfully', {
+            name: desiredProfile.name,
+            changedFields: change.details?.changedFields,
           })
+        } else if (change.type === 'delete') {
+          const id = change.details?.id as number | undefined
+          if (!id) {
+            throw new Error(`No ID found for quality profile ${change.identifier}`)
+          }
+
+          await this.client.deleteQualityProfile(id)
+          results.push({ ...change, type: 'delete' })
+          logger.info('Quality profile deleted successfully', { name: change.identifier })
         }
       } catch (error) {
         const stepError = toError(error)
@@ -127,7 +220,6 @@ export class QualityProfilesStep extends ServarrStep {
         logger.error('Failed to manage quality profile', {
           error: stepError.message,
           change: change.identifier,
-          name: change.identifier,
           details: change.details,
         })
       }
@@ -145,13 +237,33 @@ export class QualityProfilesStep extends ServarrStep {
     try {
       const current = await this.readCurrentState(context)
       const desired = this.getDesiredState(context)
-      const currentNames = current.map((p) => p.name).sort()
-      const desiredNames = desired.map((p) => p.name).sort()
+      const currentByName = new Map(current.map((p) => [p.name, p]))
 
-      return JSON.stringify(currentNames) === JSON.stringify(desiredNames)
+      return desired.every((profile) => {
+        const existing = currentByName.get(profile.name)
+        return !!existing && this.getChangedFields(existing, profile).length === 0
+      })
     } catch (error) {
       logger.debug('Quality profiles verification failed', { error })
       return false
     }
   }
 }
+
+const resolveCutoffName = (profile: QualityProfile): string | undefined => {
+  if (typeof profile.cutoff === 'string') {
+    return profile.cutoff.toLowerCase()
+  }
+  const item = profile.items.find((i) => i.quality.id === profile.cutoff)
+  return item?.quality.name.toLowerCase()
+}
+
+// In priority order, so reordering the allowed qualities is drift as well
+const allowedQualityNames = (profile: QualityProfile): string[] =>
+  profile.items.filter((item) => item.allowed).map((item) => item.quality.name.toLowerCase())
+
+const formatScores = (profile: QualityProfile): [string, number][] =>
+  (profile.formatItems ?? [])
+    .filter((item) => item.score !== 0)
+    .map((item): [string, number] => [item.format.toLowerCase(), item.score])
+    .sort(([a], [b]) => a.localeCompare(b))
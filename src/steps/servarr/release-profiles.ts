@@ -12,7 +12,7 @@ import { logger } from '@/utils/logger'
 export class ReleaseProfilesStep extends ServarrStep {
   readonly name = 'release-profiles'
   readonly description = 'Configure Sonarr release profiles'
-  readonly dependencies: string[] = ['servarr-connectivity']
+  readonly dependencies: string[] = ['servarr-connectivity', 'tags']
   readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
 
   validatePrerequisites(context: StepContext): boolean {
@@ -208,17 +208,7 @@ export class ReleaseProfilesStep extends ServarrStep {
     }
   }
 
-  async verifySuccess(context: StepContext): Promise<boolean> {
-    try {
-      const current = await this.readCurrentState(context)
-      const desired = this.getDesiredState(context)
-      const currentNames = current.map((rp) => rp.name).sort()
-      const desiredNames = desired.map((rp) => rp.name).sort()
-
-      return JSON.stringify(currentNames) === JSON.stringify(desiredNames)
-    } catch (error) {
-      logger.debug('Release profiles verification failed', { error })
-      return false
-    }
+  verifySuccess(context: StepContext): Promise<boolean> {
+    return this.desiredResourcesExist(context)
   }
 }
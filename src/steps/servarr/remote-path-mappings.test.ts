@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test'
+import type { StepContext } from '@/core/step'
+import { RemotePathMappingsStep } from './remote-path-mappings'
+
+const context = {} as StepContext
+
+describe('RemotePathMappingsStep.compareAndPlan', () => {
+  const step = new RemotePathMappingsStep()
+
+  test('matches by host and remote path regardless of case and trailing slashes', () => {
+    const current = [
+      { id: 1, host: 'QBittorrent', remotePath: '/data/torrents/', localPath: '/downloads/' },
+    ]
+    const desired = [{ host: 'qbittorrent', remotePath: '/data/torrents', localPath: '/downloads' }]
+
+    expect(step.compareAndPlan(current, desired, context)).toEqual([])
+  })
+
+  test('updates the local path in place and removes unlisted mappings', () => {
+    const current = [
+      { id: 1, host: 'qbittorrent', remotePath: '/data/torrents/', localPath: '/downloads/' },
+      { id: 2, host: 'sabnzbd', remotePath: '/data/usenet/', localPath: '/usenet/' },
+    ]
+    const desired = [
+      { host: 'qbittorrent', remotePath: '/data/torrents/', localPath: '/mnt/torrents/' },
+    ]
+
+    const changes = step.compareAndPlan(current, desired, context)
+
+    expect(changes.map((c) => [c.type, c.identifier, c.details?.id])).toEqual([
+      ['update', 'qbittorrent:/data/torrents', 1],
+      ['delete', 'sabnzbd:/data/usenet', 2],
+    ])
+  })
+})
@@ -0,0 +1,209 @@
+import type { RemotePathMapping } from '@/config/schema'
+import {
+  type ChangeRecord,
+  ServarrStep,
+  type StepContext,
+  type StepResult,
+  type Warning,
+} from '@/core/step'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+// Servarr stores both paths with a trailing separator, so '/downloads' and '/downloads/' match
+const normalizePath = (path: string) => path.replace(/[\\/]+$/, '')
+
+export class RemotePathMappingsStep extends ServarrStep {
+  readonly name = 'remote-path-mappings'
+  readonly description = 'Configure Servarr remote path mappings'
+  // Mappings translate paths reported by download clients, so those are configured first
+  readonly dependencies: string[] = ['servarr-connectivity', 'download-clients']
+  readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
+
+  validatePrerequisites(context: StepContext): boolean {
+    if (!this.client.isReady()) {
+      return false
+    }
+
+    // Not supported for Prowlarr
+    const capabilities = this.client.getCapabilities()
+    if (!capabilities.hasRemotePathMappings) {
+      logger.debug('Remote path mappings not supported for this Servarr type')
+      return false
+    }
+
+    const config = context.config.app
+
+    // Skip if no mappings defined, so mappings added in the UI are left alone
+    if (!config?.remotePathMappings || config.remotePathMappings.length === 0) {
+      logger.debug('No remote path mappings defined in config, skipping')
+      return false
+    }
+
+    return true
+  }
+
+  async readCurrentState(_context: StepContext): Promise<RemotePathMapping[]> {
+    try {
+      return await this.client.getRemotePathMappings()
+    } catch (error) {
+      logger.warn('Failed to read current remote path mappings', { error })
+      return []
+    }
+  }
+
+  protected getDesiredState(context: StepContext): RemotePathMapping[] {
+    return context.config.app?.remotePathMappings ?? []
+  }
+
+  compareAndPlan(
+    current: RemotePathMapping[],
+    desired: RemotePathMapping[],
+    _context: StepContext,
+  ): ChangeRecord[] {
+    const changes: ChangeRecord[] = []
+    const currentByKey = new Map(current.map((m) => [this.mappingKey(m), m]))
+    const desiredKeys = new Set(desired.map((m) => this.mappingKey(m)))
+
+    // Find mappings to add or update
+    for (const mapping of desired) {
+      const key = this.mappingKey(mapping)
+      const existing = currentByKey.get(key)
+
+      if (!existing) {
+        changes.push({
+          type: 'create',
+          resource: 'remote-path-mapping',
+          identifier: key,
+          details: {
+            host: mapping.host,
+            remotePath: mapping.remotePath,
+            localPath: mapping.localPath,
+          },
+        })
+        continue
+      }
+
+      if (normalizePath(existing.localPath) !== normalizePath(mapping.localPath)) {
+        changes.push({
+          type: 'update',
+          resource: 'remote-path-mapping',
+          identifier: key,
+          details: {
+            id: existing.id,
+            changedFields: ['localPath'],
+            localPath: mapping.localPath,
+          },
+        })
+      }
+    }
+
+    // Find mappings to remove
+    for (const mapping of current) {
+      const key = this.mappingKey(mapping)
+      if (!desiredKeys.has(key)) {
+        changes.push({
+          type: 'delete',
+          resource: 'remote-path-mapping',
+          identifier: key,
+          details: {
+            id: mapping.id,
+            localPath: mapping.localPath,
+          },
+        })
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * Servarr allows one mapping per host and remote path, so that pair identifies a mapping and
+   * only the local path can be updated in place.
+   */
+  private mappingKey(mapping: RemotePathMapping): string {
+    return `${mapping.host.toLowerCase()}:${normalizePath(mapping.remotePath)}`
+  }
+
+  protected override auditKey(mapping: RemotePathMapping): string {
+    return this.mappingKey(mapping)
+  }
+
+  async executeChanges(changes: ChangeRecord[], context: StepContext): Promise<StepResult> {
+    const results: ChangeRecord[] = []
+    const errors: Error[] = []
+    const warnings: Warning[] = []
+
+    const desiredMappings = this.getDesiredState(context)
+
+    for (const change of changes) {
+      try {
+        if (change.type === 'create') {
+          const desired = desiredMappings.find((m) => this.mappingKey(m) === change.identifier)
+          if (!desired) {
+            throw new Error(
+              `Could not find remote path mapping ${change.identifier} in desired state`,
+            )
+          }
+
+          await this.client.addRemotePathMapping(desired)
+          results.push({ ...change, type: 'create' })
+          logger.info('Remote path mapping added successfully', { mapping: change.identifier })
+        } else if (change.type === 'update') {
+          const desired = desiredMappings.find((m) => this.mappingKey(m) === change.identifier)
+          const id = change.details?.id as number | undefined
+
+          if (!desired || !id) {
+            throw new Error(`Could not find remote path mapping ${change.identifier} for update`)
+          }
+
+          await this.client.updateRemotePathMapping(id, desired)
+          results.push({ ...change, type: 'update' })
+          logger.info('Remote path mapping updated successfully', {
+            mapping: change.identifier,
+            localPath: desired.localPath,
+          })
+        } else if (change.type === 'delete') {
+          const id = change.details?.id as number | undefined
+          if (!id) {
+            throw new Error(`No ID found for remote path mapping ${change.identifier}`)
+          }
+
+          await this.client.deleteRemotePathMapping(id)
+          results.push({ ...change, type: 'delete' })
+          logger.info('Remote path mapping deleted successfully', { mapping: change.identifier })
+        }
+      } catch (error) {
+        const stepError = toError(error)
+        errors.push(stepError)
+        logger.error('Failed to manage remote path mapping', {
+          error: stepError.message,
+          change: change.identifier,
+          details: change.details,
+        })
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      changes: results,
+      errors,
+      warnings,
+    }
+  }
+
+  async verifySuccess(context: StepContext): Promise<boolean> {
+    try {
+      const current = await this.readCurrentState(context)
+      const desired = this.getDesiredState(context)
+      const currentByKey = new Map(current.map((m) => [this.mappingKey(m), m]))
+
+      return desired.every((mapping) => {
+        const existing = currentByKey.get(this.mappingKey(mapping))
+        return !!existing && normalizePath(existing.localPath) === normalizePath(mapping.localPath)
+      })
+    } catch (error) {
+      logger.debug('Remote path mappings verification failed', { error })
+      return false
+    }
+  }
+}
@@ -87,6 +87,22 @@ export class RootFoldersStep extends ServarrStep {
     return changes
   }
 
+  /**
+   * A root folder that library items still live in is never removed.
+   */
+  protected override async findDeleteBlocker(change: ChangeRecord): Promise<string | undefined> {
+    const root = `${change.identifier.replace(/\/+$/, '')}/`
+
+    try {
+      const { paths } = await this.client.getLibraryUsage()
+      const inUse = paths.filter((path) => `${path}/`.startsWith(root)).length
+      return inUse > 0 ? `still used by ${inUse} library items` : undefined
+    } catch (error) {
+      logger.warn('Failed to check root folder usage', { path: change.identifier, error })
+      return 'usage could not be checked'
+    }
+  }
+
   async executeChanges(changes: ChangeRecord[], _context: StepContext): Promise<StepResult> {
     const results: ChangeRecord[] = []
     const errors: Error[] = []
@@ -142,17 +158,7 @@ export class RootFoldersStep extends ServarrStep {
     }
   }
 
-  async verifySuccess(context: StepContext): Promise<boolean> {
-    try {
-      const current = await this.readCurrentState(context)
-      const desired = this.getDesiredState(context)
-      const currentPaths = current.map((f) => f.path).sort()
-      const desiredPaths = desired.map((f) => f.path).sort()
-
-      return JSON.stringify(currentPaths) === JSON.stringify(desiredPaths)
-    } catch (error) {
-      logger.debug('Root folders verification failed', { error })
-      return false
-    }
+  verifySuccess(context: StepContext): Promise<boolean> {
+    return this.desiredResourcesExist(context)
   }
 }
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test'
+import type { Config } from '@/config/schema'
+import type { StepContext } from '@/core/step'
+import { TagsStep } from './tags'
+
+const context = { config: { app: { tags: ['Anime', '4k', 'anime'] } } as Config } as StepContext
+
+describe('TagsStep', () => {
+  const step = new TagsStep()
+
+  test('creates missing tags once, regardless of case', async () => {
+    const result = await step.plan({
+      ...context,
+      servarrClient: {
+        isReady: () => true,
+        getCapabilities: () => ({ hasTags: true }),
+        getTagDetails: async () => [{ id: 1, label: '4k', inUse: true }],
+      } as unknown as StepContext['servarrClient'],
+    })
+
+    expect(result.changes.map((c) => [c.type, c.identifier])).toEqual([['create', 'anime']])
+  })
+
+  test('only removes unlisted tags that nothing references', () => {
+    const changes = step.compareAndPlan(
+      [
+        { id: 1, label: 'anime', inUse: true },
+        { id: 2, label: 'old', inUse: false },
+        { id: 3, label: 'assigned', inUse: true },
+      ],
+      [{ label: 'anime' }],
+      context,
+    )
+
+    expect(changes).toEqual([
+      { type: 'delete', resource: 'tag', identifier: 'old', details: { label: 'old', id: 2 } },
+    ])
+  })
+})
@@ -0,0 +1,149 @@
+import {
+  type ChangeRecord,
+  ServarrStep,
+  type StepContext,
+  type StepResult,
+  type Warning,
+} from '@/core/step'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+interface TagState {
+  label: string
+  id?: number
+  inUse?: boolean
+}
+
+export class TagsStep extends ServarrStep<TagState[]> {
+  readonly name = 'tags'
+  readonly description = 'Configure Servarr tags'
+  readonly dependencies: string[] = ['servarr-connectivity']
+  readonly mode: 'init' | 'sidecar' | 'both' = 'sidecar'
+
+  validatePrerequisites(context: StepContext): boolean {
+    if (!this.client.isReady()) {
+      return false
+    }
+
+    const capabilities = this.client.getCapabilities()
+    if (!capabilities.hasTags) {
+      logger.debug('Tags not supported for this Servarr type')
+      return false
+    }
+
+    const config = context.config.app
+
+    // Skip if no tags defined, so tags created in the UI are left alone
+    if (!config?.tags || config.tags.length === 0) {
+      logger.debug('No tags defined in config, skipping')
+      return false
+    }
+
+    return true
+  }
+
+  async readCurrentState(_context: StepContext): Promise<TagState[]> {
+    try {
+      return await this.client.getTagDetails()
+    } catch (error) {
+      logger.warn('Failed to read current tags', { error })
+      return []
+    }
+  }
+
+  protected getDesiredState(context: StepContext): TagState[] {
+    const labels = context.config.app?.tags ?? []
+    // Servarr stores labels in lowercase, so 'Anime' and 'anime' are the same tag
+    return [...new Set(labels.map((label) => label.toLowerCase()))].map((label) => ({ label }))
+  }
+
+  compareAndPlan(current: TagState[], desired: TagState[], _context: StepContext): ChangeRecord[] {
+    const changes: ChangeRecord[] = []
+    const currentLabels = new Set(current.map((t) => t.label))
+    const desiredLabels = new Set(desired.map((t) => t.label))
+
+    // Find tags to add
+    for (const tag of desired) {
+      if (!currentLabels.has(tag.label)) {
+        changes.push({
+          type: 'create',
+          resource: 'tag',
+          identifier: tag.label,
+          details: { label: tag.label },
+        })
+      }
+    }
+
+    // Find tags to remove. Deleting a tag that is still assigned would silently strip it from
+    // those resources, so tags in use are kept until nothing references them anymore.
+    for (const tag of current) {
+      if (desiredLabels.has(tag.label)) {
+        continue
+      }
+
+      if (tag.inUse) {
+        logger.info('Tag not in config is still in use, keeping it', { label: tag.label })
+        continue
+      }
+
+      changes.push({
+        type: 'delete',
+        resource: 'tag',
+        identifier: tag.label,
+        details: { label: tag.label, id: tag.id },
+      })
+    }
+
+    return changes
+  }
+
+  async executeChanges(changes: ChangeRecord[], _context: StepContext): Promise<StepResult> {
+    const results: ChangeRecord[] = []
+    const errors: Error[] = []
+    const warnings: Warning[] = []
+
+    for (const change of changes) {
+      try {
+        if (change.type === 'create') {
+          await this.client.addTag(change.identifier)
+          results.push({ ...change, type: 'create' })
+          logger.info('Tag added successfully', { label: change.identifier })
+        } else if (change.type === 'delete') {
+          const id = change.details?.id as number | undefined
+          if (id === undefined) {
+            throw new Error(`No ID found for tag ${change.identifier}`)
+          }
+
+          await this.client.deleteTag(id)
+          results.push({ ...change, type: 'delete' })
+          logger.info('Tag deleted successfully', { label: change.identifier })
+        }
+      } catch (error) {
+        const stepError = toError(error)
+        errors.push(stepError)
+        logger.error('Failed to manage tag', {
+          error: stepError.message,
+          change: change.identifier,
+          details: change.details,
+        })
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      changes: results,
+      errors,
+      warnings,
+    }
+  }
+
+  async verifySuccess(context: StepContext): Promise<boolean> {
+    try {
+      const current = new Set((await this.readCurrentState(context)).map((t) => t.label))
+      return this.getDesiredState(context).every((tag) => current.has(tag.label))
+    } catch (error) {
+      logger.debug('Tags verification failed', { error })
+      return false
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+
+const testDir = '/tmp/preparr-cli-output-test'
+const entrypoint = join(import.meta.dir, '../../index.ts')
+
+/**
+ * Runs the CLI the way a CI job would and checks that stdout carries only the report or file
+ */
+describe('CLI output', () => {
+  beforeEach(async () => {
+    await Bun.spawn(['mkdir', '-p', testDir]).exited
+    // Services that refuse connections, so the plan finishes without a running stack
+    await Bun.write(
+      join(testDir, 'config.json'),
+      JSON.stringify({
+        postgres: { host: '127.0.0.1', port: 1, password: 'postgres' },
+        servarr: { type: 'qbittorrent' },
+        services: {
+          qbittorrent: { url: 'http://127.0.0.1:1', username: 'admin', password: 'adminadmin' },
+        },
+      }),
+    )
+  })
+
+  afterEach(async () => {
+    await Bun.spawn(['rm', '-rf', testDir]).exited
+  })
+
+  const run = async (...args: string[]) => {
+    const proc = Bun.spawn(
+      ['bun', entrypoint, ...args, `--config-path=${join(testDir, 'config.json')}`],
+      {
+        env: { PATH: process.env.PATH, LOG_LEVEL: 'debug' },
+        stdout: 'pipe',
+        stderr: 'pipe',
+      },
+    )
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ])
+    await proc.exited
+    return { stdout, stderr }
+  }
+
+  test('writes only the JSON plan to stdout, logs included', async () => {
+    const { stdout, stderr } = await run('--plan', '--plan-format=json')
+
+    const plan = JSON.parse(stdout)
+    expect(
+      plan.steps.some((step: { step: string }) => step.step === 'qbittorrent-connectivity'),
+    ).toBe(true)
+    expect(stderr).toContain('Running in plan mode...')
+  }, 30000)
+
+  test('writes only the exported config to stdout when no path is given', async () => {
+    const { stdout, stderr } = await run('--export', '--export-format=json')
+
+    expect(JSON.parse(stdout).servarr).toEqual({ type: 'qbittorrent' })
+    expect(stderr).toContain('Running in export mode...')
+  }, 30000)
+})
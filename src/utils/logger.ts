@@ -1,13 +1,32 @@
-const logLevel = process.env.LOG_LEVEL || 'info'
-const logFormat = process.env.LOG_FORMAT || 'json'
+let logLevel = process.env.LOG_LEVEL || 'info'
+let logFormat = process.env.LOG_FORMAT || 'json'
+let logsToStderr = false
 
 type LogLevel = 'debug' | 'info' | 'warn' | 'error'
 
+/**
+ * Apply the logging settings of a loaded configuration. Until then the LOG_LEVEL and
+ * LOG_FORMAT environment variables apply.
+ */
+export const configureLogger = (options: { logLevel: LogLevel; logFormat: 'json' | 'pretty' }) => {
+  logLevel = options.logLevel
+  logFormat = options.logFormat
+}
+
+/**
+ * Write debug and info logs to stderr as well, for commands that print a report to stdout.
+ */
+export const logToStderr = () => {
+  logsToStderr = true
+}
+
 const shouldLog = (level: LogLevel): boolean => {
   const levels = { debug: 0, info: 1, warn: 2, error: 3 }
   return levels[level] >= levels[logLevel as LogLevel]
 }
 
+const writeLog = (line: string) => (logsToStderr ? console.error(line) : console.log(line))
+
 const formatLog = (level: LogLevel, message: string, meta?: Record<string, unknown>) => {
   const timestamp = new Date().toISOString()
 
@@ -21,10 +40,10 @@ const formatLog = (level: LogLevel, message: string, meta?: Record<string, unkno
 
 export const logger = {
   debug: (message: string, meta?: Record<string, unknown>) => {
-    if (shouldLog('debug')) console.log(formatLog('debug', message, meta))
+    if (shouldLog('debug')) writeLog(formatLog('debug', message, meta))
   },
   info: (message: string, meta?: Record<string, unknown>) => {
-    if (shouldLog('info')) console.log(formatLog('info', message, meta))
+    if (shouldLog('info')) writeLog(formatLog('info', message, meta))
   },
   warn: (message: string, meta?: Record<string, unknown>) => {
     if (shouldLog('warn')) console.warn(formatLog('warn', message, meta))
@@ -0,0 +1,93 @@
+import type { Mock } from 'bun:test'
+import { afterEach, describe, expect, mock, test } from 'bun:test'
+import { configureTracing, shutdownTracing, tracedFetch, withSpan } from './tracing'
+
+interface ExportedSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  attributes: Array<{ key: string; value: Record<string, unknown> }>
+  status: { code: number; message?: string }
+}
+
+describe('tracing', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(async () => {
+    await shutdownTracing()
+    globalThis.fetch = originalFetch
+  })
+
+  const mockFetch = () => {
+    const fetchMock = mock((input: RequestInfo | URL) =>
+      Promise.resolve(
+        new Response('{}', { status: input.toString().includes('/api/v3/tag') ? 404 : 200 }),
+      ),
+    ) as Mock<typeof fetch>
+    globalThis.fetch = fetchMock as typeof fetch
+    return fetchMock
+  }
+
+  const exportedSpans = (fetchMock: Mock<typeof fetch>): ExportedSpan[] =>
+    fetchMock.mock.calls
+      .filter(([input]) => input.toString() === 'http://collector:4318/v1/traces')
+      .flatMap(([, init]) => JSON.parse(String(init?.body)).resourceSpans[0].scopeSpans[0].spans)
+
+  test('exports nested spans of one trace to the collector on shutdown', async () => {
+    const fetchMock = mockFetch()
+    configureTracing({
+      enabled: true,
+      endpoint: 'http://collector:4318/',
+      headers: { Authorization: 'Bearer token' },
+      serviceName: 'preparr',
+    })
+
+    await withSpan('reconciliation', () =>
+      withSpan('tags read', () => tracedFetch('http://sonarr:8989/api/v3/tag?apikey=secret')),
+    )
+    await expect(
+      withSpan('tags execute', () => Promise.reject(new Error('Servarr API unreachable'))),
+    ).rejects.toThrow('Servarr API unreachable')
+    await shutdownTracing()
+
+    const [, init] = fetchMock.mock.calls.at(-1) ?? []
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer token' })
+
+    const spans = exportedSpans(fetchMock)
+    const byName = Object.fromEntries(spans.map((span) => [span.name, span]))
+    const root = byName.reconciliation
+    const read = byName['tags read']
+    const request = byName['GET /api/v3/tag']
+
+    expect(root?.parentSpanId).toBeUndefined()
+    expect(read?.parentSpanId).toBe(root?.spanId)
+    expect(request?.parentSpanId).toBe(read?.spanId)
+    expect(new Set([root?.traceId, read?.traceId, request?.traceId]).size).toBe(1)
+
+    expect(request?.attributes).toContainEqual({
+      key: 'url.full',
+      value: { stringValue: 'http://sonarr:8989/api/v3/tag' },
+    })
+    expect(request?.status).toEqual({ code: 2, message: 'HTTP 404' })
+    expect(byName['tags execute']?.traceId).not.toBe(root?.traceId)
+    expect(byName['tags execute']?.status).toEqual({ code: 2, message: 'Servarr API unreachable' })
+  })
+
+  test('sends nothing while tracing is disabled', async () => {
+    const fetchMock = mockFetch()
+    configureTracing({
+      enabled: false,
+      endpoint: 'http://collector:4318',
+      headers: {},
+      serviceName: 'preparr',
+    })
+
+    await withSpan('reconciliation', () => tracedFetch('http://sonarr:8989/api/v3/system/status'))
+    await shutdownTracing()
+
+    expect(fetchMock.mock.calls.map(([input]) => input.toString())).toEqual([
+      'http://sonarr:8989/api/v3/system/status',
+    ])
+  })
+})
@@ -0,0 +1,263 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomBytes } from 'node:crypto'
+import type { TracingConfig } from '@/config/schema'
+import { toError } from '@/utils/errors'
+import { logger } from '@/utils/logger'
+
+type AttributeValue = string | number | boolean | string[]
+export type SpanAttributes = Record<string, AttributeValue | undefined>
+
+// Spans are sent in batches of at most this many, or every few seconds
+const MAX_BATCH_SIZE = 512
+const EXPORT_INTERVAL_MS = 5000
+const EXPORT_TIMEOUT_MS = 10000
+// Spans kept while the collector is unreachable; the oldest are dropped beyond this
+const MAX_QUEUE_SIZE = 2048
+
+// OTLP enum values
+const SPAN_KINDS = { internal: 1, client: 3 }
+const STATUS_CODES = { unset: 0, error: 2 }
+
+interface OtlpSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: number
+  startTimeUnixNano: string
+  endTimeUnixNano: string
+  attributes: OtlpAttribute[]
+  status: { code: number; message?: string }
+}
+
+interface OtlpAttribute {
+  key: string
+  value: Record<string, unknown>
+}
+
+export class Span {
+  readonly spanId = randomBytes(8).toString('hex')
+  private readonly startTime = nowUnixNano()
+  private error: string | undefined = undefined
+
+  constructor(
+    readonly name: string,
+    readonly traceId: string,
+    private parentSpanId: string | undefined,
+    private kind: keyof typeof SPAN_KINDS,
+    private attributes: SpanAttributes,
+  ) {}
+
+  setAttributes(attributes: SpanAttributes): void {
+    Object.assign(this.attributes, attributes)
+  }
+
+  setError(message: string): void {
+    this.error = message
+  }
+
+  end(): OtlpSpan {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+      name: this.name,
+      kind: SPAN_KINDS[this.kind],
+      startTimeUnixNano: this.startTime,
+      endTimeUnixNano: nowUnixNano(),
+      attributes: toOtlpAttributes(this.attributes),
+      status: this.error
+        ? { code: STATUS_CODES.error, message: this.error }
+        : { code: STATUS_CODES.unset },
+    }
+  }
+}
+
+/**
+ * Sends finished spans to an OTLP/HTTP collector as JSON, in batches. A collector that cannot
+ * be reached is logged once and never fails the work being traced.
+ */
+class OtlpHttpExporter {
+  private queue: OtlpSpan[] = []
+  private exports: Promise<void> = Promise.resolve()
+  private timer: NodeJS.Timeout
+  private failing = false
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string>,
+    private resource: SpanAttributes,
+  ) {
+    this.timer = setInterval(() => this.flush(), EXPORT_INTERVAL_MS)
+    // Tracing alone must not keep the process running
+    this.timer.unref()
+  }
+
+  add(span: OtlpSpan): void {
+    if (this.queue.length >= MAX_QUEUE_SIZE) {
+      this.queue.shift()
+    }
+    this.queue.push(span)
+
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      this.flush()
+    }
+  }
+
+  flush(): Promise<void> {
+    this.exports = this.exports.then(async () => {
+      while (this.queue.length > 0) {
+        await this.send(this.queue.splice(0, MAX_BATCH_SIZE))
+      }
+    })
+    return this.exports
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer)
+    await this.flush()
+  }
+
+  private async send(spans: OtlpSpan[]): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { ...this.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resourceSpans: [
+            {
+              resource: { attributes: toOtlpAttributes(this.resource) },
+              scopeSpans: [{ scope: { name: 'preparr' }, spans }],
+            },
+          ],
+        }),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${await response.text()}`)
+      }
+      if (this.failing) {
+        logger.info('Trace export recovered', { url: this.url })
+        this.failing = false
+      }
+    } catch (error) {
+      if (!this.failing) {
+        logger.warn('Failed to export traces, dropping spans until the collector is back', {
+          url: this.url,
+          error: toError(error).message,
+        })
+        this.failing = true
+      }
+    }
+  }
+}
+
+let exporter: OtlpHttpExporter | undefined
+const activeSpan = new AsyncLocalStorage<Span>()
+
+/**
+ * Start exporting spans when tracing is enabled. Until then spans are created and dropped.
+ */
+export const configureTracing = (config: TracingConfig, resource: SpanAttributes = {}) => {
+  if (!config.enabled) return
+
+  const url = `${config.endpoint.replace(/\/+$/, '')}/v1/traces`
+  exporter = new OtlpHttpExporter(url, config.headers, {
+    'service.name': config.serviceName,
+    ...resource,
+  })
+  logger.info('Trace export enabled', { url })
+}
+
+// Send the spans still queued; called on shutdown
+export async function shutdownTracing(): Promise<void> {
+  await exporter?.shutdown()
+  exporter = undefined
+}
+
+/**
+ * Run `fn` in a span. Spans started inside it, also across awaits, become its children; a span
+ * started outside any other span begins a new trace. A thrown error marks the span as failed.
+ */
+export async function withSpan<T>(
+  name: string,
+  fn: (span: Span) => Promise<T>,
+  options: { kind?: 'internal' | 'client'; attributes?: SpanAttributes } = {},
+): Promise<T> {
+  const parent = activeSpan.getStore()
+  const span = new Span(
+    name,
+    parent?.traceId ?? randomBytes(16).toString('hex'),
+    parent?.spanId,
+    options.kind ?? 'internal',
+    { ...options.attributes },
+  )
+
+  try {
+    return await activeSpan.run(span, () => fn(span))
+  } catch (error) {
+    span.setError(toError(error).message)
+    throw error
+  } finally {
+    exporter?.add(span.end())
+  }
+}
+
+/**
+ * `fetch` in a client span named after the method and path. The query string is left out of
+ * the span, since some APIs take their key there.
+ */
+export function tracedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const method = init.method ?? 'GET'
+  const { origin, pathname, hostname, port } = new URL(url)
+
+  return withSpan(
+    `${method} ${pathname}`,
+    async (span) => {
+      const response = await fetch(url, init)
+      span.setAttributes({ 'http.response.status_code': response.status })
+      if (response.status >= 400) {
+        span.setError(`HTTP ${response.status}`)
+      }
+      return response
+    },
+    {
+      kind: 'client',
+      attributes: {
+        'http.request.method': method,
+        'url.full': `${origin}${pathname}`,
+        'server.address': hostname,
+        'server.port': port ? Number(port) : undefined,
+      },
+    },
+  )
+}
+
+function nowUnixNano(): string {
+  const milliseconds = performance.timeOrigin + performance.now()
+  return (
+    BigInt(Math.floor(milliseconds)) * 1_000_000n +
+    BigInt(Math.floor((milliseconds % 1) * 1e6))
+  ).toString()
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): OtlpAttribute[] {
+  return Object.entries(attributes).flatMap(([key, value]) =>
+    value === undefined ? [] : [{ key, value: toOtlpValue(value) }],
+  )
+}
+
+function toOtlpValue(value: AttributeValue): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((item) => ({ stringValue: item })) } }
+  }
+  switch (typeof value) {
+    case 'string':
+      return { stringValue: value }
+    case 'boolean':
+      return { boolValue: value }
+    default:
+      return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+  }
+}